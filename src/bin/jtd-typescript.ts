@@ -0,0 +1,93 @@
+#!/usr/bin/env node
+/** @ignore *//** */
+
+import { readFileSync } from "fs";
+import { generateTypeScript, TypeScriptOptions } from "../codegen";
+import { encodePointer } from "../pointer";
+import { checkSchema } from "../schema";
+
+const USAGE = `usage: jtd-typescript [options] <schema.jtd.json>
+
+Prints TypeScript declarations for the data a JSON Typedef schema accepts.
+
+options:
+  --root-name <name>    name of the root type (default: Root)
+  --const-enums         declare enums as const enums
+  --type-guard          also declare a function that checks data with validate
+  --import-from <name>  module to import validate from (default: jtd)
+`;
+
+function main(args: string[]): number {
+  const options: TypeScriptOptions = { rootName: "Root" };
+  const files = [];
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case "--root-name":
+      case "--import-from":
+        if (i + 1 === args.length) {
+          return usage(`missing value for ${args[i]}`);
+        }
+
+        if (args[i] === "--root-name") {
+          options.rootName = args[++i];
+        } else {
+          options.importFrom = args[++i];
+        }
+
+        break;
+      case "--const-enums":
+        options.enumStyle = "constEnum";
+        break;
+      case "--type-guard":
+        options.typeGuard = true;
+        break;
+      case "-h":
+      case "--help":
+        process.stdout.write(USAGE);
+        return 0;
+      default:
+        if (args[i].startsWith("-")) {
+          return usage(`unknown option: ${args[i]}`);
+        }
+
+        files.push(args[i]);
+    }
+  }
+
+  if (files.length !== 1) {
+    return usage("expected exactly one schema file");
+  }
+
+  if (!/^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(options.rootName)) {
+    return usage(`root name is not an identifier: ${options.rootName}`);
+  }
+
+  let schema;
+  try {
+    schema = JSON.parse(readFileSync(files[0], "utf8"));
+  } catch (err) {
+    process.stderr.write(`${files[0]}: ${err.message}\n`);
+    return 1;
+  }
+
+  const diagnostics = checkSchema(schema);
+  if (diagnostics.length !== 0) {
+    for (const { path, message } of diagnostics) {
+      const pointer = encodePointer(path) || "(root)";
+      process.stderr.write(`${files[0]}: ${pointer}: ${message}\n`);
+    }
+
+    return 1;
+  }
+
+  process.stdout.write(generateTypeScript(schema, options));
+  return 0;
+}
+
+function usage(message: string): number {
+  process.stderr.write(`jtd-typescript: ${message}\n\n${USAGE}`);
+  return 2;
+}
+
+process.exitCode = main(process.argv.slice(2));
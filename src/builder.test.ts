@@ -0,0 +1,109 @@
+import {
+  j,
+  BuilderDataType,
+  SchemaBuilderError,
+  isSchema,
+  isValidSchema,
+  validate,
+} from "./index";
+
+describe("j", () => {
+  it("builds schemas of each form", () => {
+    const builder = j.properties(
+      {
+        id: j.string(),
+        tags: j.elements(j.enum("a", "b")),
+        counts: j.values(j.uint32()),
+        extra: j.empty().metadata({ description: "anything" }),
+        event: j.discriminator("kind", {
+          created: j.properties({ at: j.timestamp() }),
+          deleted: j.properties({}, { optional: { soft: j.boolean() } }),
+        }),
+      },
+      { optional: { age: j.uint8().nullable() }, additional: true }
+    );
+
+    const schema = builder.toSchema();
+    expect(schema).toEqual({
+      properties: {
+        id: { type: "string" },
+        tags: { elements: { enum: ["a", "b"] } },
+        counts: { values: { type: "uint32" } },
+        extra: { metadata: { description: "anything" } },
+        event: {
+          discriminator: "kind",
+          mapping: {
+            created: { properties: { at: { type: "timestamp" } } },
+            deleted: { optionalProperties: { soft: { type: "boolean" } } },
+          },
+        },
+      },
+      optionalProperties: { age: { type: "uint8", nullable: true } },
+      additionalProperties: true,
+    });
+
+    expect(isSchema(schema) && isValidSchema(schema)).toBe(true);
+
+    const instance: BuilderDataType<typeof builder> = {
+      id: "1",
+      tags: ["a"],
+      counts: { x: 1 },
+      extra: null,
+      event: { kind: "created", at: "1985-04-12T23:20:50.52Z" },
+      age: null,
+    };
+
+    expect(validate(schema, instance)).toEqual([]);
+  });
+
+  it("collects definitions from refs", () => {
+    interface Node {
+      value: string;
+      next: Node | null;
+    }
+
+    const node = j.ref<Node>(
+      "node",
+      j.properties({ value: j.string(), next: j.ref<Node>("node").nullable() })
+    );
+
+    const schema = j.elements(node).toSchema();
+    expect(schema).toEqual({
+      definitions: {
+        node: {
+          properties: {
+            value: { type: "string" },
+            next: { ref: "node", nullable: true },
+          },
+        },
+      },
+      elements: { ref: "node" },
+    });
+
+    expect(isSchema(schema) && isValidSchema(schema)).toBe(true);
+  });
+
+  it("rejects undeclared refs", () => {
+    expect(() => j.ref("missing").toSchema()).toThrow(SchemaBuilderError);
+  });
+
+  it("rejects conflicting definitions", () => {
+    expect(() =>
+      j.properties({
+        a: j.ref("x", j.string()),
+        b: j.ref("x", j.boolean()),
+      })
+    ).toThrow(SchemaBuilderError);
+  });
+
+  it("rejects incorrect schemas", () => {
+    expect(() => j.enum()).toThrow(SchemaBuilderError);
+    expect(() => j.enum("a", "a")).toThrow(SchemaBuilderError);
+    expect(() =>
+      j.properties({ a: j.string() }, { optional: { a: j.string() } })
+    ).toThrow(SchemaBuilderError);
+    expect(() =>
+      j.discriminator("kind", { a: j.properties({ kind: j.string() }) })
+    ).toThrow(SchemaBuilderError);
+  });
+});
@@ -0,0 +1,412 @@
+/**
+ * Module builder provides a fluent way to write JSON Typedef schemas in
+ * TypeScript.
+ *
+ * The most important value in this module is {@link j}, which has a function
+ * for constructing each of the JSON Typedef forms. Each of those functions
+ * returns a {@link SchemaBuilder}, which keeps track of the type of data its
+ * schema accepts. Call {@link SchemaBuilder.toSchema} to get a plain
+ * {@link Schema} you can pass to {@link validate}.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  Schema,
+  SchemaFormProperties,
+  Type,
+  isPropertiesForm,
+} from "./schema";
+import { hasOwn, setOwn } from "./objects";
+
+/**
+ * SchemaBuilderError is the error thrown when a {@link SchemaBuilder} would
+ * produce a schema that is not correct according to {@link isValidSchema}.
+ */
+export class SchemaBuilderError extends Error {}
+
+/**
+ * BuilderDataType is the type of the data accepted by the schema of a
+ * {@link SchemaBuilder}.
+ */
+export type BuilderDataType<B> = B extends SchemaBuilder<infer T> ? T : never;
+
+/**
+ * SchemaBuilder represents a schema under construction, which accepts data of
+ * type `T`.
+ *
+ * SchemaBuilder instances are immutable. Methods like {@link nullable} return
+ * a new builder rather than modifying the existing one, so it's safe to re-use
+ * a builder in many places.
+ */
+export class SchemaBuilder<T> {
+  /**
+   * _type only exists at the type level, so that TypeScript can infer `T` from
+   * a builder. Its value is always undefined.
+   */
+  readonly _type!: T;
+
+  /**
+   * @param schema The schema being built, without any definitions
+   * @param definitions The definitions this schema, or any schema within it,
+   * declared with {@link j.ref}
+   * @param refs The names of all definitions this schema refers to
+   */
+  constructor(
+    readonly schema: Schema,
+    readonly definitions: { [name: string]: Schema } = {},
+    readonly refs: string[] = []
+  ) {}
+
+  /**
+   * nullable returns a builder for a schema that also accepts null.
+   */
+  nullable(): SchemaBuilder<T | null> {
+    return new SchemaBuilder(
+      { ...this.schema, nullable: true },
+      this.definitions,
+      this.refs
+    );
+  }
+
+  /**
+   * metadata returns a builder for the same schema, with the given metadata
+   * added to it.
+   *
+   * @param metadata The metadata to add to the schema
+   */
+  metadata(metadata: { [name: string]: unknown }): SchemaBuilder<T> {
+    return new SchemaBuilder(
+      { ...this.schema, metadata: { ...this.schema.metadata, ...metadata } },
+      this.definitions,
+      this.refs
+    );
+  }
+
+  /**
+   * toSchema returns the schema being built as a root schema, with all the
+   * definitions it refers to in `definitions`.
+   *
+   * Throws {@link SchemaBuilderError} if the schema refers to a definition
+   * that was never declared.
+   */
+  toSchema(): Schema {
+    for (const ref of this.refs) {
+      if (!hasOwn(this.definitions, ref)) {
+        throw new SchemaBuilderError(`undeclared definition: ${ref}`);
+      }
+    }
+
+    if (Object.keys(this.definitions).length === 0) {
+      return this.schema;
+    }
+
+    return { ...this.schema, definitions: { ...this.definitions } };
+  }
+}
+
+/**
+ * PropertiesBuilder is a {@link SchemaBuilder} for a schema of the properties
+ * form. Only these builders may be used in {@link j.discriminator}.
+ */
+export class PropertiesBuilder<T> extends SchemaBuilder<T> {
+  // Because this member is private, TypeScript will not consider other
+  // builders to be PropertiesBuilders just because they have the same shape.
+  private readonly propertiesForm = true;
+
+  /**
+   * metadata returns a builder for the same schema, with the given metadata
+   * added to it.
+   *
+   * @param metadata The metadata to add to the schema
+   */
+  metadata(metadata: { [name: string]: unknown }): PropertiesBuilder<T> {
+    const { schema, definitions, refs } = super.metadata(metadata);
+    return new PropertiesBuilder(schema, definitions, refs);
+  }
+}
+
+/**
+ * PropertiesOptions are the options you can pass to {@link j.properties}.
+ */
+export interface PropertiesOptions<O, A extends boolean> {
+  /**
+   * optional contains the builders for the optional properties of the schema.
+   */
+  optional?: O;
+
+  /**
+   * additional is whether the schema allows properties it does not mention.
+   * By default, additional is false.
+   */
+  additional?: A;
+}
+
+type Builders = { [name: string]: SchemaBuilder<any> };
+
+type BuildersDataType<P> = { [K in keyof P]: BuilderDataType<P[K]> };
+
+type PropertiesDataType<P, O, A> = BuildersDataType<P> &
+  { [K in keyof O]?: BuilderDataType<O[K]> } &
+  (A extends true ? { [name: string]: unknown } : {});
+
+type DiscriminatorDataType<K extends string, M> = {
+  [T in keyof M]: { [_ in K]: T } & BuilderDataType<M[T]>;
+}[keyof M];
+
+function type<T>(type: Type): () => SchemaBuilder<T> {
+  return () => new SchemaBuilder({ type });
+}
+
+/**
+ * j contains functions for constructing {@link SchemaBuilder} instances, one
+ * for each JSON Typedef form.
+ *
+ * ```ts
+ * const user = j.properties(
+ *   { id: j.string(), tags: j.elements(j.enum("a", "b")) },
+ *   { optional: { age: j.uint8().nullable() } }
+ * );
+ *
+ * // { id: string; tags: ("a" | "b")[] } & { age?: number | null }
+ * type User = BuilderDataType<typeof user>;
+ *
+ * const schema = user.toSchema();
+ * ```
+ */
+export const j = {
+  /**
+   * empty returns a builder for the empty form, which accepts any data.
+   */
+  empty(): SchemaBuilder<unknown> {
+    return new SchemaBuilder({});
+  },
+
+  /**
+   * ref returns a builder for a schema of the ref form.
+   *
+   * If `definition` is given, then it is declared as the definition for
+   * `name`, and will be included in the `definitions` of any schema that
+   * contains this builder. Otherwise, some other part of the schema must
+   * declare `name`.
+   *
+   * Recursive schemas need a declared type parameter, because TypeScript
+   * cannot infer types that refer to themselves:
+   *
+   * ```ts
+   * interface Node { value: string; next: Node | null }
+   *
+   * const node = j.ref<Node>(
+   *   "node",
+   *   j.properties({ value: j.string(), next: j.ref<Node>("node").nullable() })
+   * );
+   * ```
+   *
+   * Throws {@link SchemaBuilderError} if `definition` itself has
+   * definitions that conflict with `name`.
+   *
+   * @param name The name of the definition to refer to
+   * @param definition The definition to declare for `name`. Optional.
+   */
+  ref<T = unknown>(name: string, definition?: SchemaBuilder<T>) {
+    if (definition === undefined) {
+      return new SchemaBuilder<T>({ ref: name }, {}, [name]);
+    }
+
+    const definitions = mergeDefinitions([
+      definition.definitions,
+      { [name]: definition.schema },
+    ]);
+
+    return new SchemaBuilder<T>({ ref: name }, definitions, [
+      name,
+      ...definition.refs,
+    ]);
+  },
+
+  boolean: type<boolean>("boolean"),
+  float32: type<number>("float32"),
+  float64: type<number>("float64"),
+  int8: type<number>("int8"),
+  uint8: type<number>("uint8"),
+  int16: type<number>("int16"),
+  uint16: type<number>("uint16"),
+  int32: type<number>("int32"),
+  uint32: type<number>("uint32"),
+  string: type<string>("string"),
+  timestamp: type<string>("timestamp"),
+
+  /**
+   * enum returns a builder for a schema of the enum form.
+   *
+   * Throws {@link SchemaBuilderError} if `values` is empty or has duplicates.
+   *
+   * @param values The values the schema accepts
+   */
+  enum<E extends string>(...values: E[]): SchemaBuilder<E> {
+    if (values.length === 0) {
+      throw new SchemaBuilderError("enum must not be empty");
+    }
+
+    if (values.length !== new Set(values).size) {
+      throw new SchemaBuilderError("enum must not contain duplicates");
+    }
+
+    return new SchemaBuilder({ enum: values });
+  },
+
+  /**
+   * elements returns a builder for a schema of the elements form.
+   *
+   * @param elements The schema of each element
+   */
+  elements<T>(elements: SchemaBuilder<T>): SchemaBuilder<T[]> {
+    return new SchemaBuilder(
+      { elements: elements.schema },
+      elements.definitions,
+      elements.refs
+    );
+  },
+
+  /**
+   * properties returns a builder for a schema of the properties form.
+   *
+   * Throws {@link SchemaBuilderError} if a property is both required and
+   * optional.
+   *
+   * @param properties The schemas of the required properties
+   * @param options The optional properties, and whether additional properties
+   * are allowed. Optional.
+   */
+  properties<
+    P extends Builders,
+    O extends Builders = {},
+    A extends boolean = false
+  >(
+    properties: P,
+    options: PropertiesOptions<O, A> = {}
+  ): PropertiesBuilder<PropertiesDataType<P, O, A>> {
+    const optional: Builders = options.optional || {};
+
+    for (const name of Object.keys(properties)) {
+      if (hasOwn(optional, name)) {
+        throw new SchemaBuilderError(
+          `property is both required and optional: ${name}`
+        );
+      }
+    }
+
+    const schema: SchemaFormProperties = { properties: schemasOf(properties) };
+    if (Object.keys(optional).length !== 0) {
+      schema.optionalProperties = schemasOf(optional);
+
+      if (Object.keys(properties).length === 0) {
+        delete schema.properties;
+      }
+    }
+
+    if (options.additional) {
+      schema.additionalProperties = true;
+    }
+
+    const builders = [...Object.values(properties), ...Object.values(optional)];
+    return new PropertiesBuilder(
+      schema,
+      mergeDefinitions(builders.map((b) => b.definitions)),
+      refsOf(builders)
+    );
+  },
+
+  /**
+   * values returns a builder for a schema of the values form.
+   *
+   * @param values The schema of each value
+   */
+  values<T>(values: SchemaBuilder<T>): SchemaBuilder<{ [key: string]: T }> {
+    return new SchemaBuilder(
+      { values: values.schema },
+      values.definitions,
+      values.refs
+    );
+  },
+
+  /**
+   * discriminator returns a builder for a schema of the discriminator form.
+   *
+   * Throws {@link SchemaBuilderError} if any schema in `mapping` is nullable,
+   * is not of the properties form, or also has a property named
+   * `discriminator`.
+   *
+   * @param discriminator The name of the tag property
+   * @param mapping The schema to use for each value of the tag
+   */
+  discriminator<
+    K extends string,
+    M extends { [tag: string]: PropertiesBuilder<any> }
+  >(discriminator: K, mapping: M): SchemaBuilder<DiscriminatorDataType<K, M>> {
+    for (const [tag, builder] of Object.entries(mapping)) {
+      const schema = builder.schema;
+      if (!isPropertiesForm(schema) || schema.nullable) {
+        throw new SchemaBuilderError(
+          `mapping ${tag} must be a non-nullable properties schema`
+        );
+      }
+
+      if (
+        hasOwn(schema.properties || {}, discriminator) ||
+        hasOwn(schema.optionalProperties || {}, discriminator)
+      ) {
+        throw new SchemaBuilderError(
+          `mapping ${tag} re-specifies discriminator: ${discriminator}`
+        );
+      }
+    }
+
+    const builders = Object.values(mapping);
+    return new SchemaBuilder(
+      { discriminator, mapping: schemasOf(mapping) },
+      mergeDefinitions(builders.map((b) => b.definitions)),
+      refsOf(builders)
+    );
+  },
+};
+
+function schemasOf(builders: Builders): { [name: string]: Schema } {
+  const schemas: { [name: string]: Schema } = {};
+  for (const [name, builder] of Object.entries(builders)) {
+    setOwn(schemas, name, builder.schema);
+  }
+
+  return schemas;
+}
+
+function refsOf(builders: SchemaBuilder<unknown>[]): string[] {
+  const refs = new Set<string>();
+  for (const builder of builders) {
+    for (const ref of builder.refs) {
+      refs.add(ref);
+    }
+  }
+
+  return Array.from(refs);
+}
+
+// mergeDefinitions combines sets of definitions, making sure the same name is
+// never declared as two different schemas.
+function mergeDefinitions(
+  all: { [name: string]: Schema }[]
+): { [name: string]: Schema } {
+  const merged: { [name: string]: Schema } = {};
+
+  for (const definitions of all) {
+    for (const [name, schema] of Object.entries(definitions)) {
+      if (hasOwn(merged, name) && merged[name] !== schema) {
+        throw new SchemaBuilderError(`conflicting definitions: ${name}`);
+      }
+
+      setOwn(merged, name, schema);
+    }
+  }
+
+  return merged;
+}
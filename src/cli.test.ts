@@ -0,0 +1,261 @@
+import {
+  lstatSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  rmdirSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+import { run } from "./cli";
+
+describe("jtd", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "jtd-cli-"));
+    mkdirSync(join(dir, "data"));
+    mkdirSync(join(dir, "data", "nested"));
+
+    const files: { [name: string]: string } = {
+      "schema.jtd.json": JSON.stringify({
+        properties: { name: { type: "string" }, age: { type: "uint8" } },
+      }),
+      "invalid.jtd.json": JSON.stringify({ ref: "missing" }),
+      "loop.jtd.json": JSON.stringify({
+        definitions: { loop: { ref: "loop" } },
+        ref: "loop",
+      }),
+      "data/a.json": JSON.stringify({ name: "a", age: 1 }),
+      "data/b.json": JSON.stringify({ name: 2, age: 300 }),
+      "data/nested/c.json": "{ not json",
+      "data/logs.ndjson": '{"name":"x","age":1}\n\n{"name":"y"}\n',
+    };
+
+    for (const [name, contents] of Object.entries(files)) {
+      writeFileSync(join(dir, name), contents);
+    }
+  });
+
+  afterEach(() => {
+    remove(dir);
+  });
+
+  // remove deletes a file, or a directory and everything in it. Node 10 has no
+  // recursive option for rmdirSync.
+  function remove(path: string) {
+    if (lstatSync(path).isDirectory()) {
+      for (const entry of readdirSync(path)) {
+        remove(join(path, entry));
+      }
+
+      rmdirSync(path);
+    } else {
+      unlinkSync(path);
+    }
+  }
+
+  async function jtd(args: string[], stdin = "") {
+    const out: string[] = [];
+    const err: string[] = [];
+    const code = await run(
+      args.map((arg) => arg.replace("$DIR", dir)),
+      {
+        stdin: Readable.from([stdin]),
+        stdout: { write: (chunk: string) => out.push(chunk) },
+        stderr: { write: (chunk: string) => err.push(chunk) },
+      }
+    );
+
+    const clean = (chunks: string[]) => chunks.join("").split(dir).join("$DIR");
+    return { code, stdout: clean(out), stderr: clean(err) };
+  }
+
+  it("checks schemas", async () => {
+    expect(await jtd(["check-schema", "$DIR/schema.jtd.json"])).toEqual({
+      code: 0,
+      stdout: "",
+      stderr: "",
+    });
+
+    expect(
+      await jtd([
+        "check-schema",
+        "$DIR/schema.jtd.json",
+        "$DIR/invalid.jtd.json",
+      ])
+    ).toEqual({
+      code: 2,
+      stdout:
+        "$DIR/invalid.jtd.json: /ref: ref to undefined definition: missing\n",
+      stderr: "",
+    });
+
+    expect(
+      await jtd(["check-schema", "--format=jsonl", "$DIR/invalid.jtd.json"])
+    ).toEqual({
+      code: 2,
+      stdout:
+        JSON.stringify({
+          file: "$DIR/invalid.jtd.json",
+          valid: false,
+          diagnostics: [
+            {
+              path: "/ref",
+              code: "dangling_ref",
+              message: "ref to undefined definition: missing",
+            },
+          ],
+        }) + "\n",
+      stderr: "",
+    });
+  });
+
+  it("validates files and globs", async () => {
+    expect(
+      await jtd(["validate", "$DIR/schema.jtd.json", "$DIR/data/a.json"])
+    ).toEqual({ code: 0, stdout: "", stderr: "" });
+
+    const { code, stdout, stderr } = await jtd([
+      "validate",
+      "$DIR/schema.jtd.json",
+      "$DIR/data/**/*.json",
+    ]);
+
+    expect(code).toEqual(1);
+    expect(stderr).toEqual("");
+
+    // The message for invalid JSON depends on the version of Node.
+    const lines = stdout.split("\n");
+    expect(lines.slice(0, 2)).toEqual([
+      "$DIR/data/b.json: expected string at /name, got 2",
+      "$DIR/data/b.json: expected uint8 at /age, got 300 " +
+        "(must be between 0 and 255)",
+    ]);
+
+    expect(lines[2]).toMatch(/^\$DIR\/data\/nested\/c.json: invalid JSON: /);
+    expect(lines.slice(3)).toEqual([""]);
+  });
+
+  it("validates NDJSON files and stdin", async () => {
+    const expected = {
+      code: 1,
+      stdout: [
+        JSON.stringify({ file: "?", line: 1, valid: true, errors: [] }),
+        JSON.stringify({
+          file: "?",
+          line: 3,
+          valid: false,
+          errors: [
+            {
+              instancePath: "",
+              schemaPath: "/properties/age",
+              message: 'missing required property "age" at root',
+            },
+          ],
+        }),
+        "",
+      ].join("\n"),
+      stderr: "",
+    };
+
+    const logs = "$DIR/data/logs.ndjson";
+    expect(
+      await jtd(["validate", "--format=jsonl", "$DIR/schema.jtd.json", logs])
+    ).toEqual({ ...expected, stdout: expected.stdout.split("?").join(logs) });
+
+    expect(
+      await jtd(
+        ["validate", "--format", "jsonl", "$DIR/schema.jtd.json"],
+        '{"name":"x","age":1}\n\n{"name":"y"}\n'
+      )
+    ).toEqual({
+      ...expected,
+      stdout: expected.stdout.split("?").join("<stdin>"),
+    });
+  });
+
+  it("supports the json format", async () => {
+    const { code, stdout } = await jtd([
+      "validate",
+      "--format=json",
+      "--max-errors=1",
+      "$DIR/schema.jtd.json",
+      "$DIR/data/a.json",
+      "$DIR/data/b.json",
+    ]);
+
+    expect(code).toEqual(1);
+    expect(JSON.parse(stdout)).toEqual([
+      { file: "$DIR/data/a.json", valid: true, errors: [] },
+      {
+        file: "$DIR/data/b.json",
+        valid: false,
+        errors: [
+          {
+            instancePath: "/name",
+            schemaPath: "/properties/name/type",
+            message: "expected string at /name, got 2",
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("reports invalid schemas when validating", async () => {
+    expect(
+      await jtd(["validate", "$DIR/invalid.jtd.json", "$DIR/data/a.json"])
+    ).toEqual({
+      code: 2,
+      stdout:
+        "$DIR/invalid.jtd.json: /ref: ref to undefined definition: missing\n",
+      stderr: "",
+    });
+  });
+
+  it("supports --max-depth", async () => {
+    expect(
+      await jtd([
+        "validate",
+        "--max-depth",
+        "8",
+        "$DIR/loop.jtd.json",
+        "$DIR/data/a.json",
+      ])
+    ).toEqual({
+      code: 1,
+      stdout: "$DIR/data/a.json: max depth exceeded\n",
+      stderr: "",
+    });
+  });
+
+  it("rejects bad arguments", async () => {
+    for (const args of [
+      [],
+      ["bogus"],
+      ["validate"],
+      ["validate", "--format", "xml", "$DIR/schema.jtd.json"],
+      ["validate", "--max-errors", "-1", "$DIR/schema.jtd.json"],
+      ["validate", "--verbose", "$DIR/schema.jtd.json"],
+      ["validate", "$DIR/schema.jtd.json", "$DIR/data/*.xml"],
+    ]) {
+      const { code, stdout, stderr } = await jtd(args);
+      expect(code).toEqual(3);
+      expect(stdout).toEqual("");
+      expect(stderr).toMatch(/^jtd: .*\n\nusage: jtd/);
+    }
+
+    expect(
+      await jtd(["validate", "$DIR/schema.jtd.json", "$DIR/data/missing.json"])
+    ).toEqual({
+      code: 3,
+      stdout: "",
+      stderr:
+        "jtd: ENOENT: no such file or directory, " +
+        "open '$DIR/data/missing.json'\n",
+    });
+  });
+});
@@ -0,0 +1,467 @@
+/** @ignore *//** */
+
+import { createReadStream, readFileSync, readdirSync, statSync } from "fs";
+import { join } from "path";
+import { createInterface } from "readline";
+import { formatErrors } from "./format";
+import { encodePointer } from "./pointer";
+import { Schema, checkSchema } from "./schema";
+import { MaxDepthExceededError, validate } from "./validate";
+
+// The exit codes of the jtd command. When there are several kinds of problems,
+// the command exits with the largest of their codes.
+export const EXIT_OK = 0;
+export const EXIT_INVALID_INSTANCE = 1;
+export const EXIT_INVALID_SCHEMA = 2;
+export const EXIT_USAGE = 3;
+
+const USAGE = `usage: jtd <command> [options] ...
+
+commands:
+  check-schema <schema.jtd.json>...
+      Checks that files are correct JSON Typedef schemas.
+
+  validate <schema.jtd.json> [file|glob]...
+      Validates JSON files against a schema. Files ending in .ndjson or .jsonl
+      are read as newline-delimited JSON, with one instance per line. With no
+      files, or a file named -, reads newline-delimited JSON from stdin.
+
+options:
+  --format <format>   text (default), json, or jsonl
+  --max-errors <n>    for validate, the maximum number of errors to report per
+                      instance (default: 0, meaning no maximum)
+  --max-depth <n>     for validate, the maximum number of refs to follow
+                      (default: 0, meaning no maximum)
+
+exit codes:
+  0  everything is valid
+  1  an instance is invalid
+  2  a schema is invalid
+  3  bad arguments, or an instance file could not be read
+`;
+
+// Streams is the subset of process that run uses, so that tests can provide
+// their own.
+export interface Streams {
+  stdin: NodeJS.ReadableStream;
+  stdout: { write(chunk: string): unknown };
+  stderr: { write(chunk: string): unknown };
+}
+
+type Format = "text" | "json" | "jsonl";
+
+interface Options {
+  format: Format;
+  maxErrors: number;
+  maxDepth: number;
+  args: string[];
+}
+
+// Output writes the results of a command in the chosen format. Results are
+// written as soon as they're known, except for the json format, which has to
+// wait until the end to write a single array.
+interface Output {
+  format: Format;
+  streams: Streams;
+  results: object[];
+}
+
+// run runs the jtd command with the given arguments, and returns the code it
+// should exit with.
+export async function run(args: string[], streams: Streams): Promise<number> {
+  const [command, ...rest] = args;
+
+  if (command === "-h" || command === "--help" || command === "help") {
+    streams.stdout.write(USAGE);
+    return EXIT_OK;
+  }
+
+  const options = parseOptions(rest);
+  if (typeof options === "string") {
+    return usage(streams, options);
+  }
+
+  const output: Output = { format: options.format, streams, results: [] };
+
+  let code;
+  switch (command) {
+    case "check-schema":
+      code = checkSchemas(output, options);
+      break;
+    case "validate":
+      code = await validateInstances(output, options);
+      break;
+    case undefined:
+      return usage(streams, "missing command");
+    default:
+      return usage(streams, `unknown command: ${command}`);
+  }
+
+  if (output.format === "json") {
+    streams.stdout.write(JSON.stringify(output.results, null, 2) + "\n");
+  }
+
+  return code;
+}
+
+// parseOptions separates options from other arguments, returning an error
+// message if the options are invalid.
+function parseOptions(args: string[]): Options | string {
+  const options: Options = {
+    format: "text",
+    maxErrors: 0,
+    maxDepth: 0,
+    args: [],
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "-" || !arg.startsWith("-")) {
+      options.args.push(arg);
+      continue;
+    }
+
+    if (arg === "--") {
+      options.args.push(...args.slice(i + 1));
+      break;
+    }
+
+    const index = arg.indexOf("=");
+    const name = index === -1 ? arg : arg.slice(0, index);
+    if (!["--format", "--max-errors", "--max-depth"].includes(name)) {
+      return `unknown option: ${name}`;
+    }
+
+    let value;
+    if (index !== -1) {
+      value = arg.slice(index + 1);
+    } else if (i + 1 < args.length) {
+      value = args[++i];
+    } else {
+      return `missing value for ${name}`;
+    }
+
+    if (name === "--format") {
+      if (value !== "text" && value !== "json" && value !== "jsonl") {
+        return `invalid format: ${value}`;
+      }
+
+      options.format = value;
+    } else {
+      if (!/^[0-9]+$/.test(value)) {
+        return `invalid value for ${name}: ${value}`;
+      }
+
+      if (name === "--max-errors") {
+        options.maxErrors = parseInt(value, 10);
+      } else {
+        options.maxDepth = parseInt(value, 10);
+      }
+    }
+  }
+
+  return options;
+}
+
+function checkSchemas(output: Output, options: Options): number {
+  if (options.args.length === 0) {
+    return usage(output.streams, "missing schema file");
+  }
+
+  let code = EXIT_OK;
+  for (const file of options.args) {
+    const schema = readSchema(output, file);
+    if (schema !== undefined) {
+      write(output, { file, valid: true, diagnostics: [] }, []);
+    } else {
+      code = EXIT_INVALID_SCHEMA;
+    }
+  }
+
+  return code;
+}
+
+// readSchema reads and checks a schema, reporting any problems with it.
+// Returns undefined if the schema could not be read, or is not correct.
+function readSchema(output: Output, file: string): Schema | undefined {
+  let data;
+  try {
+    data = JSON.parse(readFileSync(file, "utf8"));
+  } catch (err) {
+    write(output, { file, valid: false, error: err.message }, [
+      `${file}: ${err.message}`,
+    ]);
+
+    return undefined;
+  }
+
+  const diagnostics = checkSchema(data).map(({ path, code, message }) => ({
+    path: encodePointer(path),
+    code,
+    message,
+  }));
+
+  if (diagnostics.length !== 0) {
+    write(
+      output,
+      { file, valid: false, diagnostics },
+      diagnostics.map(
+        ({ path, message }) => `${file}: ${path || "(root)"}: ${message}`
+      )
+    );
+
+    return undefined;
+  }
+
+  return data;
+}
+
+async function validateInstances(
+  output: Output,
+  options: Options
+): Promise<number> {
+  const [schemaFile, ...patterns] = options.args;
+  if (schemaFile === undefined) {
+    return usage(output.streams, "missing schema file");
+  }
+
+  const files = [];
+  for (const pattern of patterns.length === 0 ? ["-"] : patterns) {
+    const matches = expandGlob(pattern);
+    if (matches.length === 0) {
+      return usage(output.streams, `no files match: ${pattern}`);
+    }
+
+    files.push(...matches);
+  }
+
+  const schema = readSchema(output, schemaFile);
+  if (schema === undefined) {
+    return EXIT_INVALID_SCHEMA;
+  }
+
+  let code = EXIT_OK;
+  const check = (file: string, line: number | undefined, text: string) => {
+    if (!validateInstance(output, options, schema, file, line, text)) {
+      code = Math.max(code, EXIT_INVALID_INSTANCE);
+    }
+  };
+
+  for (const file of files) {
+    if (file !== "-" && !/\.(ndjson|jsonl)$/.test(file)) {
+      let text;
+      try {
+        text = readFileSync(file, "utf8");
+      } catch (err) {
+        output.streams.stderr.write(`jtd: ${err.message}\n`);
+        code = EXIT_USAGE;
+        continue;
+      }
+
+      check(file, undefined, text);
+      continue;
+    }
+
+    try {
+      await readLines(
+        file === "-" ? output.streams.stdin : createReadStream(file),
+        (line, text) => check(file === "-" ? "<stdin>" : file, line, text)
+      );
+    } catch (err) {
+      output.streams.stderr.write(`jtd: ${err.message}\n`);
+      code = EXIT_USAGE;
+    }
+  }
+
+  return code;
+}
+
+// validateInstance validates a single instance, and reports the result.
+// Returns whether the instance is valid.
+function validateInstance(
+  output: Output,
+  options: Options,
+  schema: Schema,
+  file: string,
+  line: number | undefined,
+  text: string
+): boolean {
+  const location = line === undefined ? file : `${file}:${line}`;
+  const result = line === undefined ? { file } : { file, line };
+
+  let instance;
+  try {
+    instance = JSON.parse(text);
+  } catch (err) {
+    write(output, { ...result, valid: false, error: err.message }, [
+      `${location}: invalid JSON: ${err.message}`,
+    ]);
+
+    return false;
+  }
+
+  let errors;
+  try {
+    errors = validate(schema, instance, {
+      maxErrors: options.maxErrors,
+      maxDepth: options.maxDepth,
+    });
+  } catch (err) {
+    if (!(err instanceof MaxDepthExceededError)) {
+      throw err;
+    }
+
+    write(output, { ...result, valid: false, error: "max depth exceeded" }, [
+      `${location}: max depth exceeded`,
+    ]);
+
+    return false;
+  }
+
+  const formatted = formatErrors(schema, instance, errors).map((error) => ({
+    instancePath: error.instancePointer,
+    schemaPath: encodePointer(error.schemaPath),
+    message: error.message,
+  }));
+
+  write(
+    output,
+    { ...result, valid: errors.length === 0, errors: formatted },
+    formatted.map(({ message }) => `${location}: ${message}`)
+  );
+
+  return errors.length === 0;
+}
+
+// write reports a result. text is the result in the text format, which
+// doesn't mention valid files.
+function write(output: Output, result: object, text: string[]) {
+  switch (output.format) {
+    case "text":
+      for (const line of text) {
+        output.streams.stdout.write(line + "\n");
+      }
+
+      break;
+    case "json":
+      output.results.push(result);
+      break;
+    case "jsonl":
+      output.streams.stdout.write(JSON.stringify(result) + "\n");
+      break;
+  }
+}
+
+// readLines calls f with each line of a stream that isn't blank, along with
+// its line number.
+function readLines(
+  input: NodeJS.ReadableStream,
+  f: (line: number, text: string) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let line = 0;
+    const lines = createInterface({ input, crlfDelay: Infinity });
+
+    input.on("error", reject);
+    lines.on("line", (text) => {
+      line++;
+      if (text.trim() !== "") {
+        f(line, text);
+      }
+    });
+
+    lines.on("close", resolve);
+  });
+}
+
+// expandGlob returns the files that match a pattern, in sorted order. In the
+// pattern, `*` matches any characters other than `/`, `?` matches any one such
+// character, and `**` matches any number of directories. Patterns without any
+// of these are returned as-is, whether or not such a file exists.
+function expandGlob(pattern: string): string[] {
+  if (!/[*?]/.test(pattern)) {
+    return [pattern];
+  }
+
+  // join normalizes away the leading "./" of relative paths.
+  const segments = pattern.split("/");
+  return segments[0] === ""
+    ? expandSegments("/", segments.slice(1)).sort()
+    : expandSegments(".", segments).sort();
+}
+
+function expandSegments(dir: string, segments: string[]): string[] {
+  if (segments.length === 0) {
+    return isFile(dir) ? [dir] : [];
+  }
+
+  const [segment, ...rest] = segments;
+  if (!/[*?]/.test(segment)) {
+    return expandSegments(join(dir, segment), rest);
+  }
+
+  const entries = listDirectory(dir);
+  if (segment === "**") {
+    const matches = expandSegments(dir, rest);
+    for (const entry of entries) {
+      if (!entry.startsWith(".") && isDirectory(join(dir, entry))) {
+        matches.push(...expandSegments(join(dir, entry), segments));
+      }
+    }
+
+    return matches;
+  }
+
+  const regex = new RegExp(
+    "^" +
+      segment
+        .split("")
+        .map((c) =>
+          c === "*"
+            ? "[^/]*"
+            : c === "?"
+            ? "[^/]"
+            : c.replace(/[\\^$.|+()[\]{}]/g, "\\$&")
+        )
+        .join("") +
+      "$"
+  );
+
+  const matches = [];
+  for (const entry of entries) {
+    if (regex.test(entry) && !(entry.startsWith(".") && segment[0] !== ".")) {
+      matches.push(...expandSegments(join(dir, entry), rest));
+    }
+  }
+
+  return matches;
+}
+
+function listDirectory(dir: string): string[] {
+  try {
+    return readdirSync(dir);
+  } catch (err) {
+    return [];
+  }
+}
+
+function isFile(path: string): boolean {
+  try {
+    return statSync(path).isFile();
+  } catch (err) {
+    return false;
+  }
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch (err) {
+    return false;
+  }
+}
+
+function usage(streams: Streams, message: string): number {
+  streams.stderr.write(`jtd: ${message}\n\n${USAGE}`);
+  return EXIT_USAGE;
+}
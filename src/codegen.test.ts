@@ -0,0 +1,222 @@
+import { generateTypeScript } from "./index";
+
+describe("generateTypeScript", () => {
+  it("generates declarations for each form", () => {
+    const output = generateTypeScript(
+      {
+        metadata: { description: "A user." },
+        definitions: {
+          role: { enum: ["admin", "member"] },
+          "user-id": { type: "uint32" },
+        },
+        properties: {
+          id: { ref: "user-id" },
+          active: { type: "boolean" },
+          createdAt: { type: "timestamp" },
+          roles: { elements: { ref: "role" } },
+          labels: { values: { type: "string" } },
+          extra: {},
+        },
+        optionalProperties: {
+          nickname: {
+            metadata: { description: "What to call the user." },
+            type: "string",
+            nullable: true,
+          },
+          "home-address": {
+            properties: { city: { type: "string" } },
+            additionalProperties: true,
+          },
+        },
+      },
+      { rootName: "User" }
+    );
+
+    expect(output).toEqual(
+      [
+        "/** A user. */",
+        "export interface User {",
+        "  id: UserId;",
+        "  active: boolean;",
+        "  createdAt: string;",
+        "  roles: Role[];",
+        "  labels: Record<string, string>;",
+        "  extra: unknown;",
+        "  /** What to call the user. */",
+        "  nickname?: string | null;",
+        '  "home-address"?: {',
+        "    city: string;",
+        "    [key: string]: unknown;",
+        "  };",
+        "}",
+        "",
+        'export type Role = "admin" | "member";',
+        "",
+        "export type UserId = number;",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("generates tagged unions for discriminators", () => {
+    const output = generateTypeScript(
+      {
+        discriminator: "type",
+        mapping: {
+          click: { properties: { x: { type: "float64" } } },
+          "key-press": { properties: {}, optionalProperties: {} },
+        },
+        nullable: true,
+      },
+      { rootName: "Event" }
+    );
+
+    expect(output).toEqual(
+      [
+        "export type Event = {",
+        '  type: "click";',
+        "  x: number;",
+        "} | {",
+        '  type: "key-press";',
+        "} | null;",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("generates const enums", () => {
+    const output = generateTypeScript(
+      {
+        definitions: {
+          color: { enum: ["dark-blue", "dark_blue", "1"] },
+          size: { enum: ["S", "M"], nullable: true },
+        },
+        properties: { sizes: { elements: { enum: ["S", "M"] } } },
+      },
+      { rootName: "Shirt", enumStyle: "constEnum" }
+    );
+
+    expect(output).toEqual(
+      [
+        "export interface Shirt {",
+        '  sizes: ("S" | "M")[];',
+        "}",
+        "",
+        "export const enum Color {",
+        '  DarkBlue = "dark-blue",',
+        '  DarkBlue2 = "dark_blue",',
+        '  _1 = "1",',
+        "}",
+        "",
+        'export type Size = "S" | "M" | null;',
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("generates recursive types that TypeScript accepts", () => {
+    const output = generateTypeScript(
+      {
+        definitions: {
+          tree: { values: { ref: "tree" } },
+          list: { elements: { ref: "list", nullable: true } },
+        },
+        ref: "tree",
+      },
+      { rootName: "Root" }
+    );
+
+    expect(output).toEqual(
+      [
+        "export type Root = Tree;",
+        "",
+        "export type Tree = {",
+        "  [key: string]: Tree;",
+        "};",
+        "",
+        "export type List = (List | null)[];",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("avoids name collisions", () => {
+    const output = generateTypeScript(
+      {
+        definitions: {
+          foo_bar: { type: "string" },
+          "foo-bar": { type: "string" },
+          root: { type: "string" },
+          record: { type: "string" },
+        },
+      },
+      { rootName: "Root" }
+    );
+
+    expect(output).toEqual(
+      [
+        "export type Root = unknown;",
+        "",
+        "export type FooBar = string;",
+        "",
+        "export type FooBar2 = string;",
+        "",
+        "export type Root2 = string;",
+        "",
+        "export type Record2 = string;",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("escapes multi-line descriptions", () => {
+    const output = generateTypeScript(
+      { metadata: { description: "First line.\n\nEnds with */" } },
+      { rootName: "Root" }
+    );
+
+    expect(output).toEqual(
+      [
+        "/**",
+        " * First line.",
+        " *",
+        " * Ends with *\\/",
+        " */",
+        "export type Root = unknown;",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("generates type guards", () => {
+    const output = generateTypeScript(
+      { elements: { type: "string" } },
+      { rootName: "Names", typeGuard: true, importFrom: "./jtd" }
+    );
+
+    expect(output).toEqual(
+      [
+        'import { Schema, validate } from "./jtd";',
+        "",
+        "export type Names = string[];",
+        "",
+        "const schema: Schema = {",
+        '  "elements": {',
+        '    "type": "string"',
+        "  }",
+        "};",
+        "",
+        "/**",
+        " * isNames returns whether data is valid against the",
+        " * schema of Names.",
+        " */",
+        "export function isNames(",
+        "  data: unknown",
+        "): data is Names {",
+        "  return validate(schema, data).length === 0;",
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+});
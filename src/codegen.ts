@@ -0,0 +1,407 @@
+/**
+ * Module codegen provides a way to generate TypeScript declarations from JSON
+ * Typedef schemas.
+ *
+ * Unlike {@link JTDDataType}, which only works on schemas written as literals
+ * in TypeScript code, {@link generateTypeScript} works on schemas loaded from
+ * anywhere, such as `.jtd.json` files shared with other languages.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  Schema,
+  SchemaFormProperties,
+  isRefForm,
+  isTypeForm,
+  isEnumForm,
+  isElementsForm,
+  isPropertiesForm,
+  isValuesForm,
+  isDiscriminatorForm,
+  formOf,
+} from "./schema";
+import { setOwn } from "./objects";
+
+/**
+ * EnumStyle represents the ways {@link generateTypeScript} can declare the
+ * type of an `enum` schema:
+ *
+ * * `union`: a union of string literal types, such as `"A" | "B"`
+ * * `constEnum`: a `const enum`, such as `const enum E { A = "A", B = "B" }`
+ */
+export type EnumStyle = "union" | "constEnum";
+
+/**
+ * TypeScriptOptions are the options you can pass to
+ * {@link generateTypeScript}.
+ */
+export interface TypeScriptOptions {
+  /**
+   * rootName is the name of the type to declare for the root schema. It must
+   * be a valid TypeScript identifier.
+   */
+  rootName: string;
+
+  /**
+   * enumStyle is how to declare the types of `enum` schemas. By default,
+   * enumStyle is `union`.
+   *
+   * Only `enum` schemas that are the root schema or a definition, and are not
+   * nullable, can become a `const enum`. Other `enum` schemas are always
+   * declared as a union.
+   */
+  enumStyle?: EnumStyle;
+
+  /**
+   * typeGuard is whether to also generate a function that returns whether
+   * some data is of the root type, by calling {@link validate}. By default,
+   * typeGuard is false.
+   *
+   * The function is named after {@link rootName}, with an `is` prefix.
+   */
+  typeGuard?: boolean;
+
+  /**
+   * importFrom is the module to import {@link validate} from, if
+   * {@link typeGuard} is true. By default, importFrom is `jtd`.
+   */
+  importFrom?: string;
+}
+
+/**
+ * generateTypeScript returns the source code of a TypeScript module declaring
+ * the type of the data a schema accepts.
+ *
+ * The module declares a type named {@link TypeScriptOptions.rootName} for the
+ * root schema, and one type for each of the schema's definitions. Definition
+ * names are converted to PascalCase, with a number added to the end if two of
+ * them would otherwise have the same name. Schemas of the properties form
+ * become interfaces, and other schemas become type aliases.
+ *
+ * Each form becomes:
+ *
+ * * The empty form becomes `unknown`.
+ * * `ref` becomes the name of the definition's type.
+ * * `boolean` and `string` become `boolean` and `string`, and all of the
+ *   numeric types become `number`. `timestamp` becomes `string`, because that
+ *   is what {@link validate} accepts.
+ * * `enum` becomes a union of string literal types, or a `const enum`,
+ *   depending on {@link TypeScriptOptions.enumStyle}.
+ * * `elements` becomes an array.
+ * * `properties` and `optionalProperties` become an object type, with an
+ *   index signature if the schema allows additional properties.
+ * * `values` becomes `Record<string, T>`, or an object type with an index
+ *   signature if its values are a `ref`.
+ * * `discriminator` becomes a tagged union of object types.
+ *
+ * `nullable` schemas add `null` to the union, and `metadata.description`
+ * becomes a TSDoc comment.
+ *
+ * ```ts
+ * // Returns:
+ * //
+ * // /** A user. *\/
+ * // export interface User {
+ * //   name: string;
+ * //   roles: Role[];
+ * // }
+ * //
+ * // export type Role = "admin" | "member";
+ * generateTypeScript(
+ *   {
+ *     metadata: { description: "A user." },
+ *     definitions: { role: { enum: ["admin", "member"] } },
+ *     properties: {
+ *       name: { type: "string" },
+ *       roles: { elements: { ref: "role" } },
+ *     },
+ *   },
+ *   { rootName: "User" }
+ * );
+ * ```
+ *
+ * The schema must be correct according to {@link isValidSchema}.
+ *
+ * @param schema The schema to generate declarations for
+ * @param options Generation options
+ */
+export function generateTypeScript(
+  schema: Schema,
+  options: TypeScriptOptions
+): string {
+  const state: GeneratorState = {
+    constEnums: options.enumStyle === "constEnum",
+    names: {},
+  };
+
+  // Record and Schema are used by the generated code, so definitions can't be
+  // named after them.
+  const used = new Set(["Record", "Schema", options.rootName]);
+  for (const name of Object.keys(schema.definitions || {})) {
+    let typeName = pascalCase(name);
+    for (let i = 2; used.has(typeName); i++) {
+      typeName = `${pascalCase(name)}${i}`;
+    }
+
+    used.add(typeName);
+    setOwn(state.names, name, typeName);
+  }
+
+  const sections = [declare(state, options.rootName, schema)];
+  for (const [name, subSchema] of Object.entries(schema.definitions || {})) {
+    sections.push(declare(state, state.names[name], subSchema));
+  }
+
+  if (options.typeGuard) {
+    const importFrom =
+      options.importFrom === undefined ? "jtd" : options.importFrom;
+
+    sections.unshift(
+      `import { Schema, validate } from ${JSON.stringify(importFrom)};`
+    );
+
+    sections.push(
+      `const schema: Schema = ${JSON.stringify(schema, null, 2)};`,
+      [
+        `/**`,
+        ` * is${options.rootName} returns whether data is valid against the`,
+        ` * schema of ${options.rootName}.`,
+        ` */`,
+        `export function is${options.rootName}(`,
+        `  data: unknown`,
+        `): data is ${options.rootName} {`,
+        `  return validate(schema, data).length === 0;`,
+        `}`,
+      ].join("\n")
+    );
+  }
+
+  return sections.join("\n\n") + "\n";
+}
+
+interface GeneratorState {
+  constEnums: boolean;
+
+  // The names of the types declared for each definition.
+  names: { [name: string]: string };
+}
+
+// Member is a property of an object type.
+interface Member {
+  name: string;
+  optional: boolean;
+  type: string;
+  description?: string;
+}
+
+// declare returns the declaration of a type named name, for a schema that is
+// either the root schema or a definition.
+function declare(state: GeneratorState, name: string, schema: Schema): string {
+  const doc = comment(schema, "");
+
+  if (state.constEnums && isEnumForm(schema) && !schema.nullable) {
+    const used = new Set<string>();
+    const members = schema.enum.map((value) => {
+      let member = pascalCase(value);
+      for (let i = 2; used.has(member); i++) {
+        member = `${pascalCase(value)}${i}`;
+      }
+
+      used.add(member);
+      return `  ${member} = ${JSON.stringify(value)},`;
+    });
+
+    return `${doc}export const enum ${name} {\n${members.join("\n")}\n}`;
+  }
+
+  if (isPropertiesForm(schema) && !schema.nullable) {
+    return `${doc}export interface ${name} ${renderObject(
+      members(state, schema, ""),
+      schema.additionalProperties,
+      ""
+    )}`;
+  }
+
+  return `${doc}export type ${name} = ${render(state, schema, "")};`;
+}
+
+// render returns the type of the data a schema accepts, as a type expression.
+// indent is the indentation of the line the expression starts on.
+function render(state: GeneratorState, schema: Schema, indent: string): string {
+  const type = renderForm(state, schema, indent);
+  return schema.nullable && type !== "unknown" ? `${type} | null` : type;
+}
+
+// renderForm is like render, but ignores the nullable keyword.
+function renderForm(
+  state: GeneratorState,
+  schema: Schema,
+  indent: string
+): string {
+  if (isRefForm(schema)) {
+    return state.names[schema.ref];
+  }
+
+  if (isTypeForm(schema)) {
+    switch (schema.type) {
+      case "boolean":
+        return "boolean";
+      case "string":
+      case "timestamp":
+        return "string";
+      default:
+        return "number";
+    }
+  }
+
+  if (isEnumForm(schema)) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+  }
+
+  if (isElementsForm(schema)) {
+    const elements = render(state, schema.elements, indent);
+    return isUnion(schema.elements) ? `(${elements})[]` : `${elements}[]`;
+  }
+
+  if (isPropertiesForm(schema)) {
+    return renderObject(
+      members(state, schema, indent),
+      schema.additionalProperties,
+      indent
+    );
+  }
+
+  if (isValuesForm(schema)) {
+    // TypeScript resolves the type arguments of Record eagerly, so a recursive
+    // type has to refer to itself through an object type instead.
+    if (isRefForm(schema.values)) {
+      const values = render(state, schema.values, indent);
+      return `{\n${indent}  [key: string]: ${values};\n${indent}}`;
+    }
+
+    return `Record<string, ${render(state, schema.values, indent)}>`;
+  }
+
+  if (isDiscriminatorForm(schema)) {
+    const variants = Object.entries(schema.mapping).map(([tag, mapping]) => {
+      const tagMember = {
+        name: schema.discriminator,
+        optional: false,
+        type: JSON.stringify(tag),
+      };
+
+      if (!isPropertiesForm(mapping)) {
+        return renderObject([tagMember], false, indent);
+      }
+
+      return renderObject(
+        [tagMember, ...members(state, mapping, indent)],
+        mapping.additionalProperties,
+        indent
+      );
+    });
+
+    return variants.length === 0 ? "never" : variants.join(" | ");
+  }
+
+  return "unknown";
+}
+
+// isUnion returns whether render would return a union for a schema, and so
+// the result would need parentheses to be used as an array's element type.
+function isUnion(schema: Schema): boolean {
+  if (schema.nullable && formOf(schema) !== "empty") {
+    return true;
+  }
+
+  if (isEnumForm(schema)) {
+    return schema.enum.length > 1;
+  }
+
+  if (isDiscriminatorForm(schema)) {
+    return Object.keys(schema.mapping).length > 1;
+  }
+
+  return false;
+}
+
+function members(
+  state: GeneratorState,
+  schema: SchemaFormProperties,
+  indent: string
+): Member[] {
+  const result: Member[] = [];
+  for (const [optional, properties] of [
+    [false, schema.properties || {}],
+    [true, schema.optionalProperties || {}],
+  ] as const) {
+    for (const [name, subSchema] of Object.entries(properties)) {
+      const description = (subSchema.metadata || {}).description;
+
+      result.push({
+        name,
+        optional,
+        type: render(state, subSchema, `${indent}  `),
+        description: typeof description === "string" ? description : undefined,
+      });
+    }
+  }
+
+  return result;
+}
+
+function renderObject(
+  members: Member[],
+  additionalProperties: boolean | undefined,
+  indent: string
+): string {
+  const lines = [];
+  for (const { name, optional, type, description } of members) {
+    if (description !== undefined) {
+      lines.push(docComment(description, `${indent}  `));
+    }
+
+    const key = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name)
+      ? name
+      : JSON.stringify(name);
+
+    lines.push(`${indent}  ${key}${optional ? "?" : ""}: ${type};\n`);
+  }
+
+  if (additionalProperties) {
+    lines.push(`${indent}  [key: string]: unknown;\n`);
+  }
+
+  return lines.length === 0 ? "{}" : `{\n${lines.join("")}${indent}}`;
+}
+
+// comment returns the TSDoc comment for a schema, followed by a newline, or
+// the empty string if the schema has no description.
+function comment(schema: Schema, indent: string): string {
+  const description = (schema.metadata || {}).description;
+  return typeof description === "string"
+    ? docComment(description, indent)
+    : "";
+}
+
+function docComment(description: string, indent: string): string {
+  const lines = description.replace(/\*\//g, "*\\/").split(/\r?\n/);
+  if (lines.length === 1) {
+    return `${indent}/** ${lines[0]} */\n`;
+  }
+
+  const body = lines.map((line) => `${indent} *${line ? ` ${line}` : ""}\n`);
+  return `${indent}/**\n${body.join("")}${indent} */\n`;
+}
+
+// pascalCase turns a name into a TypeScript identifier, by joining its words
+// together and capitalizing each of them.
+function pascalCase(name: string): string {
+  const words = name.split(/[^a-zA-Z0-9]+/).filter((word) => word !== "");
+  const result = words
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+
+  return /^[a-zA-Z]/.test(result) ? result : `_${result}`;
+}
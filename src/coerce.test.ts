@@ -0,0 +1,143 @@
+import { Schema, coerce, validate } from "./index";
+
+describe("coerce", () => {
+  it("converts strings into the types the schema expects", () => {
+    const schema: Schema = {
+      properties: {
+        a: { type: "boolean" },
+        b: { type: "uint8" },
+        c: { type: "float64" },
+        d: { elements: { type: "int16" } },
+        e: { type: "string" },
+        f: { values: { type: "timestamp" } },
+      },
+    };
+
+    const instance = {
+      a: "true",
+      b: "42",
+      c: "-1.5e3",
+      d: "1,-2,3",
+      e: "42",
+      f: { x: "1985-04-12T23:20:50.52Z" },
+    };
+
+    const result = coerce(schema, instance);
+    expect(result).toEqual({
+      value: {
+        a: true,
+        b: 42,
+        c: -1500,
+        d: [1, -2, 3],
+        e: "42",
+        f: { x: "1985-04-12T23:20:50.52Z" },
+      },
+      errors: [],
+    });
+
+    expect(validate(schema, result.value)).toEqual([]);
+    expect(instance.d).toEqual("1,-2,3");
+  });
+
+  it("returns errors for what it could not convert", () => {
+    const schema: Schema = {
+      properties: {
+        a: { type: "uint8" },
+        b: { elements: { type: "boolean" } },
+        c: { type: "float32" },
+        d: { enum: ["x"] },
+      },
+    };
+
+    const instance = { a: "256", b: "true,yes", c: "0x10", d: "y", e: "" };
+    const result = coerce(schema, instance);
+
+    expect(result.value).toEqual({ ...instance, b: [true, "yes"] });
+    expect(result.errors).toEqual(validate(schema, result.value));
+    expect(result.errors).toEqual([
+      { instancePath: ["a"], schemaPath: ["properties", "a", "type"] },
+      {
+        instancePath: ["b", "1"],
+        schemaPath: ["properties", "b", "elements", "type"],
+      },
+      { instancePath: ["c"], schemaPath: ["properties", "c", "type"] },
+      { instancePath: ["d"], schemaPath: ["properties", "d", "enum"] },
+      { instancePath: ["e"], schemaPath: [] },
+    ]);
+  });
+
+  it("converts null strings for nullable schemas", () => {
+    const schema: Schema = {
+      elements: { ref: "n" },
+      definitions: { n: { type: "uint32", nullable: true } },
+    };
+
+    const config = { maxDepth: 0, maxErrors: 0, separator: ";" };
+    expect(coerce(schema, "1;null;;2", config)).toEqual({
+      value: [1, null, null, 2],
+      errors: [],
+    });
+
+    const strings: Schema = {
+      properties: {
+        a: { type: "string", nullable: true },
+        b: { enum: ["null"], nullable: true },
+        c: { ref: "s", nullable: true },
+      },
+      definitions: { s: { type: "string" } },
+    };
+
+    expect(coerce(strings, { a: "", b: "null", c: "null" })).toEqual({
+      value: { a: "", b: "null", c: "null" },
+      errors: [],
+    });
+  });
+
+  it("optionally converts timestamps into Dates", () => {
+    const schema: Schema = {
+      discriminator: "kind",
+      mapping: { x: { properties: { at: { type: "timestamp" } } } },
+    };
+
+    const config = { maxDepth: 0, maxErrors: 0, dates: true };
+    const instance = { kind: "x", at: "2020-01-01T01:00:00+01:00" };
+
+    expect(coerce(schema, instance, config)).toEqual({
+      value: { kind: "x", at: new Date(Date.UTC(2020, 0, 1)) },
+      errors: [],
+    });
+  });
+
+  it("only converts Dates that are RFC3339 timestamps", () => {
+    const schema: Schema = { elements: { type: "timestamp" } };
+    const first = new Date(Date.UTC(2000, 0, 1));
+    first.setUTCFullYear(0);
+    const last = new Date(Date.UTC(9999, 11, 31, 23, 59, 59, 999));
+    const before = new Date(first.getTime() - 1);
+    const after = new Date(last.getTime() + 1);
+
+    const result = coerce(schema, [first, last, before, after]);
+    expect(result).toEqual({
+      value: [
+        "0000-01-01T00:00:00.000Z",
+        "9999-12-31T23:59:59.999Z",
+        before,
+        after,
+      ],
+      errors: [
+        { instancePath: ["2"], schemaPath: ["elements", "type"] },
+        { instancePath: ["3"], schemaPath: ["elements", "type"] },
+      ],
+    });
+  });
+
+  it("stops adding errors at maxErrors", () => {
+    const schema: Schema = { elements: { type: "int8" } };
+    const config = { maxDepth: 0, maxErrors: 1 };
+
+    expect(coerce(schema, "x,y,3", config)).toEqual({
+      value: ["x", "y", 3],
+      errors: [{ instancePath: ["0"], schemaPath: ["elements", "type"] }],
+    });
+  });
+});
@@ -0,0 +1,497 @@
+/**
+ * Module coerce provides a way to convert loosely-typed data, such as URL
+ * query parameters, form posts, or environment variables, into the data a
+ * JSON Typedef schema expects.
+ *
+ * The most important function in this module is {@link coerce}, which returns
+ * a {@link CoerceResult}.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  InvalidTimestampError,
+  formatRFC3339,
+  fromDate,
+  parseRFC3339,
+  toDate,
+} from "./rfc3339";
+import {
+  Schema,
+  isRefForm,
+  isTypeForm,
+  isEnumForm,
+  isElementsForm,
+  isPropertiesForm,
+  isValuesForm,
+  isDiscriminatorForm,
+} from "./schema";
+import { TYPE_CHECKS } from "./typecheck";
+import {
+  ValidationConfig,
+  ValidationError,
+  MaxDepthExceededError,
+} from "./validate";
+import { hasOwn, isObject, setOwn } from "./objects";
+
+/**
+ * CoerceConfig represents options you can pass to {@link coerce}.
+ */
+export interface CoerceConfig extends ValidationConfig {
+  /**
+   * dates is whether to convert timestamps into `Date` instances.
+   *
+   * By default, dates is false, and timestamps are left as strings. Note that
+   * {@link validate} rejects `Date` instances, so the value returned from
+   * {@link coerce} with dates set to true will not pass validate.
+   */
+  dates?: boolean;
+
+  /**
+   * separator is the string that separates elements, when a string is given
+   * where the schema expects an array.
+   *
+   * By default, separator is `","`.
+   */
+  separator?: string;
+}
+
+/**
+ * CoerceResult is the result of {@link coerce}.
+ *
+ * `value` is the converted input. `errors` contains an error for each part of
+ * the input that could not be converted into what the schema expects.
+ */
+export interface CoerceResult {
+  value: unknown;
+  errors: ValidationError[];
+}
+
+/**
+ * coerce converts an instance (or "input") into the data that a JSON Typedef
+ * schema expects, where that's possible.
+ *
+ * coerce is meant for data where everything arrives as a string. Where the
+ * schema expects something other than a string, coerce converts strings:
+ *
+ * * For `boolean`, `"true"` and `"false"` are converted into booleans.
+ * * For the number types, strings written like JSON numbers are converted
+ *   into numbers. The integer types have the same range checks as in
+ *   {@link validate}.
+ * * For `elements`, a string is split on {@link CoerceConfig.separator}, and
+ *   each part is converted. The empty string is converted into an empty
+ *   array.
+ * * For `nullable` schemas, `"null"` and the empty string are converted into
+ *   null, unless the schema would accept them as strings.
+ * * For `timestamp`, strings are kept as they are, unless
+ *   {@link CoerceConfig.dates} is true, in which case they are converted into
+ *   `Date` instances. Likewise, `Date` instances are converted into strings
+ *   unless dates is true. Dates outside of the years 0 to 9999, which RFC3339
+ *   doesn't have, are not converted.
+ *
+ * ```ts
+ * const schema = {
+ *   properties: {
+ *     page: { type: "uint8" },
+ *     tags: { elements: { type: "string" } },
+ *   },
+ * } as Schema;
+ *
+ * // Returns { value: { page: 2, tags: ["a", "b"] }, errors: [] }
+ * coerce(schema, { page: "2", tags: "a,b" });
+ * ```
+ *
+ * Data that is already of the right type is kept as it is. coerce never
+ * modifies `instance`; it returns converted copies of arrays and objects.
+ *
+ * Apart from parts of the input that coerce converted, the errors are the
+ * same as {@link validate} would return for `value`. Parts of the input that
+ * could not be converted are left as they are. With a
+ * {@link ValidationConfig.maxErrors}, coerce still converts all of the input,
+ * but stops adding errors once it has found that many.
+ *
+ * Like {@link validate}, coerce may throw {@link MaxDepthExceededError}.
+ *
+ * @param schema The schema to convert data according to
+ * @param instance The "input" to convert
+ * @param config Coercion and validation options. Optional.
+ */
+export function coerce(
+  schema: Schema,
+  instance: unknown,
+  config?: CoerceConfig
+): CoerceResult {
+  const state: CoerceState = {
+    errors: [],
+    instanceTokens: [],
+    schemaTokens: [[]],
+    root: schema,
+    config: config || { maxDepth: 0, maxErrors: 0 },
+  };
+
+  const value = coerceWithState(state, schema, instance);
+  return { value, errors: state.errors };
+}
+
+interface CoerceState {
+  errors: ValidationError[];
+  instanceTokens: string[];
+  schemaTokens: string[][];
+  root: Schema;
+  config: CoerceConfig;
+}
+
+// JSON_NUMBER matches the strings that are written like a JSON number. Unlike
+// the Number function, it doesn't accept things like "0x10" or " 1 ".
+const JSON_NUMBER = /^-?(0|[1-9][0-9]*)(\.[0-9]+)?([eE][+-]?[0-9]+)?$/;
+
+function coerceWithState(
+  state: CoerceState,
+  schema: Schema,
+  instance: unknown,
+  parentTag?: string
+): unknown {
+  if (schema.nullable && instance === null) {
+    return null;
+  }
+
+  // "null" and the empty string are how loosely-typed data usually spells
+  // null, but we can't treat them that way if the schema accepts them as they
+  // are.
+  if (
+    schema.nullable &&
+    (instance === "null" || instance === "") &&
+    !acceptsString(state, schema, instance)
+  ) {
+    return null;
+  }
+
+  if (isRefForm(schema)) {
+    if (state.schemaTokens.length === state.config.maxDepth) {
+      throw new MaxDepthExceededError();
+    }
+
+    state.schemaTokens.push(["definitions", schema.ref]);
+    const value = coerceWithState(
+      state,
+      state.root.definitions![schema.ref],
+      instance
+    );
+    state.schemaTokens.pop();
+
+    return value;
+  }
+
+  if (isTypeForm(schema)) {
+    const value = coerceType(state, schema.type, instance);
+    if (value === undefined) {
+      pushSchemaToken(state, "type");
+      pushError(state);
+      popSchemaToken(state);
+
+      return instance;
+    }
+
+    return value;
+  }
+
+  if (isEnumForm(schema)) {
+    if (typeof instance !== "string" || !schema.enum.includes(instance)) {
+      pushSchemaToken(state, "enum");
+      pushError(state);
+      popSchemaToken(state);
+    }
+
+    return instance;
+  }
+
+  if (isElementsForm(schema)) {
+    let elements: unknown[];
+    if (Array.isArray(instance)) {
+      elements = instance;
+    } else if (typeof instance === "string") {
+      elements = instance === "" ? [] : instance.split(separatorOf(state));
+    } else {
+      pushSchemaToken(state, "elements");
+      pushError(state);
+      popSchemaToken(state);
+
+      return instance;
+    }
+
+    pushSchemaToken(state, "elements");
+    const value = elements.map((subInstance, index) => {
+      pushInstanceToken(state, index.toString());
+      const subValue = coerceWithState(state, schema.elements, subInstance);
+      popInstanceToken(state);
+
+      return subValue;
+    });
+    popSchemaToken(state);
+
+    return value;
+  }
+
+  if (isPropertiesForm(schema)) {
+    if (!isObject(instance)) {
+      if (schema.properties !== undefined) {
+        pushSchemaToken(state, "properties");
+      } else {
+        pushSchemaToken(state, "optionalProperties");
+      }
+
+      pushError(state);
+      popSchemaToken(state);
+      return instance;
+    }
+
+    const value = copyObject(instance);
+
+    if (schema.properties !== undefined) {
+      pushSchemaToken(state, "properties");
+      for (const [name, subSchema] of Object.entries(schema.properties)) {
+        pushSchemaToken(state, name);
+        if (hasOwn(instance, name)) {
+          pushInstanceToken(state, name);
+          const subValue = coerceWithState(state, subSchema, instance[name]);
+          setOwn(value, name, subValue);
+          popInstanceToken(state);
+        } else {
+          pushError(state);
+        }
+        popSchemaToken(state);
+      }
+      popSchemaToken(state);
+    }
+
+    if (schema.optionalProperties !== undefined) {
+      pushSchemaToken(state, "optionalProperties");
+      for (const [name, subSchema] of Object.entries(
+        schema.optionalProperties
+      )) {
+        pushSchemaToken(state, name);
+        if (hasOwn(instance, name)) {
+          pushInstanceToken(state, name);
+          const subValue = coerceWithState(state, subSchema, instance[name]);
+          setOwn(value, name, subValue);
+          popInstanceToken(state);
+        }
+        popSchemaToken(state);
+      }
+      popSchemaToken(state);
+    }
+
+    if (schema.additionalProperties !== true) {
+      for (const name of Object.keys(instance)) {
+        const inRequired =
+          schema.properties && hasOwn(schema.properties, name);
+        const inOptional =
+          schema.optionalProperties && hasOwn(schema.optionalProperties, name);
+
+        if (!inRequired && !inOptional && name !== parentTag) {
+          pushInstanceToken(state, name);
+          pushError(state);
+          popInstanceToken(state);
+        }
+      }
+    }
+
+    return value;
+  }
+
+  if (isValuesForm(schema)) {
+    pushSchemaToken(state, "values");
+
+    if (!isObject(instance)) {
+      pushError(state);
+      popSchemaToken(state);
+      return instance;
+    }
+
+    const value = copyObject(instance);
+    for (const [name, subInstance] of Object.entries(instance)) {
+      pushInstanceToken(state, name);
+      const subValue = coerceWithState(state, schema.values, subInstance);
+      setOwn(value, name, subValue);
+      popInstanceToken(state);
+    }
+
+    popSchemaToken(state);
+    return value;
+  }
+
+  if (isDiscriminatorForm(schema)) {
+    if (!isObject(instance) || !hasOwn(instance, schema.discriminator)) {
+      pushSchemaToken(state, "discriminator");
+      pushError(state);
+      popSchemaToken(state);
+      return instance;
+    }
+
+    const tag = instance[schema.discriminator];
+
+    if (typeof tag !== "string") {
+      pushSchemaToken(state, "discriminator");
+      pushInstanceToken(state, schema.discriminator);
+      pushError(state);
+      popInstanceToken(state);
+      popSchemaToken(state);
+      return instance;
+    }
+
+    if (!hasOwn(schema.mapping, tag)) {
+      pushSchemaToken(state, "mapping");
+      pushInstanceToken(state, schema.discriminator);
+      pushError(state);
+      popInstanceToken(state);
+      popSchemaToken(state);
+      return instance;
+    }
+
+    pushSchemaToken(state, "mapping");
+    pushSchemaToken(state, tag);
+    const value = coerceWithState(
+      state,
+      schema.mapping[tag],
+      instance,
+      schema.discriminator
+    );
+    popSchemaToken(state);
+    popSchemaToken(state);
+
+    return value;
+  }
+
+  // The empty form accepts any input.
+  return instance;
+}
+
+// coerceType returns instance converted into the given type, or undefined if
+// that isn't possible.
+function coerceType(
+  state: CoerceState,
+  type: string,
+  instance: unknown
+): unknown {
+  if (type === "timestamp") {
+    if (instance instanceof Date) {
+      // Unlike toISOString, this only ever writes RFC3339 timestamps. Invalid
+      // dates, and those outside the years RFC3339 has, can't be converted.
+      let timestamp: string;
+      try {
+        timestamp = formatRFC3339(fromDate(instance));
+      } catch (err) {
+        if (!(err instanceof InvalidTimestampError)) {
+          throw err;
+        }
+
+        return undefined;
+      }
+
+      return state.config.dates ? instance : timestamp;
+    }
+
+    if (!TYPE_CHECKS.timestamp(instance)) {
+      return undefined;
+    }
+
+    return state.config.dates
+      ? toDate(parseRFC3339(instance as string))
+      : instance;
+  }
+
+  if (TYPE_CHECKS[type](instance)) {
+    return instance;
+  }
+
+  if (typeof instance !== "string") {
+    return undefined;
+  }
+
+  let value: unknown;
+  if (type === "boolean") {
+    value = instance === "true" ? true : instance === "false" ? false : null;
+  } else if (type !== "string" && JSON_NUMBER.test(instance)) {
+    // Strings like "1e400" are written like a number, but are too large to be
+    // represented as one.
+    value = Number(instance);
+    if (!isFinite(value as number)) {
+      return undefined;
+    }
+  }
+
+  return TYPE_CHECKS[type](value) ? value : undefined;
+}
+
+// acceptsString returns whether schema accepts the string s as it is.
+function acceptsString(state: CoerceState, schema: Schema, s: string) {
+  // Definitions can refer to one another in a loop, so we keep track of the
+  // ones we've already seen.
+  const seen = new Set<string>();
+  while (isRefForm(schema) && !seen.has(schema.ref)) {
+    seen.add(schema.ref);
+    schema = state.root.definitions![schema.ref];
+  }
+
+  if (isRefForm(schema)) {
+    return false;
+  }
+
+  if (isTypeForm(schema)) {
+    return schema.type === "string";
+  }
+
+  if (isEnumForm(schema)) {
+    return schema.enum.includes(s);
+  }
+
+  // Of the remaining forms, only the empty form accepts strings.
+  return Object.keys(schema).every(
+    (keyword) => keyword === "nullable" || keyword === "metadata"
+  );
+}
+
+function separatorOf(state: CoerceState): string {
+  return state.config.separator === undefined ? "," : state.config.separator;
+}
+
+function copyObject(object: { [name: string]: unknown }) {
+  const copy: { [name: string]: unknown } = {};
+  for (const [name, value] of Object.entries(object)) {
+    setOwn(copy, name, value);
+  }
+
+  return copy;
+}
+
+function pushInstanceToken(state: CoerceState, token: string) {
+  state.instanceTokens.push(token);
+}
+
+function popInstanceToken(state: CoerceState) {
+  state.instanceTokens.pop();
+}
+
+function pushSchemaToken(state: CoerceState, token: string) {
+  state.schemaTokens[state.schemaTokens.length - 1].push(token);
+}
+
+function popSchemaToken(state: CoerceState) {
+  state.schemaTokens[state.schemaTokens.length - 1].pop();
+}
+
+// pushError adds an error for the current instance and schema paths, unless
+// maxErrors errors have already been found.
+function pushError(state: CoerceState) {
+  if (
+    state.config.maxErrors !== 0 &&
+    state.errors.length === state.config.maxErrors
+  ) {
+    return;
+  }
+
+  state.errors.push({
+    instancePath: [...state.instanceTokens],
+    schemaPath: [...state.schemaTokens[state.schemaTokens.length - 1]],
+  });
+}
@@ -0,0 +1,183 @@
+import { Schema, checkCompatibility } from "./index";
+
+describe("checkCompatibility", () => {
+  it("accepts compatible changes", () => {
+    const oldSchema: Schema = {
+      properties: {
+        id: { type: "uint8" },
+        kind: { enum: ["a", "b"] },
+        at: { type: "timestamp" },
+      },
+    };
+
+    const newSchema: Schema = {
+      properties: {
+        id: { type: "int32" },
+        kind: { enum: ["b", "a", "c"] },
+        at: { type: "string", nullable: true },
+      },
+      optionalProperties: { note: { type: "string" } },
+    };
+
+    expect(checkCompatibility(oldSchema, newSchema, "backward")).toEqual([]);
+    expect(checkCompatibility(oldSchema, oldSchema, "full")).toEqual([]);
+  });
+
+  it("reports breaking changes", () => {
+    const oldSchema: Schema = {
+      properties: {
+        id: { type: "uint16" },
+        kind: { enum: ["a", "b"] },
+        name: { type: "string", nullable: true },
+        tags: { elements: { type: "string" } },
+      },
+      additionalProperties: true,
+    };
+
+    const newSchema: Schema = {
+      properties: {
+        id: { type: "uint8" },
+        kind: { enum: ["a"] },
+        name: { type: "string" },
+        tags: { values: { type: "string" } },
+        owner: { type: "string" },
+      },
+    };
+
+    expect(checkCompatibility(oldSchema, newSchema, "backward")).toEqual([
+      {
+        direction: "backward",
+        oldSchemaPath: ["properties", "id"],
+        newSchemaPath: ["properties", "id"],
+        code: "type_mismatch",
+        message: "new type uint8 does not accept every old uint16",
+      },
+      {
+        direction: "backward",
+        oldSchemaPath: ["properties", "kind"],
+        newSchemaPath: ["properties", "kind"],
+        code: "enum_value_rejected",
+        message: "new schema does not accept enum value b",
+      },
+      {
+        direction: "backward",
+        oldSchemaPath: ["properties", "name"],
+        newSchemaPath: ["properties", "name"],
+        code: "null_rejected",
+        message: "new schema does not accept null, but old schema does",
+      },
+      {
+        direction: "backward",
+        oldSchemaPath: ["properties", "tags"],
+        newSchemaPath: ["properties", "tags"],
+        code: "form_mismatch",
+        message:
+          "new schema is of the values form, but old schema is of the " +
+          "elements form",
+      },
+      {
+        direction: "backward",
+        oldSchemaPath: [],
+        newSchemaPath: ["properties", "owner"],
+        code: "property_required",
+        message: "new schema requires property owner, but old schema does not",
+      },
+      {
+        direction: "backward",
+        oldSchemaPath: [],
+        newSchemaPath: ["properties", "owner"],
+        code: "form_mismatch",
+        message:
+          "new schema is of the type form, but old schema is of the empty form",
+      },
+      {
+        direction: "backward",
+        oldSchemaPath: [],
+        newSchemaPath: [],
+        code: "additional_properties_rejected",
+        message:
+          "new schema does not allow additional properties, but old schema " +
+          "does",
+      },
+    ]);
+  });
+
+  it("checks in the given direction", () => {
+    const oldSchema: Schema = { optionalProperties: { a: {} } };
+    const newSchema: Schema = { optionalProperties: {} };
+
+    const forward = {
+      direction: "forward",
+      oldSchemaPath: [],
+      newSchemaPath: ["optionalProperties", "a"],
+      code: "property_rejected",
+      message: "new schema does not allow property a",
+    };
+
+    const backward = {
+      direction: "backward",
+      oldSchemaPath: ["optionalProperties", "a"],
+      newSchemaPath: [],
+      code: "property_rejected",
+      message: "new schema does not allow property a",
+    };
+
+    expect(checkCompatibility(oldSchema, newSchema, "forward")).toEqual([]);
+    expect(checkCompatibility(newSchema, oldSchema, "forward")).toEqual([
+      { ...forward, message: "old schema does not allow property a" },
+    ]);
+
+    expect(checkCompatibility(oldSchema, newSchema, "backward")).toEqual([
+      backward,
+    ]);
+    expect(checkCompatibility(oldSchema, newSchema, "full")).toEqual([
+      backward,
+    ]);
+  });
+
+  it("follows refs and discriminators", () => {
+    const oldSchema: Schema = {
+      definitions: {
+        node: {
+          properties: { value: { type: "string" } },
+          optionalProperties: { next: { ref: "node", nullable: true } },
+        },
+      },
+      discriminator: "type",
+      mapping: {
+        list: { properties: { head: { ref: "node" } } },
+        empty: { properties: {} },
+      },
+    };
+
+    const newSchema: Schema = {
+      definitions: {
+        item: {
+          properties: { value: { type: "string" } },
+          optionalProperties: { next: { ref: "item" } },
+        },
+      },
+      discriminator: "type",
+      mapping: {
+        list: { properties: { head: { ref: "item" } } },
+      },
+    };
+
+    expect(checkCompatibility(oldSchema, newSchema, "backward")).toEqual([
+      {
+        direction: "backward",
+        oldSchemaPath: ["definitions", "node"],
+        newSchemaPath: ["definitions", "item"],
+        code: "null_rejected",
+        message: "new schema does not accept null, but old schema does",
+      },
+      {
+        direction: "backward",
+        oldSchemaPath: ["mapping", "empty"],
+        newSchemaPath: [],
+        code: "mapping_rejected",
+        message: "new schema does not accept discriminator value empty",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,482 @@
+/**
+ * Module compatibility provides a way to check whether a change to a JSON
+ * Typedef schema is safe for the data that is already out there.
+ *
+ * The most important function in this module is {@link checkCompatibility},
+ * which returns a list of {@link Incompatibility}.
+ *
+ * @packageDocumentation
+ */
+
+import isRFC3339 from "./rfc3339";
+import {
+  Schema,
+  Type,
+  isRefForm,
+  isTypeForm,
+  isEnumForm,
+  isElementsForm,
+  isPropertiesForm,
+  isValuesForm,
+  isDiscriminatorForm,
+  formOf,
+} from "./schema";
+import { INT_RANGES } from "./typecheck";
+import { hasOwn } from "./objects";
+
+/**
+ * CompatibilityMode represents the kinds of compatibility
+ * {@link checkCompatibility} can check for:
+ *
+ * * `backward`: the new schema accepts all data the old schema accepts, so
+ *   readers using the new schema can read data written with the old one
+ * * `forward`: the old schema accepts all data the new schema accepts, so
+ *   readers using the old schema can read data written with the new one
+ * * `full`: both `backward` and `forward`
+ */
+export type CompatibilityMode = "backward" | "forward" | "full";
+
+/**
+ * Incompatibility describes one way in which two schemas are not compatible.
+ */
+export interface Incompatibility {
+  /**
+   * direction is the kind of compatibility that this is a problem for. In
+   * `full` mode, a problem with both kinds of compatibility is reported once
+   * for each.
+   */
+  direction: "backward" | "forward";
+
+  /**
+   * oldSchemaPath is the path to the part of the old schema with the problem.
+   * Like the paths in {@link ValidationError}, its elements are meant to be
+   * used as the path segments of an RFC6901 JSON Pointer.
+   */
+  oldSchemaPath: string[];
+
+  /**
+   * newSchemaPath is the path to the part of the new schema with the
+   * problem.
+   */
+  newSchemaPath: string[];
+
+  /**
+   * code is a machine-readable description of the problem.
+   */
+  code: IncompatibilityCode;
+
+  /**
+   * message is a human-readable description of the problem.
+   */
+  message: string;
+}
+
+/**
+ * IncompatibilityCode represents the kinds of problems
+ * {@link checkCompatibility} can report. In each of them, the "writer" is the
+ * schema data is written with, and the "reader" is the schema it is read
+ * with.
+ *
+ * * `form_mismatch`: the reader is of a different form from the writer
+ * * `null_rejected`: the writer accepts null, but the reader does not
+ * * `type_mismatch`: the reader's `type` does not accept all of the values the
+ *   writer's `type` or `enum` does
+ * * `enum_value_rejected`: the reader's `enum` does not have a value the
+ *   writer's has
+ * * `property_required`: the reader requires a property the writer doesn't
+ * * `property_rejected`: the reader does not allow a property the writer does
+ * * `additional_properties_rejected`: the writer allows additional properties,
+ *   but the reader does not
+ * * `discriminator_mismatch`: the reader uses a different `discriminator`
+ *   property from the writer
+ * * `mapping_rejected`: the reader's `mapping` does not have a tag the
+ *   writer's has
+ */
+export type IncompatibilityCode =
+  | "form_mismatch"
+  | "null_rejected"
+  | "type_mismatch"
+  | "enum_value_rejected"
+  | "property_required"
+  | "property_rejected"
+  | "additional_properties_rejected"
+  | "discriminator_mismatch"
+  | "mapping_rejected";
+
+/**
+ * checkCompatibility checks whether a new version of a schema is compatible
+ * with an old one, and returns every incompatibility it finds.
+ *
+ * checkCompatibility walks both schemas side by side, following `ref`s into
+ * the `definitions` of each schema's root. In `backward` mode, it reports the
+ * ways in which the new schema may reject data the old schema accepts, such
+ * as a new required property, a narrower `type`, a removed `enum` value or
+ * `mapping` tag, or `nullable` being turned off. `forward` mode is the same,
+ * but with the old and new schemas swapped, and `full` mode checks both.
+ *
+ * ```ts
+ * const oldSchema = { properties: { id: { type: "uint16" } } } as Schema;
+ * const newSchema = { properties: { id: { type: "uint8" } } } as Schema;
+ *
+ * // Returns:
+ * //
+ * // [
+ * //   {
+ * //     direction: "backward",
+ * //     oldSchemaPath: ["properties", "id"],
+ * //     newSchemaPath: ["properties", "id"],
+ * //     code: "type_mismatch",
+ * //     message: "new type uint8 does not accept every old uint16",
+ * //   },
+ * // ]
+ * checkCompatibility(oldSchema, newSchema, "backward");
+ * ```
+ *
+ * An empty result means the schemas are compatible. checkCompatibility is
+ * conservative: if it can't tell that the reader accepts something, such as
+ * when the two schemas are of different forms, it reports an incompatibility.
+ *
+ * @param oldSchema The current version of the schema
+ * @param newSchema The proposed version of the schema
+ * @param mode The kind of compatibility to check for
+ */
+export function checkCompatibility(
+  oldSchema: Schema,
+  newSchema: Schema,
+  mode: CompatibilityMode
+): Incompatibility[] {
+  return [
+    ...(mode === "forward" ? [] : check(oldSchema, newSchema, "backward")),
+    ...(mode === "backward" ? [] : check(newSchema, oldSchema, "forward")),
+  ];
+}
+
+// check returns the ways in which reader may reject data that writer accepts.
+function check(
+  writer: Schema,
+  reader: Schema,
+  direction: "backward" | "forward"
+): Incompatibility[] {
+  const state: CheckState = {
+    direction,
+    writerRoot: writer,
+    readerRoot: reader,
+    writerName: direction === "backward" ? "old" : "new",
+    readerName: direction === "backward" ? "new" : "old",
+    checked: new Set(),
+    incompatibilities: [],
+  };
+
+  checkWithState(state, { schema: writer, path: [], nullable: false }, {
+    schema: reader,
+    path: [],
+    nullable: false,
+  });
+
+  return state.incompatibilities;
+}
+
+interface CheckState {
+  direction: "backward" | "forward";
+  writerRoot: Schema;
+  readerRoot: Schema;
+  writerName: string;
+  readerName: string;
+
+  // The pairs of schemas that have already been checked. Recursive schemas
+  // would otherwise be checked forever.
+  checked: Set<string>;
+  incompatibilities: Incompatibility[];
+}
+
+// Side is a schema from one of the two schemas being compared, along with its
+// path, and whether a ref that led to it was nullable.
+interface Side {
+  schema: Schema;
+  path: string[];
+  nullable: boolean;
+}
+
+function checkWithState(
+  state: CheckState,
+  writerSide: Side,
+  readerSide: Side,
+  parentTag?: string
+) {
+  const writer = resolve(state.writerRoot, writerSide);
+  const reader = resolve(state.readerRoot, readerSide);
+
+  if (formOf(reader.schema) === "empty" || isRefForm(writer.schema)) {
+    // Either the reader accepts anything, or the writer is a cycle of refs,
+    // which accepts nothing because validating against it never finishes.
+    return;
+  }
+
+  const key = JSON.stringify([
+    writer.path,
+    writer.nullable,
+    reader.path,
+    reader.nullable,
+    parentTag,
+  ]);
+
+  if (state.checked.has(key)) {
+    return;
+  }
+
+  state.checked.add(key);
+
+  const w = writer.schema;
+  const r = reader.schema;
+  const report = (
+    code: IncompatibilityCode,
+    message: string,
+    writerPath = writer.path,
+    readerPath = reader.path
+  ) => {
+    state.incompatibilities.push({
+      direction: state.direction,
+      oldSchemaPath: state.direction === "backward" ? writerPath : readerPath,
+      newSchemaPath: state.direction === "backward" ? readerPath : writerPath,
+      code,
+      message,
+    });
+  };
+
+  const writerName = state.writerName;
+  const readerName = state.readerName;
+
+  if (formOf(w) !== formOf(r) && !(isEnumForm(w) && isTypeForm(r))) {
+    report(
+      "form_mismatch",
+      `${readerName} schema is of the ${formOf(r)} form, but ${writerName} ` +
+        `schema is of the ${formOf(w)} form`
+    );
+
+    return;
+  }
+
+  if (writer.nullable && !reader.nullable) {
+    report(
+      "null_rejected",
+      `${readerName} schema does not accept null, but ${writerName} schema does`
+    );
+  }
+
+  if (isTypeForm(r)) {
+    if (isTypeForm(w) && !typeAcceptsType(r.type, w.type)) {
+      report(
+        "type_mismatch",
+        `${readerName} type ${r.type} does not accept every ${writerName} ` +
+          w.type
+      );
+    }
+
+    if (isEnumForm(w) && !w.enum.every((value) => typeAccepts(r.type, value))) {
+      report(
+        "type_mismatch",
+        `${readerName} type ${r.type} does not accept every ${writerName} ` +
+          "enum value"
+      );
+    }
+  }
+
+  if (isEnumForm(w) && isEnumForm(r)) {
+    for (const value of w.enum) {
+      if (!r.enum.includes(value)) {
+        report(
+          "enum_value_rejected",
+          `${readerName} schema does not accept enum value ${value}`
+        );
+      }
+    }
+  }
+
+  if (isElementsForm(w) && isElementsForm(r)) {
+    checkWithState(
+      state,
+      sideOf(w.elements, [...writer.path, "elements"]),
+      sideOf(r.elements, [...reader.path, "elements"])
+    );
+  }
+
+  if (isPropertiesForm(w) && isPropertiesForm(r)) {
+    const writerProperties = propertiesOf(w, writer.path);
+    const readerProperties = propertiesOf(r, reader.path);
+
+    for (const [name, readerProperty] of Object.entries(readerProperties)) {
+      const writerProperty = hasOwn(writerProperties, name)
+        ? writerProperties[name]
+        : undefined;
+
+      if (
+        readerProperty.required &&
+        (writerProperty === undefined || !writerProperty.required)
+      ) {
+        report(
+          "property_required",
+          `${readerName} schema requires property ${name}, but ` +
+            `${writerName} schema does not`,
+          writerProperty === undefined ? writer.path : writerProperty.side.path,
+          readerProperty.side.path
+        );
+      }
+
+      if (writerProperty !== undefined) {
+        checkWithState(state, writerProperty.side, readerProperty.side);
+      } else if (w.additionalProperties) {
+        // The writer allows the property to have any value.
+        checkWithState(
+          state,
+          sideOf({}, writer.path),
+          readerProperty.side
+        );
+      }
+    }
+
+    for (const [name, writerProperty] of Object.entries(writerProperties)) {
+      if (
+        !hasOwn(readerProperties, name) &&
+        !r.additionalProperties &&
+        name !== parentTag
+      ) {
+        report(
+          "property_rejected",
+          `${readerName} schema does not allow property ${name}`,
+          writerProperty.side.path,
+          reader.path
+        );
+      }
+    }
+
+    if (w.additionalProperties && !r.additionalProperties) {
+      report(
+        "additional_properties_rejected",
+        `${readerName} schema does not allow additional properties, but ` +
+          `${writerName} schema does`
+      );
+    }
+  }
+
+  if (isValuesForm(w) && isValuesForm(r)) {
+    checkWithState(
+      state,
+      sideOf(w.values, [...writer.path, "values"]),
+      sideOf(r.values, [...reader.path, "values"])
+    );
+  }
+
+  if (isDiscriminatorForm(w) && isDiscriminatorForm(r)) {
+    if (w.discriminator !== r.discriminator) {
+      report(
+        "discriminator_mismatch",
+        `${readerName} discriminator is ${r.discriminator}, but ` +
+          `${writerName} discriminator is ${w.discriminator}`
+      );
+
+      return;
+    }
+
+    for (const [tag, subSchema] of Object.entries(w.mapping)) {
+      const writerPath = [...writer.path, "mapping", tag];
+
+      if (hasOwn(r.mapping, tag)) {
+        checkWithState(
+          state,
+          sideOf(subSchema, writerPath),
+          sideOf(r.mapping[tag], [...reader.path, "mapping", tag]),
+          r.discriminator
+        );
+      } else {
+        report(
+          "mapping_rejected",
+          `${readerName} schema does not accept discriminator value ${tag}`,
+          writerPath,
+          reader.path
+        );
+      }
+    }
+  }
+}
+
+// resolve follows the refs in a side, if any, to the schema they refer to.
+function resolve(root: Schema, side: Side): Side {
+  let { schema, path, nullable } = side;
+  const seen = new Set<string>();
+
+  while (isRefForm(schema) && !seen.has(schema.ref)) {
+    seen.add(schema.ref);
+    nullable = nullable || !!schema.nullable;
+    path = ["definitions", schema.ref];
+    schema = root.definitions![schema.ref];
+  }
+
+  // If schema is still a ref, then the refs form a cycle, and schema is the
+  // first one to be repeated.
+  return { schema, path, nullable: nullable || !!schema.nullable };
+}
+
+function sideOf(schema: Schema, path: string[]): Side {
+  return { schema, path, nullable: false };
+}
+
+interface Property {
+  side: Side;
+  required: boolean;
+}
+
+function propertiesOf(
+  schema: Schema & { properties?: {}; optionalProperties?: {} },
+  path: string[]
+): { [name: string]: Property } {
+  const result: { [name: string]: Property } = {};
+
+  for (const keyword of ["properties", "optionalProperties"] as const) {
+    for (const [name, subSchema] of Object.entries(
+      (schema[keyword] || {}) as { [name: string]: Schema }
+    )) {
+      Object.defineProperty(result, name, {
+        value: {
+          side: sideOf(subSchema, [...path, keyword, name]),
+          required: keyword === "properties",
+        },
+        enumerable: true,
+      });
+    }
+  }
+
+  return result;
+}
+
+// typeAcceptsType returns whether a type accepts every value that another type
+// accepts.
+function typeAcceptsType(type: Type, writer: Type): boolean {
+  if (writer === type) {
+    return true;
+  }
+
+  switch (type) {
+    case "float32":
+    case "float64":
+      // These accept any number, not just those that fit in 32 or 64 bits.
+      return (
+        writer === "float32" || writer === "float64" || writer in INT_RANGES
+      );
+    case "string":
+      return writer === "timestamp";
+    case "boolean":
+    case "timestamp":
+      return false;
+    default:
+      return (
+        writer in INT_RANGES &&
+        INT_RANGES[writer][0] >= INT_RANGES[type][0] &&
+        INT_RANGES[writer][1] <= INT_RANGES[type][1]
+      );
+  }
+}
+
+// typeAccepts returns whether a type accepts a value of an enum.
+function typeAccepts(type: Type, value: string): boolean {
+  return type === "string" || (type === "timestamp" && isRFC3339(value));
+}
@@ -0,0 +1,439 @@
+/**
+ * Module compile provides ahead-of-time compilation of JSON Typedef schemas
+ * into validator functions.
+ *
+ * The most important function in this module is {@link compile}, which returns
+ * a {@link CompiledValidator}. Calling that validator gives exactly the same
+ * result as calling {@link validate} with the same schema and config, but does
+ * not need to re-interpret the schema every time.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  Schema,
+  isRefForm,
+  isTypeForm,
+  isEnumForm,
+  isElementsForm,
+  isPropertiesForm,
+  isValuesForm,
+  isDiscriminatorForm,
+} from "./schema";
+import { TYPE_CHECKS } from "./typecheck";
+import {
+  ValidationConfig,
+  ValidationError,
+  MaxDepthExceededError,
+  MaxInstanceDepthExceededError,
+} from "./validate";
+import { hasOwn, isObject, setOwn } from "./objects";
+import { Path, append, pushReversed, toArray } from "./stack";
+
+/**
+ * CompiledValidator is a function returned from {@link compile}.
+ *
+ * It takes an instance (or "input") and returns the same array of
+ * {@link ValidationError} that {@link validate} would have returned for the
+ * schema and config the validator was compiled with.
+ */
+export type CompiledValidator = (instance: unknown) => ValidationError[];
+
+/**
+ * compile converts a JSON Typedef schema into a {@link CompiledValidator}.
+ *
+ * All of the work of figuring out which form each part of the schema takes on,
+ * and what schema paths errors should carry, is done once, when compile is
+ * called. If you are validating many instances against the same schema, you
+ * should compile the schema once and re-use the returned validator.
+ *
+ * The returned validator behaves exactly like {@link validate}. In particular,
+ * it may throw {@link MaxDepthExceededError} if `config` has a
+ * {@link ValidationConfig.maxDepth}, it may throw
+ * {@link MaxInstanceDepthExceededError} if `config` has a
+ * {@link ValidationConfig.maxInstanceDepth}, and it respects
+ * {@link ValidationConfig.maxErrors}. Like validate, it throws
+ * MaxDepthExceededError on circularly-defined schemas that would never finish,
+ * and never overflows the stack, no matter how deeply the instance is nested.
+ *
+ * compile assumes that `schema` is a correct schema. If you are handling
+ * untrusted schemas, check them with {@link isSchema} and
+ * {@link isValidSchema} first.
+ *
+ * @param schema The schema to compile
+ * @param config Validation options. Optional.
+ */
+export function compile(
+  schema: Schema,
+  config?: ValidationConfig
+): CompiledValidator {
+  const context: CompileContext = {
+    definitions: {},
+    config: config || { maxDepth: 0, maxErrors: 0 },
+  };
+
+  // Definitions are compiled before the root, but compiled refs only look up
+  // their target when they are called. That lets circularly-defined schemas
+  // compile without issue.
+  for (const [name, subSchema] of Object.entries(schema.definitions || {})) {
+    setOwn(
+      context.definitions,
+      name,
+      compileNode(context, subSchema, ["definitions", name])
+    );
+  }
+
+  const root = compileNode(context, schema, []);
+  const definitionCount = Object.keys(schema.definitions || {}).length;
+
+  return (instance: unknown) => {
+    const state: CompiledState = {
+      errors: [],
+      stack: [
+        {
+          kind: "node",
+          node: root,
+          instance,
+          instancePath: undefined,
+          instanceDepth: 0,
+          depth: 1,
+          refChain: 0,
+        },
+      ],
+      definitionCount,
+      config: context.config,
+    };
+
+    try {
+      run(state);
+    } catch (err) {
+      if (!(err instanceof MaxErrorsReachedError)) {
+        throw err;
+      }
+    }
+
+    return state.errors;
+  };
+}
+
+class MaxErrorsReachedError extends Error {}
+
+interface CompileContext {
+  definitions: { [name: string]: CompiledNode };
+  config: ValidationConfig;
+}
+
+interface CompiledState {
+  errors: ValidationError[];
+  stack: Task[];
+  config: ValidationConfig;
+
+  // The number of definitions in the compiled schema.
+  definitionCount: number;
+}
+
+// Task is a unit of work on the stack in run. It works just like a task in
+// validate, except that it refers to a CompiledNode rather than a schema.
+type Task = NodeTask | ErrorTask;
+
+interface NodeTask {
+  kind: "node";
+  node: CompiledNode;
+  instance: unknown;
+  parentTag?: string;
+  instancePath: Path;
+
+  // The number of tokens in instancePath.
+  instanceDepth: number;
+
+  // The number of refs followed to get to this task, plus one.
+  depth: number;
+
+  // The number of refs followed in a row to get to this task, without looking
+  // inside of the instance or at a mapping in between.
+  refChain: number;
+}
+
+interface ErrorTask {
+  kind: "error";
+  instancePath: Path;
+  schemaPath: string[];
+}
+
+// A CompiledNode validates an instance against a single, already-analyzed
+// schema. Each node knows its own schema path ahead of time, so unlike
+// validate we never need to keep track of schema paths while validating.
+//
+// Rather than calling the nodes for the parts of the instance inside of it, a
+// node pushes tasks for them onto state.stack.
+type CompiledNode = (state: CompiledState, task: NodeTask) => void;
+
+// run pops tasks off of state.stack until there are none left.
+function run(state: CompiledState) {
+  const { stack } = state;
+  const { maxInstanceDepth } = state.config;
+
+  while (stack.length !== 0) {
+    const task = stack.pop()!;
+    if (task.kind === "error") {
+      pushError(state, task.instancePath, task.schemaPath);
+      continue;
+    }
+
+    if (maxInstanceDepth && task.instanceDepth > maxInstanceDepth) {
+      throw new MaxInstanceDepthExceededError();
+    }
+
+    task.node(state, task);
+  }
+}
+
+function compileNode(
+  context: CompileContext,
+  schema: Schema,
+  schemaPath: string[]
+): CompiledNode {
+  const node = compileForm(context, schema, schemaPath);
+
+  if (schema.nullable) {
+    return (state, task) => {
+      if (task.instance !== null) {
+        node(state, task);
+      }
+    };
+  }
+
+  return node;
+}
+
+function compileForm(
+  context: CompileContext,
+  schema: Schema,
+  schemaPath: string[]
+): CompiledNode {
+  if (isRefForm(schema)) {
+    const { definitions, config } = context;
+    const ref = schema.ref;
+
+    return (state, task) => {
+      if (task.depth === config.maxDepth) {
+        throw new MaxDepthExceededError();
+      }
+
+      // See validate on why a chain of refs this long has to be a cycle.
+      if (task.refChain === state.definitionCount) {
+        throw new MaxDepthExceededError();
+      }
+
+      state.stack.push({
+        ...task,
+        node: definitions[ref],
+        parentTag: undefined,
+        depth: task.depth + 1,
+        refChain: task.refChain + 1,
+      });
+    };
+  }
+
+  if (isTypeForm(schema)) {
+    const path = [...schemaPath, "type"];
+    const check = TYPE_CHECKS[schema.type];
+
+    return (state, { instance, instancePath }) => {
+      if (!check(instance)) {
+        pushError(state, instancePath, path);
+      }
+    };
+  }
+
+  if (isEnumForm(schema)) {
+    const path = [...schemaPath, "enum"];
+    const values = new Set(schema.enum);
+
+    return (state, { instance, instancePath }) => {
+      if (typeof instance !== "string" || !values.has(instance)) {
+        pushError(state, instancePath, path);
+      }
+    };
+  }
+
+  if (isElementsForm(schema)) {
+    const path = [...schemaPath, "elements"];
+    const elements = compileNode(context, schema.elements, path);
+
+    return (state, task) => {
+      const { instance } = task;
+      if (!Array.isArray(instance)) {
+        pushError(state, task.instancePath, path);
+        return;
+      }
+
+      for (let index = instance.length - 1; index >= 0; index--) {
+        state.stack.push(
+          inside(task, elements, instance[index], index.toString())
+        );
+      }
+    };
+  }
+
+  if (isPropertiesForm(schema)) {
+    const { properties, optionalProperties, additionalProperties } = schema;
+
+    const required = Object.entries(properties || {}).map(
+      ([name, subSchema]) => {
+        const path = [...schemaPath, "properties", name];
+        return { name, path, node: compileNode(context, subSchema, path) };
+      }
+    );
+
+    const optional = Object.entries(optionalProperties || {}).map(
+      ([name, subSchema]) => {
+        const path = [...schemaPath, "optionalProperties", name];
+        return { name, node: compileNode(context, subSchema, path) };
+      }
+    );
+
+    const notObjectPath = [
+      ...schemaPath,
+      properties !== undefined ? "properties" : "optionalProperties",
+    ];
+
+    return (state, task) => {
+      const { instance, instancePath } = task;
+      if (!isObject(instance)) {
+        pushError(state, instancePath, notObjectPath);
+        return;
+      }
+
+      const tasks: Task[] = [];
+
+      for (const { name, path, node } of required) {
+        if (hasOwn(instance, name)) {
+          tasks.push(inside(task, node, instance[name], name));
+        } else {
+          tasks.push({ kind: "error", instancePath, schemaPath: path });
+        }
+      }
+
+      for (const { name, node } of optional) {
+        if (hasOwn(instance, name)) {
+          tasks.push(inside(task, node, instance[name], name));
+        }
+      }
+
+      if (additionalProperties !== true) {
+        for (const name of Object.keys(instance)) {
+          const inRequired = properties && hasOwn(properties, name);
+          const inOptional =
+            optionalProperties && hasOwn(optionalProperties, name);
+
+          if (!inRequired && !inOptional && name !== task.parentTag) {
+            tasks.push({
+              kind: "error",
+              instancePath: append(instancePath, name),
+              schemaPath,
+            });
+          }
+        }
+      }
+
+      pushReversed(state.stack, tasks);
+    };
+  }
+
+  if (isValuesForm(schema)) {
+    const path = [...schemaPath, "values"];
+    const values = compileNode(context, schema.values, path);
+
+    return (state, task) => {
+      const { instance } = task;
+      if (!isObject(instance)) {
+        pushError(state, task.instancePath, path);
+        return;
+      }
+
+      pushReversed(
+        state.stack,
+        Object.entries(instance).map(([name, subInstance]) =>
+          inside(task, values, subInstance, name)
+        )
+      );
+    };
+  }
+
+  if (isDiscriminatorForm(schema)) {
+    const { discriminator, mapping } = schema;
+    const discriminatorPath = [...schemaPath, "discriminator"];
+    const mappingPath = [...schemaPath, "mapping"];
+
+    const nodes: { [tag: string]: CompiledNode } = {};
+    for (const [tag, subSchema] of Object.entries(mapping)) {
+      const node = compileNode(context, subSchema, [...mappingPath, tag]);
+      setOwn(nodes, tag, node);
+    }
+
+    return (state, task) => {
+      const { instance, instancePath } = task;
+      if (!isObject(instance) || !hasOwn(instance, discriminator)) {
+        pushError(state, instancePath, discriminatorPath);
+        return;
+      }
+
+      const tag = instance[discriminator];
+
+      if (typeof tag === "string" && hasOwn(mapping, tag)) {
+        state.stack.push({
+          ...task,
+          node: nodes[tag],
+          parentTag: discriminator,
+          refChain: 0,
+        });
+
+        return;
+      }
+
+      pushError(
+        state,
+        append(instancePath, discriminator),
+        typeof tag === "string" ? mappingPath : discriminatorPath
+      );
+    };
+  }
+
+  // The empty form accepts any input.
+  return () => {};
+}
+
+// inside returns a task for validating a part of the instance that is inside
+// of the instance of another task.
+function inside(
+  task: NodeTask,
+  node: CompiledNode,
+  instance: unknown,
+  token: string
+): NodeTask {
+  return {
+    kind: "node",
+    node,
+    instance,
+    instancePath: append(task.instancePath, token),
+    instanceDepth: task.instanceDepth + 1,
+    depth: task.depth,
+    refChain: 0,
+  };
+}
+
+function pushError(
+  state: CompiledState,
+  instancePath: Path,
+  schemaPath: string[]
+) {
+  state.errors.push({
+    instancePath: toArray(instancePath),
+    schemaPath: [...schemaPath],
+  });
+
+  if (state.errors.length === state.config.maxErrors) {
+    throw new MaxErrorsReachedError();
+  }
+}
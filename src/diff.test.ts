@@ -0,0 +1,223 @@
+import {
+  Schema,
+  diffSchemas,
+  renderChangesAsMarkdown,
+  renderChangesAsText,
+} from "./index";
+
+describe("diffSchemas", () => {
+  it("finds changes to properties", () => {
+    const a: Schema = {
+      metadata: { description: "A user." },
+      properties: {
+        id: { type: "uint16" },
+        name: { type: "string" },
+        role: { enum: ["admin", "user"] },
+      },
+      optionalProperties: { email: { type: "string" } },
+    };
+
+    const b: Schema = {
+      metadata: { description: "A user of the app." },
+      properties: {
+        id: { type: "uint8" },
+        email: { type: "string", nullable: true },
+        role: { enum: ["user", "guest"] },
+      },
+      optionalProperties: { phone: { type: "string" } },
+      additionalProperties: true,
+    };
+
+    expect(diffSchemas(a, b)).toEqual([
+      {
+        kind: "metadata_changed",
+        oldPointer: "/metadata/description",
+        newPointer: "/metadata/description",
+        name: "description",
+        oldValue: "A user.",
+        newValue: "A user of the app.",
+        message: "metadata description changed",
+      },
+      {
+        kind: "type_changed",
+        oldPointer: "/properties/id",
+        newPointer: "/properties/id",
+        oldValue: "uint16",
+        newValue: "uint8",
+        message: "type changed from uint16 to uint8",
+      },
+      {
+        kind: "property_removed",
+        oldPointer: "/properties/name",
+        newPointer: "",
+        name: "name",
+        message: "required property name removed",
+      },
+      {
+        kind: "enum_value_removed",
+        oldPointer: "/properties/role/enum/0",
+        newPointer: "/properties/role/enum",
+        name: "admin",
+        message: "enum value admin removed",
+      },
+      {
+        kind: "enum_value_added",
+        oldPointer: "/properties/role/enum",
+        newPointer: "/properties/role/enum/1",
+        name: "guest",
+        message: "enum value guest added",
+      },
+      {
+        kind: "property_made_required",
+        oldPointer: "/optionalProperties/email",
+        newPointer: "/properties/email",
+        name: "email",
+        message: "property email made required",
+      },
+      {
+        kind: "nullable_changed",
+        oldPointer: "/optionalProperties/email",
+        newPointer: "/properties/email",
+        oldValue: false,
+        newValue: true,
+        message: "nullable changed from false to true",
+      },
+      {
+        kind: "property_added",
+        oldPointer: "",
+        newPointer: "/optionalProperties/phone",
+        name: "phone",
+        message: "optional property phone added",
+      },
+      {
+        kind: "additional_properties_changed",
+        oldPointer: "",
+        newPointer: "",
+        oldValue: false,
+        newValue: true,
+        message: "additionalProperties changed from false to true",
+      },
+    ]);
+  });
+
+  it("finds changes to definitions, refs, and mappings", () => {
+    const a: Schema = {
+      definitions: {
+        node: { properties: { next: { ref: "node", nullable: true } } },
+        unused: { type: "string" },
+        kept: { elements: { type: "string" } },
+      },
+      discriminator: "type",
+      mapping: {
+        list: { properties: { head: { ref: "node" } } },
+        empty: { properties: {} },
+      },
+    };
+
+    const b: Schema = {
+      definitions: {
+        item: { properties: { next: { ref: "item", nullable: true } } },
+        kept: { values: { type: "string" } },
+      },
+      discriminator: "kind",
+      mapping: {
+        list: { properties: { head: { ref: "item" } } },
+        tree: { properties: { root: { ref: "kept" } } },
+      },
+    };
+
+    expect(diffSchemas(a, b)).toEqual([
+      {
+        kind: "definition_renamed",
+        oldPointer: "/definitions/node",
+        newPointer: "/definitions/item",
+        oldValue: "node",
+        newValue: "item",
+        message: "definition node renamed to item",
+      },
+      {
+        kind: "definition_removed",
+        oldPointer: "/definitions/unused",
+        newPointer: "/definitions",
+        name: "unused",
+        message: "definition unused removed",
+      },
+      {
+        kind: "form_changed",
+        oldPointer: "/definitions/kept",
+        newPointer: "/definitions/kept",
+        oldValue: "elements",
+        newValue: "values",
+        message: "form changed from elements to values",
+      },
+      {
+        kind: "discriminator_changed",
+        oldPointer: "",
+        newPointer: "",
+        oldValue: "type",
+        newValue: "kind",
+        message: "discriminator changed from type to kind",
+      },
+      {
+        kind: "mapping_removed",
+        oldPointer: "/mapping/empty",
+        newPointer: "/mapping",
+        name: "empty",
+        message: "mapping empty removed",
+      },
+      {
+        kind: "mapping_added",
+        oldPointer: "/mapping",
+        newPointer: "/mapping/tree",
+        name: "tree",
+        message: "mapping tree added",
+      },
+    ]);
+  });
+
+  it("finds no changes between equal schemas", () => {
+    const schema: Schema = { values: { ref: "a" }, definitions: { a: {} } };
+    expect(diffSchemas(schema, schema)).toEqual([]);
+  });
+});
+
+describe("renderChangesAsText", () => {
+  it("renders one line per change", () => {
+    const changes = diffSchemas(
+      { properties: { a: { type: "string" } } },
+      { optionalProperties: { a: { type: "boolean" } } }
+    );
+
+    expect(renderChangesAsText(changes)).toBe(
+      "property a made optional at /properties/a in the old schema and " +
+        "/optionalProperties/a in the new schema\n" +
+        "type changed from string to boolean at /properties/a in the old " +
+        "schema and /optionalProperties/a in the new schema\n"
+    );
+
+    expect(renderChangesAsText(diffSchemas({}, { nullable: true }))).toBe(
+      "nullable changed from false to true at the root\n"
+    );
+
+    expect(renderChangesAsText([])).toBe("no changes\n");
+  });
+});
+
+describe("renderChangesAsMarkdown", () => {
+  it("renders a table", () => {
+    const changes = diffSchemas(
+      { optionalProperties: { "a|b`": {} } },
+      { optionalProperties: {}, nullable: true }
+    );
+
+    expect(renderChangesAsMarkdown(changes)).toBe(
+      "| Change | Old | New |\n" +
+        "| --- | --- | --- |\n" +
+        "| nullable changed from false to true | (root) | (root) |\n" +
+        "| optional property a\\|b\\` removed | " +
+        "`` /optionalProperties/a\\|b` `` | (root) |\n"
+    );
+
+    expect(renderChangesAsMarkdown([])).toBe("No changes.\n");
+  });
+});
@@ -0,0 +1,680 @@
+/**
+ * Module diff provides a way to find out what changed between two versions of
+ * a JSON Typedef schema.
+ *
+ * The most important function in this module is {@link diffSchemas}, which
+ * returns a list of {@link SchemaChange}. You can present those changes to
+ * people with {@link renderChangesAsText} or {@link renderChangesAsMarkdown}.
+ *
+ * @packageDocumentation
+ */
+
+import { encodePointer } from "./pointer";
+import {
+  Schema,
+  isRefForm,
+  isTypeForm,
+  isEnumForm,
+  isElementsForm,
+  isPropertiesForm,
+  isValuesForm,
+  isDiscriminatorForm,
+  formOf,
+} from "./schema";
+import { hasOwn, isObject, setOwn } from "./objects";
+
+/**
+ * SchemaChange describes one difference between two versions of a schema.
+ */
+export interface SchemaChange {
+  /**
+   * kind is a machine-readable description of the change.
+   */
+  kind: SchemaChangeKind;
+
+  /**
+   * oldPointer is a JSON Pointer to where the change is in the old schema. If
+   * something was added, it points to where it was added to.
+   */
+  oldPointer: string;
+
+  /**
+   * newPointer is a JSON Pointer to where the change is in the new schema. If
+   * something was removed, it points to where it was removed from.
+   */
+  newPointer: string;
+
+  /**
+   * name is the name of the property, enum value, mapping tag, definition, or
+   * metadata that was added, removed, or changed. It is undefined for other
+   * kinds of change.
+   */
+  name?: string;
+
+  /**
+   * oldValue is the value of what changed in the old schema. For example, for
+   * a `type_changed`, it is the old type. It is undefined for changes that add
+   * or remove something.
+   */
+  oldValue?: unknown;
+
+  /**
+   * newValue is the value of what changed in the new schema.
+   */
+  newValue?: unknown;
+
+  /**
+   * message is a human-readable description of the change.
+   */
+  message: string;
+}
+
+/**
+ * SchemaChangeKind represents the kinds of changes {@link diffSchemas} can
+ * find:
+ *
+ * * `definition_added`, `definition_removed`: a definition was added or
+ *   removed
+ * * `definition_renamed`: a definition was removed, and one that is the same
+ *   apart from its name was added
+ * * `form_changed`: a schema was changed into a different form
+ * * `nullable_changed`: `nullable` was turned on or off
+ * * `metadata_changed`: a `metadata` value was added, removed, or changed
+ * * `ref_changed`: a `ref` was changed to refer to another definition
+ * * `type_changed`: a `type` was changed
+ * * `enum_value_added`, `enum_value_removed`: an `enum` value was added or
+ *   removed
+ * * `property_added`, `property_removed`: a property was added or removed
+ * * `property_made_required`, `property_made_optional`: a property was moved
+ *   between `optionalProperties` and `properties`
+ * * `additional_properties_changed`: `additionalProperties` was turned on or
+ *   off
+ * * `discriminator_changed`: a `discriminator` was changed
+ * * `mapping_added`, `mapping_removed`: a tag was added to or removed from a
+ *   `mapping`
+ */
+export type SchemaChangeKind =
+  | "definition_added"
+  | "definition_removed"
+  | "definition_renamed"
+  | "form_changed"
+  | "nullable_changed"
+  | "metadata_changed"
+  | "ref_changed"
+  | "type_changed"
+  | "enum_value_added"
+  | "enum_value_removed"
+  | "property_added"
+  | "property_removed"
+  | "property_made_required"
+  | "property_made_optional"
+  | "additional_properties_changed"
+  | "discriminator_changed"
+  | "mapping_added"
+  | "mapping_removed";
+
+/**
+ * diffSchemas returns the changes between two versions of a schema.
+ *
+ * diffSchemas compares the two schemas' structure. It does not follow refs,
+ * but it does compare the definitions with the same name in each schema.
+ * Changes are returned with those in `definitions` first, and otherwise in the
+ * order they appear in the schemas.
+ *
+ * ```ts
+ * const a = { properties: { id: { type: "uint16" } } } as Schema;
+ * const b = { optionalProperties: { id: { type: "uint8" } } } as Schema;
+ *
+ * // Returns:
+ * //
+ * // [
+ * //   {
+ * //     kind: "property_made_optional",
+ * //     oldPointer: "/properties/id",
+ * //     newPointer: "/optionalProperties/id",
+ * //     name: "id",
+ * //     message: "property id made optional",
+ * //   },
+ * //   {
+ * //     kind: "type_changed",
+ * //     oldPointer: "/properties/id",
+ * //     newPointer: "/optionalProperties/id",
+ * //     oldValue: "uint16",
+ * //     newValue: "uint8",
+ * //     message: "type changed from uint16 to uint8",
+ * //   },
+ * // ]
+ * diffSchemas(a, b);
+ * ```
+ *
+ * If you want to know whether the changes are safe, rather than what they
+ * are, use {@link checkCompatibility}.
+ *
+ * @param a The old version of the schema
+ * @param b The new version of the schema
+ */
+export function diffSchemas(a: Schema, b: Schema): SchemaChange[] {
+  const state: DiffState = { renames: {}, changes: [] };
+
+  const oldDefinitions = a.definitions || {};
+  const newDefinitions = b.definitions || {};
+  const removed = Object.keys(oldDefinitions).filter(
+    (name) => !hasOwn(newDefinitions, name)
+  );
+  const added = Object.keys(newDefinitions).filter(
+    (name) => !hasOwn(oldDefinitions, name)
+  );
+
+  // Where definitions are added to or removed from in each schema.
+  const oldParent = a.definitions === undefined ? [] : ["definitions"];
+  const newParent = b.definitions === undefined ? [] : ["definitions"];
+
+  // A removed definition was renamed if there's an added one that's the same,
+  // taking into account that refs to itself are renamed too.
+  for (const oldName of removed) {
+    const newName = added.find(
+      (name) =>
+        !Object.values(state.renames).includes(name) &&
+        sameSchema(
+          { ...state.renames, [oldName]: name },
+          oldDefinitions[oldName],
+          newDefinitions[name]
+        )
+    );
+
+    if (newName !== undefined) {
+      setOwn(state.renames, oldName, newName);
+    }
+  }
+
+  for (const name of Object.keys(oldDefinitions)) {
+    const path = ["definitions", name];
+
+    if (hasOwn(newDefinitions, name)) {
+      diffWithState(
+        state,
+        oldDefinitions[name],
+        newDefinitions[name],
+        path,
+        path
+      );
+    } else if (hasOwn(state.renames, name)) {
+      const newName = state.renames[name];
+      record(state, "definition_renamed", path, ["definitions", newName], {
+        oldValue: name,
+        newValue: newName,
+        message: `definition ${name} renamed to ${newName}`,
+      });
+    } else {
+      record(state, "definition_removed", path, newParent, {
+        name,
+        message: `definition ${name} removed`,
+      });
+    }
+  }
+
+  for (const name of added) {
+    if (!Object.values(state.renames).includes(name)) {
+      record(state, "definition_added", oldParent, ["definitions", name], {
+        name,
+        message: `definition ${name} added`,
+      });
+    }
+  }
+
+  diffWithState(state, a, b, [], []);
+  return state.changes;
+}
+
+interface DiffState {
+  // The new name of each renamed definition, by its old name.
+  renames: { [name: string]: string };
+  changes: SchemaChange[];
+}
+
+function diffWithState(
+  state: DiffState,
+  a: Schema,
+  b: Schema,
+  oldPath: string[],
+  newPath: string[]
+) {
+  const change = (
+    kind: SchemaChangeKind,
+    details: Pick<SchemaChange, "name" | "oldValue" | "newValue" | "message">,
+    oldSubPath: string[] = [],
+    newSubPath: string[] = []
+  ) => {
+    record(
+      state,
+      kind,
+      [...oldPath, ...oldSubPath],
+      [...newPath, ...newSubPath],
+      details
+    );
+  };
+
+  const oldMetadata = a.metadata || {};
+  const newMetadata = b.metadata || {};
+  const metadataNames = union(
+    Object.keys(oldMetadata),
+    Object.keys(newMetadata)
+  );
+
+  for (const name of metadataNames) {
+    if (!hasOwn(oldMetadata, name)) {
+      change(
+        "metadata_changed",
+        {
+          name,
+          newValue: newMetadata[name],
+          message: `metadata ${name} added`,
+        },
+        ["metadata"],
+        ["metadata", name]
+      );
+    } else if (!hasOwn(newMetadata, name)) {
+      change(
+        "metadata_changed",
+        {
+          name,
+          oldValue: oldMetadata[name],
+          message: `metadata ${name} removed`,
+        },
+        ["metadata", name],
+        ["metadata"]
+      );
+    } else if (!deepEqual(oldMetadata[name], newMetadata[name])) {
+      change(
+        "metadata_changed",
+        {
+          name,
+          oldValue: oldMetadata[name],
+          newValue: newMetadata[name],
+          message: `metadata ${name} changed`,
+        },
+        ["metadata", name],
+        ["metadata", name]
+      );
+    }
+  }
+
+  if (!!a.nullable !== !!b.nullable) {
+    change("nullable_changed", {
+      oldValue: !!a.nullable,
+      newValue: !!b.nullable,
+      message: `nullable changed from ${!!a.nullable} to ${!!b.nullable}`,
+    });
+  }
+
+  if (formOf(a) !== formOf(b)) {
+    change("form_changed", {
+      oldValue: formOf(a),
+      newValue: formOf(b),
+      message: `form changed from ${formOf(a)} to ${formOf(b)}`,
+    });
+
+    return;
+  }
+
+  if (isRefForm(a) && isRefForm(b)) {
+    const expected = hasOwn(state.renames, a.ref)
+      ? state.renames[a.ref]
+      : a.ref;
+    if (b.ref !== expected) {
+      change("ref_changed", {
+        oldValue: a.ref,
+        newValue: b.ref,
+        message: `ref changed from ${a.ref} to ${b.ref}`,
+      });
+    }
+  }
+
+  if (isTypeForm(a) && isTypeForm(b) && a.type !== b.type) {
+    change("type_changed", {
+      oldValue: a.type,
+      newValue: b.type,
+      message: `type changed from ${a.type} to ${b.type}`,
+    });
+  }
+
+  if (isEnumForm(a) && isEnumForm(b)) {
+    a.enum.forEach((value, index) => {
+      if (!b.enum.includes(value)) {
+        change(
+          "enum_value_removed",
+          { name: value, message: `enum value ${value} removed` },
+          ["enum", index.toString()],
+          ["enum"]
+        );
+      }
+    });
+
+    b.enum.forEach((value, index) => {
+      if (!a.enum.includes(value)) {
+        change(
+          "enum_value_added",
+          { name: value, message: `enum value ${value} added` },
+          ["enum"],
+          ["enum", index.toString()]
+        );
+      }
+    });
+  }
+
+  if (isElementsForm(a) && isElementsForm(b)) {
+    diffWithState(
+      state,
+      a.elements,
+      b.elements,
+      [...oldPath, "elements"],
+      [...newPath, "elements"]
+    );
+  }
+
+  if (isPropertiesForm(a) && isPropertiesForm(b)) {
+    const oldProperties = propertiesOf(a);
+    const newProperties = propertiesOf(b);
+
+    for (const name of union(
+      Object.keys(oldProperties),
+      Object.keys(newProperties)
+    )) {
+      if (!hasOwn(newProperties, name)) {
+        const [keyword] = oldProperties[name];
+        change(
+          "property_removed",
+          {
+            name,
+            message: `${requiredness(keyword)} property ${name} removed`,
+          },
+          [keyword, name]
+        );
+
+        continue;
+      }
+
+      if (!hasOwn(oldProperties, name)) {
+        const [keyword] = newProperties[name];
+        change(
+          "property_added",
+          { name, message: `${requiredness(keyword)} property ${name} added` },
+          [],
+          [keyword, name]
+        );
+
+        continue;
+      }
+
+      const [oldKeyword, oldSchema] = oldProperties[name];
+      const [newKeyword, newSchema] = newProperties[name];
+
+      if (oldKeyword !== newKeyword) {
+        change(
+          newKeyword === "properties"
+            ? "property_made_required"
+            : "property_made_optional",
+          {
+            name,
+            message: `property ${name} made ${requiredness(newKeyword)}`,
+          },
+          [oldKeyword, name],
+          [newKeyword, name]
+        );
+      }
+
+      diffWithState(
+        state,
+        oldSchema,
+        newSchema,
+        [...oldPath, oldKeyword, name],
+        [...newPath, newKeyword, name]
+      );
+    }
+
+    if (!!a.additionalProperties !== !!b.additionalProperties) {
+      change("additional_properties_changed", {
+        oldValue: !!a.additionalProperties,
+        newValue: !!b.additionalProperties,
+        message:
+          `additionalProperties changed from ${!!a.additionalProperties} ` +
+          `to ${!!b.additionalProperties}`,
+      });
+    }
+  }
+
+  if (isValuesForm(a) && isValuesForm(b)) {
+    diffWithState(
+      state,
+      a.values,
+      b.values,
+      [...oldPath, "values"],
+      [...newPath, "values"]
+    );
+  }
+
+  if (isDiscriminatorForm(a) && isDiscriminatorForm(b)) {
+    if (a.discriminator !== b.discriminator) {
+      change("discriminator_changed", {
+        oldValue: a.discriminator,
+        newValue: b.discriminator,
+        message:
+          `discriminator changed from ${a.discriminator} to ` +
+          b.discriminator,
+      });
+    }
+
+    for (const tag of union(Object.keys(a.mapping), Object.keys(b.mapping))) {
+      if (!hasOwn(b.mapping, tag)) {
+        change(
+          "mapping_removed",
+          { name: tag, message: `mapping ${tag} removed` },
+          ["mapping", tag],
+          ["mapping"]
+        );
+      } else if (!hasOwn(a.mapping, tag)) {
+        change(
+          "mapping_added",
+          { name: tag, message: `mapping ${tag} added` },
+          ["mapping"],
+          ["mapping", tag]
+        );
+      } else {
+        diffWithState(
+          state,
+          a.mapping[tag],
+          b.mapping[tag],
+          [...oldPath, "mapping", tag],
+          [...newPath, "mapping", tag]
+        );
+      }
+    }
+  }
+}
+
+function record(
+  state: DiffState,
+  kind: SchemaChangeKind,
+  oldPath: string[],
+  newPath: string[],
+  details: Pick<SchemaChange, "name" | "oldValue" | "newValue" | "message">
+) {
+  state.changes.push({
+    kind,
+    oldPointer: encodePointer(oldPath),
+    newPointer: encodePointer(newPath),
+    ...details,
+  });
+}
+
+/**
+ * renderChangesAsText returns a plain-text description of changes from
+ * {@link diffSchemas}, with one change per line.
+ *
+ * ```ts
+ * // Returns:
+ * //
+ * // nullable changed from false to true at the root
+ * renderChangesAsText(diffSchemas(a, b));
+ * ```
+ *
+ * @param changes The changes to describe
+ */
+export function renderChangesAsText(changes: SchemaChange[]): string {
+  if (changes.length === 0) {
+    return "no changes\n";
+  }
+
+  return changes
+    .map(({ message, oldPointer, newPointer }) => {
+      if (oldPointer === newPointer) {
+        return `${message} at ${describePointer(oldPointer)}\n`;
+      }
+
+      return (
+        `${message} at ${describePointer(oldPointer)} in the old schema ` +
+        `and ${describePointer(newPointer)} in the new schema\n`
+      );
+    })
+    .join("");
+}
+
+/**
+ * renderChangesAsMarkdown returns a Markdown table of changes from
+ * {@link diffSchemas}, suitable for posting in a code review.
+ *
+ * ```ts
+ * // Returns:
+ * //
+ * // | Change | Old | New |
+ * // | --- | --- | --- |
+ * // | nullable changed from false to true | (root) | (root) |
+ * renderChangesAsMarkdown(diffSchemas(a, b));
+ * ```
+ *
+ * @param changes The changes to describe
+ */
+export function renderChangesAsMarkdown(changes: SchemaChange[]): string {
+  if (changes.length === 0) {
+    return "No changes.\n";
+  }
+
+  const rows = changes.map(
+    ({ message, oldPointer, newPointer }) =>
+      `| ${escapeMarkdown(message)} | ${codeSpan(oldPointer)} | ` +
+      `${codeSpan(newPointer)} |\n`
+  );
+
+  return "| Change | Old | New |\n| --- | --- | --- |\n" + rows.join("");
+}
+
+function describePointer(pointer: string): string {
+  return pointer === "" ? "the root" : pointer;
+}
+
+// escapeMarkdown escapes the characters in text that Markdown would otherwise
+// treat as formatting, including the | that separates table cells.
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>|~]/g, "\\$&");
+}
+
+// codeSpan returns a Markdown code span of a JSON Pointer. The root is shown
+// as "(root)" instead, because an empty code span would be confusing.
+function codeSpan(pointer: string): string {
+  if (pointer === "") {
+    return "(root)";
+  }
+
+  // A code span is delimited by a run of backticks longer than any in it. In
+  // a table, | still has to be escaped, even in a code span.
+  const longest = Math.max(
+    0,
+    ...(pointer.match(/`+/g) || []).map((run) => run.length)
+  );
+  const fence = "`".repeat(longest + 1);
+  const padding = pointer.startsWith("`") || pointer.endsWith("`") ? " " : "";
+
+  return fence + padding + pointer.replace(/\|/g, "\\|") + padding + fence;
+}
+
+function propertiesOf(schema: {
+  properties?: { [name: string]: Schema };
+  optionalProperties?: { [name: string]: Schema };
+}): { [name: string]: [string, Schema] } {
+  const result = {};
+  for (const keyword of ["properties", "optionalProperties"] as const) {
+    for (const [name, subSchema] of Object.entries(schema[keyword] || {})) {
+      setOwn(result, name, [keyword, subSchema]);
+    }
+  }
+
+  return result;
+}
+
+function requiredness(keyword: string): string {
+  return keyword === "properties" ? "required" : "optional";
+}
+
+// sameSchema returns whether two schemas are the same, if the definitions in
+// renames are renamed.
+function sameSchema(
+  renames: { [name: string]: string },
+  a: unknown,
+  b: unknown
+): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return deepEqual(a, b);
+  }
+
+  if (!isObject(a) || !isObject(b)) {
+    return a === b;
+  }
+
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) {
+    return false;
+  }
+
+  return keys.every((key) => {
+    if (!hasOwn(b, key)) {
+      return false;
+    }
+
+    if (key === "ref" && typeof a.ref === "string") {
+      return (hasOwn(renames, a.ref) ? renames[a.ref] : a.ref) === b.ref;
+    }
+
+    // Metadata is arbitrary data, which may have a key named "ref".
+    if (key === "metadata") {
+      return deepEqual(a[key], b[key]);
+    }
+
+    return sameSchema(renames, a[key], b[key]);
+  });
+}
+
+// deepEqual returns whether two pieces of JSON data are the same, regardless
+// of the order of keys in their objects.
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length &&
+      a.every((value, index) => deepEqual(value, b[index]))
+    );
+  }
+
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => hasOwn(b, key) && deepEqual(a[key], b[key]))
+    );
+  }
+
+  return a === b;
+}
+
+// union returns the values in a, followed by those in b that aren't in a.
+function union(a: string[], b: string[]): string[] {
+  return [...a, ...b.filter((value) => !a.includes(value))];
+}
@@ -0,0 +1,120 @@
+import { Schema, formatErrors, validate } from "./index";
+
+function messages(schema: Schema, instance: unknown): string[] {
+  return formatErrors(schema, instance, validate(schema, instance)).map(
+    (error) => error.message
+  );
+}
+
+describe("formatErrors", () => {
+  it("describes type errors", () => {
+    const schema: Schema = {
+      properties: {
+        items: { elements: { type: "uint8" } },
+        at: { type: "timestamp" },
+        ok: { type: "boolean" },
+      },
+    };
+
+    expect(
+      messages(schema, { items: [1, 300, 1.5, "x"], at: "yesterday", ok: 1 })
+    ).toEqual([
+      "expected uint8 at /items/1, got 300 (must be between 0 and 255)",
+      "expected uint8 at /items/2, got non-integer 1.5",
+      'expected uint8 at /items/3, got "x"',
+      'expected RFC3339 timestamp at /at, got "yesterday"',
+      "expected boolean at /ok, got 1",
+    ]);
+
+    expect(messages(schema, [])).toEqual(["expected object at root, got array"]);
+  });
+
+  it("describes enum errors", () => {
+    expect(messages({ enum: ["a", "b"] }, "c")).toEqual([
+      'expected one of "a", "b" at root, got "c"',
+    ]);
+  });
+
+  it("describes property errors", () => {
+    const schema: Schema = {
+      properties: { a: { properties: {} } },
+      optionalProperties: { "b/c": { values: { type: "string" } } },
+    };
+
+    expect(messages(schema, { a: { a: {} }, "b/c": 3, d: null })).toEqual([
+      'unexpected property "a" at /a/a',
+      "expected object at /b~1c, got 3",
+      'unexpected property "d" at /d',
+    ]);
+
+    expect(messages(schema, { "b/c": { x: 1 } })).toEqual([
+      'missing required property "a" at root',
+      "expected string at /b~1c/x, got 1",
+    ]);
+  });
+
+  it("describes discriminator errors", () => {
+    const schema: Schema = {
+      properties: {
+        kind: {
+          discriminator: "kind",
+          mapping: { a: { properties: {} }, b: { properties: {} } },
+        },
+      },
+    };
+
+    expect(messages(schema, { kind: { kind: "c" } })).toEqual([
+      'expected one of "a", "b" at /kind/kind, got "c"',
+    ]);
+    expect(messages(schema, { kind: { kind: 1 } })).toEqual([
+      "expected string discriminator at /kind/kind, got 1",
+    ]);
+    expect(messages(schema, { kind: {} })).toEqual([
+      'missing discriminator property "kind" at /kind',
+    ]);
+    expect(messages(schema, { kind: "a" })).toEqual([
+      'expected object at /kind, got "a"',
+    ]);
+  });
+
+  it("describes errors within definitions", () => {
+    const schema: Schema = {
+      definitions: {
+        node: {
+          properties: { value: { type: "int8" } },
+          optionalProperties: { next: { ref: "node" } },
+        },
+      },
+      ref: "node",
+    };
+
+    const instance = { value: 1, next: { value: 1, next: { next: {} } } };
+    const errors = formatErrors(schema, instance, validate(schema, instance));
+
+    expect(errors.map(({ kind, property }) => ({ kind, property }))).toEqual([
+      { kind: "missing_property", property: "value" },
+      { kind: "missing_property", property: "value" },
+    ]);
+  });
+
+  it("supports custom messages", () => {
+    const schema: Schema = { properties: { a: { type: "string" } } };
+    const errors = formatErrors(schema, {}, validate(schema, {}), {
+      messages: {
+        missing_property: ({ property }) => `Eigenschaft fehlt: ${property}`,
+      },
+    });
+
+    expect(errors).toEqual([
+      {
+        instancePath: [],
+        schemaPath: ["properties", "a"],
+        instancePointer: "",
+        kind: "missing_property",
+        value: undefined,
+        property: "a",
+        message: "Eigenschaft fehlt: a",
+      },
+    ]);
+  });
+});
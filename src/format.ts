@@ -0,0 +1,506 @@
+/**
+ * Module format provides human-readable messages for validation errors.
+ *
+ * The most important function in this module is {@link formatErrors}, which
+ * takes the errors returned from {@link validate} and works out what kind of
+ * problem each error represents. You can customize, or translate, the messages
+ * it produces by passing it a {@link MessageCatalog}.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  Schema,
+  isDiscriminatorForm,
+  isElementsForm,
+  isEnumForm,
+  isPropertiesForm,
+  isTypeForm,
+  isValuesForm,
+} from "./schema";
+import { encodePointer, resolvePointer } from "./pointer";
+import { INT_RANGES } from "./typecheck";
+import { ValidationError } from "./validate";
+import { hasOwn, isObject } from "./objects";
+
+/**
+ * ValidationErrorKind represents the kinds of problems a
+ * {@link ValidationError} can represent.
+ *
+ * * `wrong_type`: the input is not of the expected JSON type
+ * * `not_integer`: the input should be an integer, but has a fractional part
+ * * `out_of_range`: the input is an integer, but is outside the range of its
+ *   type
+ * * `invalid_timestamp`: the input is a string, but not an RFC3339 timestamp
+ * * `not_in_enum`: the input is not one of the values of an enum
+ * * `missing_property`: a required property is missing
+ * * `additional_property`: a property is not mentioned by the schema
+ * * `missing_discriminator`: the discriminator property is missing
+ * * `discriminator_not_string`: the discriminator property is not a string
+ * * `unknown_discriminator_tag`: the discriminator property is not one of the
+ *   values in the mapping
+ */
+export type ValidationErrorKind =
+  | "wrong_type"
+  | "not_integer"
+  | "out_of_range"
+  | "invalid_timestamp"
+  | "not_in_enum"
+  | "missing_property"
+  | "additional_property"
+  | "missing_discriminator"
+  | "discriminator_not_string"
+  | "unknown_discriminator_tag";
+
+/**
+ * ValidationErrorDetails describes a {@link ValidationError} in terms of the
+ * schema and instance it came from.
+ */
+export interface ValidationErrorDetails extends ValidationError {
+  /**
+   * kind is the kind of problem the error represents.
+   */
+  kind: ValidationErrorKind;
+
+  /**
+   * instancePointer is instancePath as an RFC6901 JSON Pointer.
+   */
+  instancePointer: string;
+
+  /**
+   * value is the part of the instance at instancePath. It is undefined for
+   * missing properties.
+   */
+  value: unknown;
+
+  /**
+   * expected is what the schema expected. For `wrong_type`, `not_integer`,
+   * and `out_of_range`, this is either a value of the "type" keyword, or
+   * "array" or "object".
+   */
+  expected?: string;
+
+  /**
+   * property is the name of the relevant property, for errors about missing
+   * or additional properties, or about discriminators.
+   */
+  property?: string;
+
+  /**
+   * allowed is the list of permitted values, for `not_in_enum` and
+   * `unknown_discriminator_tag`.
+   */
+  allowed?: string[];
+
+  /**
+   * min is the smallest permitted value, for `out_of_range`.
+   */
+  min?: number;
+
+  /**
+   * max is the largest permitted value, for `out_of_range`.
+   */
+  max?: number;
+}
+
+/**
+ * FormattedError is a {@link ValidationErrorDetails} with a human-readable
+ * message.
+ */
+export interface FormattedError extends ValidationErrorDetails {
+  /**
+   * message is the human-readable message for the error.
+   */
+  message: string;
+}
+
+/**
+ * MessageCatalog contains a function to produce a message for each kind of
+ * validation error.
+ */
+export type MessageCatalog = {
+  [K in ValidationErrorKind]: (details: ValidationErrorDetails) => string;
+};
+
+/**
+ * FormatOptions represents options you can pass to {@link formatErrors}.
+ */
+export interface FormatOptions {
+  /**
+   * messages overrides the messages for some or all kinds of errors. Any kind
+   * not in messages will use {@link defaultMessages}.
+   */
+  messages?: Partial<MessageCatalog>;
+}
+
+/**
+ * defaultMessages is the {@link MessageCatalog} used by {@link formatErrors}
+ * by default. Its messages are in English.
+ */
+export const defaultMessages: MessageCatalog = {
+  wrong_type: ({ expected, instancePointer, value }) =>
+    `expected ${expected} at ${at(instancePointer)}, got ${describe(value)}`,
+  not_integer: ({ expected, instancePointer, value }) =>
+    `expected ${expected} at ${at(instancePointer)}, got non-integer ${value}`,
+  out_of_range: ({ expected, instancePointer, value, min, max }) =>
+    `expected ${expected} at ${at(instancePointer)}, got ${value} ` +
+    `(must be between ${min} and ${max})`,
+  invalid_timestamp: ({ instancePointer, value }) =>
+    `expected RFC3339 timestamp at ${at(instancePointer)}, ` +
+    `got ${describe(value)}`,
+  not_in_enum: ({ instancePointer, value, allowed }) =>
+    `expected one of ${list(allowed)} at ${at(instancePointer)}, ` +
+    `got ${describe(value)}`,
+  missing_property: ({ instancePointer, property }) =>
+    `missing required property ${JSON.stringify(property)} ` +
+    `at ${at(instancePointer)}`,
+  additional_property: ({ instancePointer, property }) =>
+    `unexpected property ${JSON.stringify(property)} ` +
+    `at ${at(instancePointer)}`,
+  missing_discriminator: ({ instancePointer, property }) =>
+    `missing discriminator property ${JSON.stringify(property)} ` +
+    `at ${at(instancePointer)}`,
+  discriminator_not_string: ({ instancePointer, value }) =>
+    `expected string discriminator at ${at(instancePointer)}, ` +
+    `got ${describe(value)}`,
+  unknown_discriminator_tag: ({ instancePointer, value, allowed }) =>
+    `expected one of ${list(allowed)} at ${at(instancePointer)}, ` +
+    `got ${describe(value)}`,
+};
+
+/**
+ * formatErrors produces human-readable messages for errors returned from
+ * {@link validate}.
+ *
+ * `schema` and `instance` must be the same schema and instance that were
+ * passed to {@link validate}. formatErrors uses them to work out the kind of
+ * each error, and to include the offending values in messages:
+ *
+ * ```ts
+ * const errors = validate(schema, instance);
+ *
+ * // e.g. "expected uint8 at /items/3, got 300 (must be between 0 and 255)"
+ * console.log(formatErrors(schema, instance, errors).map((e) => e.message));
+ * ```
+ *
+ * @param schema The schema the instance was validated against
+ * @param instance The "input" that was validated
+ * @param errors The errors returned from validate
+ * @param options Formatting options. Optional.
+ */
+export function formatErrors(
+  schema: Schema,
+  instance: unknown,
+  errors: ValidationError[],
+  options?: FormatOptions
+): FormattedError[] {
+  const messages = { ...defaultMessages, ...(options || {}).messages };
+
+  return errors.map((error) => {
+    const details = describeError(schema, instance, error);
+    return { ...details, message: messages[details.kind](details) };
+  });
+}
+
+// A Site is one possible explanation of a schemaPath: the schema node the
+// error came from, and what about that node rejected the input.
+//
+// A schemaPath alone is sometimes ambiguous. For example, ["properties", "a"]
+// may mean that "a" is missing, or that properties.a rejected an additional
+// property. Each Site records the instance tokens it implies, so we can check
+// which explanation agrees with the instancePath.
+interface Site {
+  schema: Schema;
+  keyword: string | null;
+  name?: string;
+
+  // The instance tokens the schemaPath consumed within its frame. A null
+  // token matches any token, such as an index into an array.
+  tokens: (string | null)[];
+
+  // The number of instance tokens the error adds after the schema node. For
+  // example, additional property errors add the name of the property.
+  extra: number;
+
+  // If set, the last instance token must be equal to this value.
+  extraToken?: string;
+}
+
+function describeError(
+  root: Schema,
+  instance: unknown,
+  error: ValidationError
+): ValidationErrorDetails {
+  const { instancePath, schemaPath } = error;
+  const { sites, rootFrame } = resolveSites(root, schemaPath);
+  const consistent = sites.filter((site) =>
+    agrees(site, instancePath, rootFrame)
+  );
+
+  const candidates = consistent.length === 0 ? sites : consistent;
+  const value = resolvePointer(instance, instancePath);
+  const site =
+    candidates.length === 1 ? candidates[0] : pick(candidates, value);
+
+  const base = {
+    instancePath,
+    schemaPath,
+    instancePointer: encodePointer(instancePath),
+    value,
+  };
+
+  const { schema, keyword } = site;
+
+  if (keyword === null) {
+    if (site.name !== undefined) {
+      return {
+        ...base,
+        kind: "missing_property",
+        value: undefined,
+        property: site.name,
+      };
+    }
+
+    return {
+      ...base,
+      kind: "additional_property",
+      property: instancePath[instancePath.length - 1],
+    };
+  }
+
+  if (keyword === "type" && isTypeForm(schema)) {
+    const expected = schema.type;
+
+    if (expected in INT_RANGES && typeof value === "number") {
+      const [min, max] = INT_RANGES[expected];
+      if (!Number.isInteger(value)) {
+        return { ...base, kind: "not_integer", expected };
+      }
+
+      return { ...base, kind: "out_of_range", expected, min, max };
+    }
+
+    if (expected === "timestamp" && typeof value === "string") {
+      return { ...base, kind: "invalid_timestamp", expected };
+    }
+
+    return { ...base, kind: "wrong_type", expected };
+  }
+
+  if (keyword === "enum" && isEnumForm(schema)) {
+    return { ...base, kind: "not_in_enum", allowed: [...schema.enum] };
+  }
+
+  if (keyword === "elements") {
+    return { ...base, kind: "wrong_type", expected: "array" };
+  }
+
+  if (keyword === "discriminator" && isDiscriminatorForm(schema)) {
+    const property = schema.discriminator;
+
+    if (site.extra === 1) {
+      return { ...base, kind: "discriminator_not_string", property };
+    }
+
+    if (isObject(value)) {
+      return { ...base, kind: "missing_discriminator", property };
+    }
+
+    return { ...base, kind: "wrong_type", expected: "object" };
+  }
+
+  if (keyword === "mapping" && isDiscriminatorForm(schema)) {
+    return {
+      ...base,
+      kind: "unknown_discriminator_tag",
+      property: schema.discriminator,
+      allowed: Object.keys(schema.mapping),
+    };
+  }
+
+  // The remaining keywords -- properties, optionalProperties, and values --
+  // only ever reject inputs that are not objects.
+  return { ...base, kind: "wrong_type", expected: "object" };
+}
+
+function resolveSites(
+  root: Schema,
+  schemaPath: string[]
+): { sites: Site[]; rootFrame: boolean } {
+  let schema: Schema | undefined = root;
+  let index = 0;
+
+  // Each ref starts a new frame, whose schemaPath is relative to a definition.
+  const rootFrame = schemaPath[0] !== "definitions";
+  if (!rootFrame) {
+    schema = child(root.definitions, schemaPath[1]);
+    index = 2;
+  }
+
+  const sites: Site[] = [];
+  const tokens: (string | null)[] = [];
+
+  while (schema !== undefined) {
+    const remaining = schemaPath.length - index;
+
+    if (remaining === 0) {
+      if (isPropertiesForm(schema)) {
+        sites.push({ schema, keyword: null, tokens: [...tokens], extra: 1 });
+      }
+
+      break;
+    }
+
+    const keyword = schemaPath[index];
+
+    if (remaining === 1) {
+      // A mapping error is always about the value of the discriminator
+      // property. A discriminator error may be about either that value, or
+      // the instance itself.
+      if (keyword !== "mapping") {
+        sites.push({ schema, keyword, tokens: [...tokens], extra: 0 });
+      }
+
+      if (keyword === "discriminator" || keyword === "mapping") {
+        sites.push({
+          schema,
+          keyword,
+          tokens: [...tokens],
+          extra: 1,
+          extraToken: isDiscriminatorForm(schema)
+            ? schema.discriminator
+            : undefined,
+        });
+      }
+
+      break;
+    }
+
+    const name = schemaPath[index + 1];
+
+    if (keyword === "elements") {
+      tokens.push(null);
+      schema = isElementsForm(schema) ? schema.elements : undefined;
+      index += 1;
+    } else if (keyword === "values") {
+      tokens.push(null);
+      schema = isValuesForm(schema) ? schema.values : undefined;
+      index += 1;
+    } else if (
+      (keyword === "properties" || keyword === "optionalProperties") &&
+      isPropertiesForm(schema)
+    ) {
+      if (keyword === "properties" && remaining === 2) {
+        sites.push({
+          schema,
+          keyword: null,
+          name,
+          tokens: [...tokens],
+          extra: 0,
+        });
+      }
+
+      tokens.push(name);
+      schema = child(schema[keyword], name);
+      index += 2;
+    } else if (keyword === "mapping" && isDiscriminatorForm(schema)) {
+      schema = child(schema.mapping, name);
+      index += 2;
+    } else {
+      break;
+    }
+  }
+
+  return { sites, rootFrame };
+}
+
+// child returns the schema with the given name in a set of schemas, such as
+// definitions or properties, if there is one.
+function child(
+  schemas: { [name: string]: Schema } | undefined,
+  name: string
+): Schema | undefined {
+  return schemas !== undefined && hasOwn(schemas, name)
+    ? schemas[name]
+    : undefined;
+}
+
+// agrees checks whether a site is consistent with an instancePath. Outside of
+// the root frame, we don't know how many instance tokens came before the
+// frame, so we can only check the tokens at the end of instancePath.
+function agrees(site: Site, instancePath: string[], rootFrame: boolean) {
+  const needed = site.tokens.length + site.extra;
+  if (instancePath.length < needed) {
+    return false;
+  }
+
+  if (rootFrame && instancePath.length !== needed) {
+    return false;
+  }
+
+  const offset = instancePath.length - needed;
+  for (const [index, token] of site.tokens.entries()) {
+    if (token !== null && token !== instancePath[offset + index]) {
+      return false;
+    }
+  }
+
+  if (site.extraToken !== undefined) {
+    return instancePath[instancePath.length - 1] === site.extraToken;
+  }
+
+  return true;
+}
+
+// pick chooses between sites that all agree with the instancePath, by looking
+// at the value at the end of the instancePath.
+function pick(sites: Site[], value: unknown): Site {
+  for (const site of sites) {
+    if (site.name !== undefined) {
+      // A missing property error points at an object without the property.
+      if (isObject(value) && !hasOwn(value, site.name)) {
+        return site;
+      }
+    } else if (site.keyword === "discriminator" && site.extra === 0) {
+      // A discriminator error about the instance itself points at something
+      // that isn't an object, or that lacks the discriminator property.
+      const tag = isDiscriminatorForm(site.schema)
+        ? site.schema.discriminator
+        : "";
+
+      if (!isObject(value) || !hasOwn(value, tag)) {
+        return site;
+      }
+    }
+  }
+
+  return sites[sites.length - 1];
+}
+
+function at(pointer: string): string {
+  return pointer === "" ? "root" : pointer;
+}
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+
+  if (Array.isArray(value)) {
+    return "array";
+  }
+
+  if (typeof value === "object") {
+    return "object";
+  }
+
+  if (typeof value === "string") {
+    return JSON.stringify(value);
+  }
+
+  return String(value);
+}
+
+function list(values: string[] | undefined): string {
+  return (values || []).map((value) => JSON.stringify(value)).join(", ");
+}
@@ -0,0 +1,124 @@
+import {
+  GenerateError,
+  Schema,
+  generate,
+  generateInvalid,
+  isRFC3339,
+  validate,
+} from "./index";
+
+describe("generate", () => {
+  const schema: Schema = {
+    definitions: {
+      node: {
+        properties: { value: { type: "int8" } },
+        optionalProperties: {
+          children: { elements: { ref: "node" } },
+          next: { ref: "node", nullable: true },
+        },
+      },
+    },
+    properties: {
+      root: { ref: "node" },
+      at: { type: "timestamp" },
+      counts: { values: { type: "uint32" } },
+      event: {
+        discriminator: "type",
+        mapping: {
+          a: { properties: { kind: { enum: ["x", "y"] } } },
+          b: { optionalProperties: { n: { type: "float32" } } },
+        },
+      },
+    },
+  };
+
+  it("generates instances that satisfy the schema", () => {
+    for (let seed = 0; seed < 100; seed++) {
+      const instance = generate(schema, { seed });
+      expect(validate(schema, instance)).toEqual([]);
+      expect(isRFC3339((instance as { at: string }).at)).toBe(true);
+    }
+  });
+
+  it("is deterministic", () => {
+    expect(generate(schema, { seed: 7 })).toEqual(generate(schema, { seed: 7 }));
+    expect(generate(schema, { seed: 7 })).not.toEqual(
+      generate(schema, { seed: 8 })
+    );
+  });
+
+  it("respects its options", () => {
+    const options = {
+      nullProbability: 1,
+      optionalProbability: 0,
+      maxElements: 0,
+    };
+
+    expect(
+      generate(
+        {
+          properties: { a: { type: "string", nullable: true } },
+          optionalProperties: { b: {} },
+        },
+        options
+      )
+    ).toEqual({ a: null });
+
+    expect(generate({ elements: {} }, options)).toEqual([]);
+  });
+
+  it("stops recursing at maxDepth", () => {
+    const instance = generate(schema, {
+      maxDepth: 0,
+      nullProbability: 0,
+      optionalProbability: 1,
+    });
+
+    expect((instance as { root: unknown }).root).toEqual({
+      value: expect.any(Number),
+    });
+  });
+
+  it("rejects schemas without finite instances", () => {
+    const infinite: Schema = {
+      definitions: { node: { properties: { next: { ref: "node" } } } },
+      ref: "node",
+    };
+
+    expect(() => generate(infinite)).toThrow(GenerateError);
+  });
+});
+
+describe("generateInvalid", () => {
+  it("generates instances with the given error", () => {
+    const schema: Schema = {
+      definitions: { id: { type: "uint16" } },
+      elements: {
+        discriminator: "type",
+        mapping: {
+          a: { properties: { id: { ref: "id" } } },
+          b: { properties: { tags: { values: { enum: ["x"] } } } },
+        },
+      },
+    };
+
+    for (let seed = 0; seed < 100; seed++) {
+      const { instance, error } = generateInvalid(schema, { seed });
+      expect(validate(schema, instance)).toEqual([error]);
+    }
+  });
+
+  it("rejects schemas that accept every instance", () => {
+    expect(() => generateInvalid({ metadata: {} })).toThrow(GenerateError);
+  });
+
+  it("can break null values", () => {
+    const schema: Schema = { values: { type: "string" }, nullable: true };
+    const options = { nullProbability: 1 };
+
+    expect(generateInvalid(schema, options)).toEqual({
+      instance: [],
+      error: { instancePath: [], schemaPath: ["values"] },
+    });
+  });
+});
@@ -0,0 +1,658 @@
+/**
+ * Module generate provides a way to generate random instances of JSON Typedef
+ * schemas, which is useful for writing tests.
+ *
+ * The most important function in this module is {@link generate}, which
+ * returns a random instance that satisfies a schema. {@link generateInvalid}
+ * returns an instance with exactly one thing wrong with it, together with the
+ * {@link ValidationError} that {@link validate} returns for it.
+ *
+ * Both functions are deterministic: the same schema and options always give
+ * the same instance.
+ *
+ * @packageDocumentation
+ */
+
+import { formatRFC3339, fromDate } from "./rfc3339";
+import {
+  Schema,
+  isRefForm,
+  isTypeForm,
+  isEnumForm,
+  isElementsForm,
+  isPropertiesForm,
+  isValuesForm,
+  isDiscriminatorForm,
+} from "./schema";
+import { INT_RANGES } from "./typecheck";
+import { ValidationError } from "./validate";
+import { hasOwn, setOwn } from "./objects";
+
+/**
+ * GenerateError is the error thrown when {@link generate} or
+ * {@link generateInvalid} cannot generate an instance of a schema.
+ */
+export class GenerateError extends Error {}
+
+/**
+ * GenerateOptions are the options you can pass to {@link generate} and
+ * {@link generateInvalid}.
+ */
+export interface GenerateOptions {
+  /**
+   * seed determines which random instance is generated. By default, seed is
+   * zero.
+   */
+  seed?: number;
+
+  /**
+   * maxDepth is the number of `ref`s that may be followed before the
+   * generator starts producing the smallest data it can. This is how
+   * recursive schemas are kept from producing huge instances.
+   *
+   * By default, maxDepth is 4.
+   */
+  maxDepth?: number;
+
+  /**
+   * nullProbability is the probability that null is produced where a schema
+   * is nullable. By default, nullProbability is 0.1.
+   */
+  nullProbability?: number;
+
+  /**
+   * optionalProbability is the probability that each optional property is
+   * produced. By default, optionalProbability is 0.5.
+   */
+  optionalProbability?: number;
+
+  /**
+   * maxElements is the largest number of elements produced for the elements
+   * form, and the largest number of values produced for the values form. By
+   * default, maxElements is 4.
+   */
+  maxElements?: number;
+}
+
+/**
+ * InvalidInstance is the result of {@link generateInvalid}.
+ */
+export interface InvalidInstance {
+  /**
+   * instance is the generated instance, which does not satisfy the schema.
+   */
+  instance: unknown;
+
+  /**
+   * error is the only error that {@link validate} returns for instance.
+   */
+  error: ValidationError;
+}
+
+/**
+ * generate returns a random instance that satisfies a JSON Typedef schema.
+ *
+ * ```ts
+ * const schema = {
+ *   properties: {
+ *     id: { type: "uint8" },
+ *     tags: { elements: { enum: ["a"] } },
+ *   },
+ * } as Schema;
+ *
+ * // Returns something like { id: 193, tags: ["a", "a"] }
+ * generate(schema, { seed: 42 });
+ * ```
+ *
+ * Throws {@link GenerateError} if no instance can satisfy the schema. That
+ * happens when a schema requires that the data contain itself, such as in
+ * this schema:
+ *
+ * ```json
+ * {
+ *   "definitions": { "node": { "properties": { "next": { "ref": "node" } } } },
+ *   "ref": "node"
+ * }
+ * ```
+ *
+ * generate assumes that `schema` is a correct schema. If you are handling
+ * untrusted schemas, check them with {@link isSchema} and
+ * {@link isValidSchema} first.
+ *
+ * @param schema The schema to generate an instance of
+ * @param options Generation options. Optional.
+ */
+export function generate(schema: Schema, options?: GenerateOptions): unknown {
+  return generateWithState(newState(schema, options), schema, false);
+}
+
+/**
+ * generateInvalid returns a random instance that does not satisfy a JSON
+ * Typedef schema, together with the error {@link validate} returns for it.
+ *
+ * The instance is one that {@link generate} could have returned, with one
+ * part of it changed so that validate returns exactly one error. For
+ * instance, a value may be replaced with one of the wrong type, a required
+ * property may be removed, or a property the schema does not allow may be
+ * added.
+ *
+ * ```ts
+ * const { instance, error } = generateInvalid(schema, { seed: 42 });
+ *
+ * expect(validate(schema, instance)).toEqual([error]);
+ * ```
+ *
+ * Throws {@link GenerateError} if no instance can satisfy the schema, or if
+ * every possible instance does.
+ *
+ * @param schema The schema to generate an instance for
+ * @param options Generation options. Optional.
+ */
+export function generateInvalid(
+  schema: Schema,
+  options?: GenerateOptions
+): InvalidInstance {
+  const state = newState(schema, options);
+  const root = { value: generateWithState(state, schema, false) };
+
+  const sites: Site[] = [];
+  findSites(state, schema, root, "value", [], [[]], sites);
+
+  if (sites.length === 0) {
+    throw new GenerateError("schema accepts every instance");
+  }
+
+  const error = pick(state, sites)();
+  return { instance: root.value, error };
+}
+
+interface GenerateState {
+  root: Schema;
+  random: () => number;
+  depth: number;
+  maxDepth: number;
+  nullProbability: number;
+  optionalProbability: number;
+  maxElements: number;
+
+  // ranks holds the rank of each definition. See rankOf.
+  ranks: { [name: string]: number };
+}
+
+// A Site is a part of an instance that generateInvalid can break. Calling it
+// breaks the instance and returns the resulting error.
+type Site = () => ValidationError;
+
+function newState(schema: Schema, options: GenerateOptions = {}) {
+  const state: GenerateState = {
+    root: schema,
+    random: mulberry32(options.seed || 0),
+    depth: 0,
+    maxDepth: options.maxDepth === undefined ? 4 : options.maxDepth,
+    nullProbability:
+      options.nullProbability === undefined ? 0.1 : options.nullProbability,
+    optionalProbability:
+      options.optionalProbability === undefined
+        ? 0.5
+        : options.optionalProbability,
+    maxElements: options.maxElements === undefined ? 4 : options.maxElements,
+    ranks: rankDefinitions(schema),
+  };
+
+  if (rankOf(state, schema) === Infinity) {
+    throw new GenerateError("no finite instance satisfies the schema");
+  }
+
+  return state;
+}
+
+// rankOf returns how deeply nested the smallest instance of a schema is, or
+// Infinity if the schema has no finite instances at all.
+//
+// Every choice generate makes leads to something of a finite rank. Once
+// generate is out of depth, it only makes choices that lead to something of a
+// smaller rank, which guarantees it finishes.
+function rankOf(state: GenerateState, schema: Schema): number {
+  return schema.nullable ? 0 : formRankOf(state.ranks, schema);
+}
+
+// formRankOf returns the rank of a schema, ignoring whether it's nullable.
+function formRankOf(ranks: { [name: string]: number }, schema: Schema): number {
+  if (isRefForm(schema)) {
+    return ranks[schema.ref] + 1;
+  }
+
+  if (isPropertiesForm(schema)) {
+    let rank = 0;
+    for (const subSchema of Object.values(schema.properties || {})) {
+      const subRank = subSchema.nullable ? 0 : formRankOf(ranks, subSchema);
+      rank = Math.max(rank, subRank + 1);
+    }
+
+    return rank;
+  }
+
+  if (isDiscriminatorForm(schema)) {
+    let rank = Infinity;
+    for (const subSchema of Object.values(schema.mapping)) {
+      rank = Math.min(rank, formRankOf(ranks, subSchema) + 1);
+    }
+
+    return rank;
+  }
+
+  // All other forms have instances that don't contain any other data.
+  return 0;
+}
+
+// rankDefinitions returns the rank of every definition in a root schema.
+function rankDefinitions(root: Schema): { [name: string]: number } {
+  const definitions = root.definitions || {};
+  const ranks: { [name: string]: number } = {};
+  for (const name of Object.keys(definitions)) {
+    setOwn(ranks, name, Infinity);
+  }
+
+  // Ranks only ever go down, so this will eventually stop changing.
+  let changed = true;
+  while (changed) {
+    changed = false;
+
+    for (const [name, schema] of Object.entries(definitions)) {
+      const rank = schema.nullable ? 0 : formRankOf(ranks, schema);
+      if (rank < ranks[name]) {
+        setOwn(ranks, name, rank);
+        changed = true;
+      }
+    }
+  }
+
+  return ranks;
+}
+
+// generateWithState returns a random instance of a schema. If minimal is true,
+// then it returns an instance of as small a rank as possible.
+function generateWithState(
+  state: GenerateState,
+  schema: Schema,
+  minimal: boolean
+): unknown {
+  if (schema.nullable) {
+    if (
+      minimal ||
+      formRankOf(state.ranks, schema) === Infinity ||
+      state.random() < state.nullProbability
+    ) {
+      return null;
+    }
+  }
+
+  if (isRefForm(schema)) {
+    state.depth++;
+    const value = generateWithState(
+      state,
+      state.root.definitions![schema.ref],
+      minimal || state.depth > state.maxDepth
+    );
+    state.depth--;
+
+    return value;
+  }
+
+  if (isTypeForm(schema)) {
+    return generateType(state, schema.type);
+  }
+
+  if (isEnumForm(schema)) {
+    return pick(state, schema.enum);
+  }
+
+  if (isElementsForm(schema)) {
+    const value: unknown[] = [];
+    if (!minimal && rankOf(state, schema.elements) !== Infinity) {
+      const length = randomInt(state, 0, state.maxElements);
+      for (let i = 0; i < length; i++) {
+        value.push(generateWithState(state, schema.elements, false));
+      }
+    }
+
+    return value;
+  }
+
+  if (isPropertiesForm(schema)) {
+    const value = {};
+
+    for (const [name, subSchema] of Object.entries(schema.properties || {})) {
+      setOwn(value, name, generateWithState(state, subSchema, minimal));
+    }
+
+    if (!minimal) {
+      for (const [name, subSchema] of Object.entries(
+        schema.optionalProperties || {}
+      )) {
+        if (
+          rankOf(state, subSchema) !== Infinity &&
+          state.random() < state.optionalProbability
+        ) {
+          setOwn(value, name, generateWithState(state, subSchema, false));
+        }
+      }
+    }
+
+    return value;
+  }
+
+  if (isValuesForm(schema)) {
+    const value = {};
+    if (!minimal && rankOf(state, schema.values) !== Infinity) {
+      const length = randomInt(state, 0, state.maxElements);
+      for (let i = 0; i < length; i++) {
+        setOwn(
+          value,
+          randomString(state),
+          generateWithState(state, schema.values, false)
+        );
+      }
+    }
+
+    return value;
+  }
+
+  if (isDiscriminatorForm(schema)) {
+    const ranks = Object.entries(schema.mapping).map(
+      ([tag, subSchema]) =>
+        [tag, formRankOf(state.ranks, subSchema)] as [string, number]
+    );
+
+    let tag: string;
+    if (minimal) {
+      tag = ranks.reduce((a, b) => (b[1] < a[1] ? b : a))[0];
+    } else {
+      tag = pick(state, ranks.filter(([, rank]) => rank !== Infinity))[0];
+    }
+
+    // The tag is the first property in the generated object.
+    const value = {};
+    setOwn(value, schema.discriminator, tag);
+
+    const fields = generateWithState(state, schema.mapping[tag], minimal);
+    for (const [name, subValue] of Object.entries(fields as object)) {
+      setOwn(value, name, subValue);
+    }
+
+    return value;
+  }
+
+  // The empty form accepts any data.
+  return pick(state, [
+    () => null,
+    () => state.random() < 0.5,
+    () => randomInt(state, -1000, 1000),
+    () => randomString(state),
+  ])();
+}
+
+function generateType(state: GenerateState, type: string): unknown {
+  switch (type) {
+    case "boolean":
+      return state.random() < 0.5;
+    case "float32":
+      return Math.fround((state.random() - 0.5) * 2000);
+    case "float64":
+      return (state.random() - 0.5) * 2000000;
+    case "string":
+      return randomString(state);
+    case "timestamp": {
+      // Between 1970 and 2100, with an offset of a whole number of quarter
+      // hours between -12:00 and +14:00.
+      const millis = Math.floor(state.random() * 4102444800000);
+      const offset = randomInt(state, -48, 56) * 15;
+      const precision = pick(state, [0, 3]);
+
+      return formatRFC3339(fromDate(new Date(millis), offset), { precision });
+    }
+    default: {
+      const [min, max] = INT_RANGES[type];
+      return randomInt(state, min, max);
+    }
+  }
+}
+
+// findSites adds a Site to `sites` for each way of breaking the value at
+// parent[key], which is an instance of schema. parent is either an array or
+// an object.
+function findSites(
+  state: GenerateState,
+  schema: Schema,
+  parent: unknown[] | { [name: string]: unknown },
+  key: string,
+  instancePath: string[],
+  schemaPaths: string[][],
+  sites: Site[],
+  parentTag?: string
+) {
+  const value = Array.isArray(parent) ? parent[Number(key)] : parent[key];
+  const schemaPath = schemaPaths[schemaPaths.length - 1];
+  const error = (instanceTokens: string[], schemaTokens: string[]) => ({
+    instancePath: [...instancePath, ...instanceTokens],
+    schemaPath: [...schemaPath, ...schemaTokens],
+  });
+
+  // replace returns a Site that replaces the value with another.
+  const replace = (other: () => unknown, schemaTokens: string[]) => () => {
+    setOwn(parent, key, other());
+    return error([], schemaTokens);
+  };
+
+  // Each form can be broken by replacing the value with something of the wrong
+  // kind. If the value is null, then that's all that can be done.
+  if (isRefForm(schema)) {
+    // Only null satisfies a chain of refs that loops back on itself, and no
+    // other value can be validated against it at all.
+    const seen = new Set<string>();
+    const refPaths = [...schemaPaths];
+    let target: Schema = schema;
+    while (isRefForm(target)) {
+      if (seen.has(target.ref)) {
+        return;
+      }
+
+      seen.add(target.ref);
+      refPaths.push(["definitions", target.ref]);
+      target = state.root.definitions![target.ref];
+    }
+
+    findSites(state, target, parent, key, instancePath, refPaths, sites);
+  } else if (isTypeForm(schema)) {
+    const wrong = schema.type === "string" ? () => 0 : () => "x";
+    sites.push(replace(wrong, ["type"]));
+
+    if (hasOwn(INT_RANGES, schema.type)) {
+      const [min, max] = INT_RANGES[schema.type];
+      sites.push(replace(() => pick(state, [min - 1, max + 1, 0.5]), ["type"]));
+    }
+  } else if (isEnumForm(schema)) {
+    const values = schema.enum;
+    const wrong = () => {
+      let other = randomString(state);
+      while (values.includes(other)) {
+        other += "x";
+      }
+
+      return other;
+    };
+
+    sites.push(replace(wrong, ["enum"]));
+  } else if (isElementsForm(schema)) {
+    sites.push(replace(() => ({}), ["elements"]));
+    if (value === null) {
+      return;
+    }
+
+    const elements = value as unknown[];
+    for (let i = 0; i < elements.length; i++) {
+      findSites(
+        state,
+        schema.elements,
+        elements,
+        i.toString(),
+        [...instancePath, i.toString()],
+        [...schemaPaths.slice(0, -1), [...schemaPath, "elements"]],
+        sites
+      );
+    }
+  } else if (isPropertiesForm(schema)) {
+    const object = value as { [name: string]: unknown };
+    const properties = schema.properties || {};
+    const optionalProperties = schema.optionalProperties || {};
+
+    // If this object is the mapping of a discriminator, then replacing it
+    // would be an error with the discriminator instead.
+    if (parentTag === undefined) {
+      sites.push(
+        replace(
+          () => [],
+          [schema.properties ? "properties" : "optionalProperties"]
+        )
+      );
+    }
+
+    if (value === null) {
+      return;
+    }
+
+    for (const name of Object.keys(properties)) {
+      sites.push(() => {
+        delete object[name];
+        return error([], ["properties", name]);
+      });
+    }
+
+    if (!schema.additionalProperties) {
+      sites.push(() => {
+        let name = randomString(state);
+        while (
+          hasOwn(properties, name) ||
+          hasOwn(optionalProperties, name) ||
+          name === parentTag ||
+          hasOwn(object, name)
+        ) {
+          name += "x";
+        }
+
+        setOwn(object, name, null);
+        return error([name], []);
+      });
+    }
+
+    for (const [keyword, subSchemas] of [
+      ["properties", properties],
+      ["optionalProperties", optionalProperties],
+    ] as [string, { [name: string]: Schema }][]) {
+      for (const [name, subSchema] of Object.entries(subSchemas)) {
+        if (hasOwn(object, name)) {
+          findSites(
+            state,
+            subSchema,
+            object,
+            name,
+            [...instancePath, name],
+            [...schemaPaths.slice(0, -1), [...schemaPath, keyword, name]],
+            sites
+          );
+        }
+      }
+    }
+  } else if (isValuesForm(schema)) {
+    sites.push(replace(() => [], ["values"]));
+    if (value === null) {
+      return;
+    }
+
+    const object = value as { [name: string]: unknown };
+    for (const name of Object.keys(object)) {
+      findSites(
+        state,
+        schema.values,
+        object,
+        name,
+        [...instancePath, name],
+        [...schemaPaths.slice(0, -1), [...schemaPath, "values"]],
+        sites
+      );
+    }
+  } else if (isDiscriminatorForm(schema)) {
+    sites.push(replace(() => [], ["discriminator"]));
+    if (value === null) {
+      return;
+    }
+
+    const object = value as { [name: string]: unknown };
+    const tag = object[schema.discriminator] as string;
+
+    sites.push(() => {
+      delete object[schema.discriminator];
+      return error([], ["discriminator"]);
+    });
+
+    sites.push(() => {
+      let other = randomString(state);
+      while (hasOwn(schema.mapping, other)) {
+        other += "x";
+      }
+
+      setOwn(object, schema.discriminator, other);
+      return error([schema.discriminator], ["mapping"]);
+    });
+
+    findSites(
+      state,
+      schema.mapping[tag],
+      parent,
+      key,
+      instancePath,
+      [...schemaPaths.slice(0, -1), [...schemaPath, "mapping", tag]],
+      sites,
+      schema.discriminator
+    );
+  }
+
+  // The empty form accepts any data, so there's nothing that can be broken.
+}
+
+// mulberry32 returns a function that returns pseudo-random numbers between 0
+// (inclusive) and 1 (exclusive), starting from seed.
+//
+// See: https://gist.github.com/tommyettinger/46a874533244883189143505d203312c
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// randomInt returns a random integer between min and max, inclusive.
+function randomInt(state: GenerateState, min: number, max: number): number {
+  return min + Math.floor(state.random() * (max - min + 1));
+}
+
+function randomString(state: GenerateState): string {
+  const length = randomInt(state, 0, 8);
+  let s = "";
+  for (let i = 0; i < length; i++) {
+    s += ALPHABET[randomInt(state, 0, ALPHABET.length - 1)];
+  }
+
+  return s;
+}
+
+const ALPHABET =
+  "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+
+function pick<T>(state: GenerateState, values: readonly T[]): T {
+  return values[randomInt(state, 0, values.length - 1)];
+}
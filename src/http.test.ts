@@ -0,0 +1,288 @@
+import {
+  IncomingMessage,
+  Server,
+  ServerResponse,
+  createServer,
+  request,
+} from "http";
+import { AddressInfo } from "net";
+import {
+  HTTPValidationOptions,
+  ResponseValidationError,
+  RouteSchemas,
+  Schema,
+  validateRoute,
+  withValidation,
+} from "./index";
+
+describe("validateRoute", () => {
+  const user: Schema = {
+    properties: { name: { type: "string" }, age: { type: "uint8" } },
+  };
+
+  const query: Schema = {
+    optionalProperties: {
+      page: { type: "uint8" },
+      tag: { elements: { type: "string" } },
+    },
+  };
+
+  let server: Server | undefined;
+
+  afterEach((done) => {
+    if (server === undefined) {
+      done();
+    } else {
+      server.close(done);
+      server = undefined;
+    }
+  });
+
+  // serve starts a server that validates requests for a route, and responds
+  // to valid ones by calling handler. It returns a function to send requests
+  // to the server.
+  async function serve(
+    route: RouteSchemas,
+    options: HTTPValidationOptions,
+    handler: (req: IncomingMessage, res: ServerResponse) => void
+  ) {
+    const listener = createServer(withValidation(route, handler, options));
+    await new Promise((resolve) => listener.listen(0, "127.0.0.1", resolve));
+    server = listener;
+
+    const { port } = listener.address() as AddressInfo;
+    return (method: string, path: string, body?: string) =>
+      new Promise<{ status: number; type: unknown; body: string }>(
+        (resolve, reject) => {
+          const req = request(
+            { host: "127.0.0.1", port, method, path },
+            (res) => {
+              const chunks: Buffer[] = [];
+              res.on("data", (chunk) => chunks.push(chunk));
+              res.on("end", () =>
+                resolve({
+                  status: res.statusCode!,
+                  type: res.headers["content-type"],
+                  body: Buffer.concat(chunks).toString("utf8"),
+                })
+              );
+            }
+          );
+
+          req.on("error", reject);
+          req.end(body);
+        }
+      );
+  }
+
+  function echo(req: IncomingMessage, res: ServerResponse) {
+    const { body, query } = req as { body?: unknown; query?: unknown };
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify({ body, query }));
+  }
+
+  it("passes valid requests on with parsed values", async () => {
+    const send = await serve({ body: user, query }, {}, echo);
+
+    expect(
+      await send("POST", "/?page=2&tag=a&tag=b+c", '{"name":"a","age":1}')
+    ).toEqual({
+      status: 200,
+      type: "application/json",
+      body: JSON.stringify({
+        body: { name: "a", age: 1 },
+        query: { page: 2, tag: ["a", "b c"] },
+      }),
+    });
+  });
+
+  it("only splits query parameters at their first = sign", async () => {
+    const send = await serve({ query }, {}, echo);
+
+    const res = await send("GET", "/?tag=YWJj==&tag=a=b");
+    expect(JSON.parse(res.body)).toEqual({
+      query: { tag: ["YWJj==", "a=b"] },
+    });
+  });
+
+  it("rejects invalid requests with problem details", async () => {
+    const send = await serve({ body: user, query }, {}, echo);
+    const res = await send("POST", "/?page=300", '{"name":"a","age":"1"}');
+
+    expect(res.status).toEqual(400);
+    expect(res.type).toEqual("application/problem+json");
+    expect(JSON.parse(res.body)).toEqual({
+      type: "about:blank",
+      title: "Bad Request",
+      status: 400,
+      detail: "The request does not match its schema.",
+      errors: [
+        {
+          location: "query",
+          instancePointer: "/page",
+          schemaPointer: "/optionalProperties/page/type",
+          message: 'expected uint8 at /page, got "300"',
+        },
+        {
+          location: "body",
+          instancePointer: "/age",
+          schemaPointer: "/properties/age/type",
+          message: 'expected uint8 at /age, got "1"',
+        },
+      ],
+    });
+  });
+
+  it("rejects bodies that are not JSON or too large", async () => {
+    const send = await serve(
+      { body: user, query },
+      { maxBodyBytes: 32 },
+      echo
+    );
+
+    // Only requests that don't match their schema have errors, even if the
+    // query is invalid too.
+    const invalid = await send("POST", "/?page=300", "{");
+    expect(invalid.status).toEqual(400);
+    expect(JSON.parse(invalid.body)).toEqual({
+      type: "about:blank",
+      title: "Bad Request",
+      status: 400,
+      detail: "The request body is not valid JSON.",
+      errors: [],
+    });
+
+    const large = await send(
+      "POST",
+      "/?page=300",
+      `{"name":"${"a".repeat(64)}"}`
+    );
+
+    expect(large.status).toEqual(413);
+    expect(JSON.parse(large.body)).toEqual({
+      type: "about:blank",
+      title: "Payload Too Large",
+      status: 413,
+      detail: "The request body is too large.",
+      errors: [],
+    });
+  });
+
+  it("supports custom problem details", async () => {
+    const send = await serve(
+      { body: user },
+      {
+        problemDetails: ({ status, errors }) => ({
+          code: status,
+          fields: errors.map((error) => error.instancePath.join(".")),
+        }),
+      },
+      echo
+    );
+
+    expect(await send("POST", "/", '{"name":1}')).toEqual({
+      status: 400,
+      type: "application/problem+json",
+      body: JSON.stringify({ code: 400, fields: ["name", ""] }),
+    });
+  });
+
+  it("uses bodies parsed by earlier middleware", () => {
+    const middleware = validateRoute({ body: user });
+    const req = { url: "/", body: { name: "a", age: 1 } };
+    const next = jest.fn();
+
+    middleware(
+      (req as unknown) as IncomingMessage,
+      ({} as unknown) as ServerResponse,
+      next
+    );
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it("asserts responses in development", async () => {
+    let thrown: unknown;
+    const send = await serve(
+      { response: user },
+      { assertResponses: true },
+      (req, res) => {
+        try {
+          res.write('{"name":');
+          res.end(req.url === "/valid" ? '"a","age":1}' : '"a"}');
+        } catch (err) {
+          thrown = err;
+          res.statusCode = 500;
+          res.end("{}");
+        }
+      }
+    );
+
+    expect(await send("GET", "/valid")).toEqual({
+      status: 200,
+      type: undefined,
+      body: '{"name":"a","age":1}',
+    });
+
+    expect(thrown).toBeUndefined();
+
+    expect((await send("GET", "/invalid")).status).toEqual(500);
+    expect(thrown).toEqual(
+      new ResponseValidationError(
+        'response does not match its schema: missing required property "age" ' +
+          "at root",
+        [{ instancePath: [], schemaPath: ["properties", "age"] }]
+      )
+    );
+  });
+
+  it("sends a response before throwing on invalid responses", async () => {
+    let thrown: unknown;
+    const send = await serve(
+      { response: user },
+      { assertResponses: true },
+      (req, res) => {
+        res.setHeader("Content-Type", "application/json");
+        setImmediate(() => {
+          try {
+            res.end('{"name":"a"}');
+          } catch (err) {
+            thrown = err;
+          }
+        });
+      }
+    );
+
+    expect(await send("GET", "/")).toEqual({
+      status: 500,
+      type: undefined,
+      body: "",
+    });
+
+    expect(thrown).toBeInstanceOf(ResponseValidationError);
+  });
+
+  it("does not assert empty responses", async () => {
+    const send = await serve(
+      { response: user },
+      { assertResponses: true },
+      (req, res) => {
+        res.statusCode = req.method === "HEAD" ? 200 : 201;
+        res.setHeader("Content-Type", "application/json");
+        res.end();
+      }
+    );
+
+    expect(await send("HEAD", "/")).toEqual({
+      status: 200,
+      type: "application/json",
+      body: "",
+    });
+
+    expect(await send("POST", "/")).toEqual({
+      status: 201,
+      type: "application/json",
+      body: "",
+    });
+  });
+});
@@ -0,0 +1,574 @@
+/**
+ * Module http provides middleware that validates HTTP requests and responses
+ * against JSON Typedef schemas.
+ *
+ * The middleware works with Node's `http` module, and with any framework that
+ * supports connect-style `(req, res, next)` middleware, such as Express. The
+ * most important function in this module is {@link validateRoute}, which
+ * returns such middleware for a {@link RouteSchemas}.
+ *
+ * @packageDocumentation
+ */
+
+import { IncomingMessage, ServerResponse } from "http";
+import { coerce } from "./coerce";
+import { formatErrors } from "./format";
+import { encodePointer } from "./pointer";
+import { Schema } from "./schema";
+import { ValidationConfig, ValidationError, validate } from "./validate";
+import { hasOwn, setOwn } from "./objects";
+
+/**
+ * RouteSchemas are the schemas for the requests and responses of a route.
+ * Any of them may be left out, in which case that part of the request or
+ * response is not checked.
+ */
+export interface RouteSchemas {
+  /**
+   * body is the schema for the JSON request body.
+   */
+  body?: Schema;
+
+  /**
+   * query is the schema for the query parameters. Query parameters are
+   * strings, so they are converted with {@link coerce} before they are
+   * validated. A parameter that appears more than once is an array of
+   * strings.
+   */
+  query?: Schema;
+
+  /**
+   * response is the schema for the JSON body of successful (2xx) responses.
+   * It is only checked if {@link HTTPValidationOptions.assertResponses} is
+   * true.
+   */
+  response?: Schema;
+}
+
+/**
+ * HTTPValidationOptions are the options you can pass to
+ * {@link validateRoute} and {@link withValidation}.
+ */
+export interface HTTPValidationOptions {
+  /**
+   * config is the configuration to validate requests and responses with. By
+   * default, all errors are reported, and there is no maximum depth.
+   */
+  config?: ValidationConfig;
+
+  /**
+   * maxBodyBytes is the largest request body, in bytes, that will be read.
+   * Larger bodies are rejected with a 413 response. By default, maxBodyBytes
+   * is 1 MiB.
+   */
+  maxBodyBytes?: number;
+
+  /**
+   * problemDetails builds the body of responses to invalid requests. By
+   * default, this is {@link defaultProblemDetails}.
+   */
+  problemDetails?: (problem: Problem) => object;
+
+  /**
+   * assertResponses is whether to check the bodies of successful responses
+   * against {@link RouteSchemas.response}. If a response body does not match,
+   * `res.end` sends a 500 response with an empty body instead, and then throws
+   * {@link ResponseValidationError}. Empty bodies, such as those of responses
+   * to HEAD requests, are not checked.
+   *
+   * This is meant to catch bugs in development and testing. Checking
+   * responses means holding on to the whole response body until it ends, so
+   * you may not want it in production. By default, assertResponses is false.
+   */
+  assertResponses?: boolean;
+}
+
+/**
+ * Problem describes why a request was rejected.
+ */
+export interface Problem {
+  /**
+   * status is the HTTP status code of the response.
+   */
+  status: number;
+
+  /**
+   * title is a short, human-readable summary of the kind of problem.
+   */
+  title: string;
+
+  /**
+   * detail is a human-readable explanation of this occurrence of the problem.
+   */
+  detail: string;
+
+  /**
+   * errors are the validation errors in the request. It is empty if the
+   * request was rejected for another reason, such as its body not being JSON.
+   */
+  errors: RequestValidationError[];
+}
+
+/**
+ * RequestValidationError is a {@link ValidationError} in a part of a request.
+ */
+export interface RequestValidationError extends ValidationError {
+  /**
+   * location is the part of the request the error is in.
+   */
+  location: "body" | "query";
+
+  /**
+   * message is a human-readable description of the error, from
+   * {@link formatErrors}.
+   */
+  message: string;
+}
+
+/**
+ * ResponseValidationError is the error thrown by `res.end` when a response
+ * does not match its schema, and {@link HTTPValidationOptions.assertResponses}
+ * is true.
+ */
+export class ResponseValidationError extends Error {
+  /**
+   * @param message A description of the problem
+   * @param errors The validation errors in the response body, if it is JSON
+   */
+  constructor(message: string, readonly errors: ValidationError[]) {
+    super(message);
+  }
+}
+
+/**
+ * Middleware is a connect-style middleware function.
+ */
+export type Middleware = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next: (err?: unknown) => void
+) => void;
+
+/**
+ * defaultProblemDetails turns a {@link Problem} into an [RFC 7807][rfc7807]
+ * problem details object, with an `errors` member listing the validation
+ * errors as JSON Pointers:
+ *
+ * ```json
+ * {
+ *   "type": "about:blank",
+ *   "title": "Bad Request",
+ *   "status": 400,
+ *   "detail": "The request does not match its schema.",
+ *   "errors": [
+ *     {
+ *       "location": "body",
+ *       "instancePointer": "/age",
+ *       "schemaPointer": "/properties/age/type",
+ *       "message": "expected uint8 at /age, got \"ten\""
+ *     }
+ *   ]
+ * }
+ * ```
+ *
+ * [rfc7807]: https://tools.ietf.org/html/rfc7807
+ *
+ * @param problem The problem to describe
+ */
+export function defaultProblemDetails(problem: Problem): object {
+  return {
+    type: "about:blank",
+    title: problem.title,
+    status: problem.status,
+    detail: problem.detail,
+    errors: problem.errors.map((error) => ({
+      location: error.location,
+      instancePointer: encodePointer(error.instancePath),
+      schemaPointer: encodePointer(error.schemaPath),
+      message: error.message,
+    })),
+  };
+}
+
+/**
+ * validateRoute returns middleware that validates requests against the
+ * schemas of a route.
+ *
+ * If the request is valid, the middleware sets `req.body` to the parsed body,
+ * and `req.query` to the converted query parameters, for the parts of the
+ * request that have a schema. It then calls `next()`. If a body parser has
+ * already set `req.body`, the body is not read again.
+ *
+ * If the request is invalid, the middleware responds with a 400 problem
+ * details response, built by
+ * {@link HTTPValidationOptions.problemDetails}, and does not call `next`.
+ *
+ * ```ts
+ * app.post(
+ *   "/users",
+ *   validateRoute({ body: userSchema, response: userSchema }),
+ *   (req, res) => res.json(createUser(req.body))
+ * );
+ * ```
+ *
+ * @param route The schemas of the route
+ * @param options Validation options. Optional.
+ */
+export function validateRoute(
+  route: RouteSchemas,
+  options: HTTPValidationOptions = {}
+): Middleware {
+  return (req, res, next) => {
+    if (options.assertResponses && route.response !== undefined) {
+      assertResponse(req, res, route.response, options);
+    }
+
+    const errors: RequestValidationError[] = [];
+    const fail = (
+      status: number,
+      title: string,
+      detail: string,
+      problemErrors: RequestValidationError[]
+    ) => {
+      const problem = options.problemDetails || defaultProblemDetails;
+      res.statusCode = status;
+      res.setHeader("Content-Type", "application/problem+json");
+      const body = { status, title, detail, errors: problemErrors };
+      res.end(JSON.stringify(problem(body)));
+    };
+
+    try {
+      if (route.query !== undefined) {
+        const query = parseQuery(req.url || "");
+        const { value, errors: queryErrors } = coerce(
+          route.query,
+          query,
+          options.config
+        );
+
+        errors.push(...describe("query", route.query, value, queryErrors));
+        setOwn(req, "query", value);
+      }
+    } catch (err) {
+      next(err);
+      return;
+    }
+
+    if (route.body === undefined) {
+      finish();
+      return;
+    }
+
+    const parsed = (req as { body?: unknown }).body;
+    if (parsed !== undefined) {
+      checkBody(parsed);
+      return;
+    }
+
+    readBody(req, options.maxBodyBytes || 1024 * 1024, (err, text) => {
+      if (err === "too_large") {
+        fail(413, "Payload Too Large", "The request body is too large.", []);
+        return;
+      }
+
+      if (err !== undefined) {
+        next(err);
+        return;
+      }
+
+      let body;
+      try {
+        body = JSON.parse(text!);
+      } catch (err) {
+        fail(400, "Bad Request", "The request body is not valid JSON.", []);
+        return;
+      }
+
+      setOwn(req, "body", body);
+      checkBody(body);
+    });
+
+    function checkBody(body: unknown) {
+      try {
+        const bodyErrors = validate(route.body!, body, options.config);
+        errors.push(...describe("body", route.body!, body, bodyErrors));
+      } catch (err) {
+        next(err);
+        return;
+      }
+
+      finish();
+    }
+
+    function finish() {
+      if (errors.length === 0) {
+        next();
+      } else {
+        fail(
+          400,
+          "Bad Request",
+          "The request does not match its schema.",
+          errors
+        );
+      }
+    }
+  };
+}
+
+/**
+ * withValidation wraps a handler for Node's `http.createServer`, so that it
+ * is only called for requests that are valid against the schemas of a route.
+ *
+ * The handler is called with the same `req` and `res` as
+ * {@link validateRoute} would pass on. If reading or validating the request
+ * fails unexpectedly, for instance because of a
+ * {@link MaxDepthExceededError}, the response is a 500 with an empty body.
+ *
+ * ```ts
+ * http.createServer(
+ *   withValidation({ body: userSchema }, (req, res) => {
+ *     res.end(JSON.stringify(createUser((req as any).body)));
+ *   })
+ * );
+ * ```
+ *
+ * @param route The schemas of the route
+ * @param handler The handler to call for valid requests
+ * @param options Validation options. Optional.
+ */
+export function withValidation(
+  route: RouteSchemas,
+  handler: (req: IncomingMessage, res: ServerResponse) => void,
+  options?: HTTPValidationOptions
+): (req: IncomingMessage, res: ServerResponse) => void {
+  const middleware = validateRoute(route, options);
+  return (req, res) => {
+    middleware(req, res, (err) => {
+      if (err !== undefined) {
+        res.statusCode = 500;
+        res.end();
+      } else {
+        handler(req, res);
+      }
+    });
+  };
+}
+
+// describe turns the errors from a part of a request into
+// RequestValidationErrors.
+function describe(
+  location: "body" | "query",
+  schema: Schema,
+  instance: unknown,
+  errors: ValidationError[]
+): RequestValidationError[] {
+  return formatErrors(schema, instance, errors).map((error, i) => ({
+    location,
+    instancePath: errors[i].instancePath,
+    schemaPath: errors[i].schemaPath,
+    message: error.message,
+  }));
+}
+
+// parseQuery returns the query parameters of a request URL. Parameters that
+// appear more than once become arrays.
+function parseQuery(url: string): { [name: string]: string | string[] } {
+  const query: { [name: string]: string | string[] } = {};
+
+  const index = url.indexOf("?");
+  if (index === -1) {
+    return query;
+  }
+
+  for (const pair of url.slice(index + 1).split("&")) {
+    if (pair === "") {
+      continue;
+    }
+
+    // Only the first "=" separates the name from the value. Values, such as
+    // base64 text, may have more of them.
+    const equals = pair.indexOf("=");
+    const [name, value] = (equals === -1
+      ? [pair, ""]
+      : [pair.slice(0, equals), pair.slice(equals + 1)]
+    ).map((part) => decode(part.replace(/\+/g, " ")));
+
+    if (!hasOwn(query, name)) {
+      setOwn(query, name, value);
+    } else {
+      const previous = query[name];
+      setOwn(query, name, [
+        ...(Array.isArray(previous) ? previous : [previous]),
+        value,
+      ]);
+    }
+  }
+
+  return query;
+}
+
+// decode is like decodeURIComponent, but leaves malformed escapes as they are
+// instead of throwing.
+function decode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch (err) {
+    return text;
+  }
+}
+
+// readBody reads the whole of a request body, as long as it is no larger than
+// limit bytes.
+function readBody(
+  req: IncomingMessage,
+  limit: number,
+  callback: (err: unknown, text?: string) => void
+) {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let done = false;
+
+  req.on("data", (chunk: Buffer | string) => {
+    if (done) {
+      return;
+    }
+
+    const buffer = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+    size += buffer.length;
+    if (size > limit) {
+      done = true;
+      callback("too_large");
+      return;
+    }
+
+    chunks.push(buffer);
+  });
+
+  req.on("end", () => {
+    if (!done) {
+      done = true;
+      callback(undefined, Buffer.concat(chunks).toString("utf8"));
+    }
+  });
+
+  req.on("error", (err) => {
+    if (!done) {
+      done = true;
+      callback(err);
+    }
+  });
+}
+
+// assertResponse makes res hold on to its body until it ends, and check the
+// body against a schema before sending it.
+function assertResponse(
+  req: IncomingMessage,
+  res: ServerResponse,
+  schema: Schema,
+  options: HTTPValidationOptions
+) {
+  const chunks: Buffer[] = [];
+  const end = res.end.bind(res) as (
+    chunk: Buffer,
+    callback?: () => void
+  ) => void;
+
+  const toBuffer = (chunk: unknown, encoding: unknown) =>
+    typeof chunk !== "string"
+      ? Buffer.from(chunk as Uint8Array)
+      : typeof encoding === "string"
+      ? Buffer.from(chunk, encoding as BufferEncoding)
+      : Buffer.from(chunk);
+
+  res.write = function (chunk: unknown, ...args: unknown[]) {
+    chunks.push(toBuffer(chunk, args[0]));
+
+    const callback = args.find((arg) => typeof arg === "function");
+    if (callback) {
+      process.nextTick(callback as () => void);
+    }
+
+    return true;
+  } as typeof res.write;
+
+  let ended = false;
+  res.end = function (...args: unknown[]) {
+    // Code that catches the error thrown below may try to end the response
+    // again, but it has already been sent.
+    if (ended) {
+      return;
+    }
+
+    ended = true;
+
+    const [chunk, encoding] = args;
+    if (chunk !== undefined && chunk !== null && typeof chunk !== "function") {
+      chunks.push(toBuffer(chunk, encoding));
+    }
+
+    const body = Buffer.concat(chunks);
+    const callback = args.find((arg) => typeof arg === "function") as
+      | (() => void)
+      | undefined;
+
+    const error = checkResponse(req, res, body, schema, options);
+    if (error === undefined) {
+      end(body, callback);
+      return;
+    }
+
+    // If res.end was called from a callback, nothing may catch the error, so
+    // the client gets a response before it is thrown.
+    if (!res.headersSent) {
+      res.statusCode = 500;
+      res.removeHeader("Content-Type");
+      res.removeHeader("Content-Length");
+    }
+
+    end(Buffer.alloc(0), callback);
+    throw error;
+  } as typeof res.end;
+}
+
+// checkResponse returns the error in a response body, if there is one.
+function checkResponse(
+  req: IncomingMessage,
+  res: ServerResponse,
+  body: Buffer,
+  schema: Schema,
+  options: HTTPValidationOptions
+): ResponseValidationError | undefined {
+  // Responses to HEAD requests, 204 No Content responses, and other responses
+  // without a body have nothing to check.
+  const status = res.statusCode;
+  if (
+    status < 200 ||
+    status >= 300 ||
+    status === 204 ||
+    req.method === "HEAD" ||
+    body.length === 0
+  ) {
+    return undefined;
+  }
+
+  let data;
+  try {
+    data = JSON.parse(body.toString("utf8"));
+  } catch (err) {
+    return new ResponseValidationError("response body is not JSON", []);
+  }
+
+  const errors = validate(schema, data, options.config);
+  if (errors.length === 0) {
+    return undefined;
+  }
+
+  const [message] = formatErrors(schema, data, errors.slice(0, 1)).map(
+    (error) => error.message
+  );
+
+  return new ResponseValidationError(
+    `response does not match its schema: ${message}`,
+    errors
+  );
+}
@@ -1,9 +1,18 @@
 import { readFileSync } from "fs";
 import {
+  checkSchema,
   isSchema,
   validate,
+  compile,
+  parse,
+  serialize,
   isValidSchema,
-  MaxDepthExceededError
+  MaxDepthExceededError,
+  MaxInstanceDepthExceededError,
+  coerce,
+  prune,
+  SerializeError,
+  ValidationError
 } from "./index";
 
 describe("validation", () => {
@@ -24,6 +33,365 @@ describe("validation", () => {
       validate(schema, instance, { maxDepth: 0, maxErrors: 3 })
     ).toHaveLength(3);
   });
+
+  it("stops on ref cycles without a max depth", () => {
+    const schema = { definitions: { foo: { ref: "foo" } }, ref: "foo" };
+
+    expect(() => validate(schema, null)).toThrow(MaxDepthExceededError);
+    expect(validate({ ...schema, nullable: true }, null)).toEqual([]);
+  });
+
+  it("supports deeply-nested instances", () => {
+    const schema = {
+      definitions: { nested: { elements: { ref: "nested" } } },
+      ref: "nested",
+    };
+
+    let instance: unknown = "x";
+    for (let i = 0; i < 50000; i++) {
+      instance = [instance];
+    }
+
+    const errors = validate(schema, instance);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].instancePath).toHaveLength(50000);
+    expect(errors[0].schemaPath).toEqual(["definitions", "nested", "elements"]);
+  });
+
+  it("supports limited instance depth", () => {
+    const schema = { values: { elements: {} } };
+    const config = { maxDepth: 0, maxErrors: 0, maxInstanceDepth: 2 };
+
+    // Only the parts of the instance that validate looks inside of count.
+    expect(validate(schema, { a: [[[1]]] }, config)).toEqual([]);
+    expect(() =>
+      validate(schema, { a: [1] }, { ...config, maxInstanceDepth: 1 })
+    ).toThrow(MaxInstanceDepthExceededError);
+  });
+});
+
+describe("compile", () => {
+  it("supports limited depth", () => {
+    const schema = { definitions: { foo: { ref: "foo" } }, ref: "foo" };
+    const validator = compile(schema, { maxDepth: 5, maxErrors: 0 });
+
+    expect(() => validator(null)).toThrow(MaxDepthExceededError);
+  });
+
+  it("supports limited errors", () => {
+    const schema = { elements: { type: "string" as const } };
+    const validator = compile(schema, { maxDepth: 0, maxErrors: 3 });
+
+    expect(validator([null, null, null, null, null])).toHaveLength(3);
+  });
+
+  it("supports limited instance depth", () => {
+    const schema = { values: { elements: {} } };
+    const validator = compile(schema, {
+      maxDepth: 0,
+      maxErrors: 0,
+      maxInstanceDepth: 1,
+    });
+
+    expect(validator({ a: 1 })).toEqual([
+      { instancePath: ["a"], schemaPath: ["values", "elements"] },
+    ]);
+    expect(() => validator({ a: [1] })).toThrow(MaxInstanceDepthExceededError);
+  });
+
+  it("can be called repeatedly", () => {
+    const schema = {
+      definitions: {
+        node: {
+          properties: { value: { type: "uint8" as const } },
+          optionalProperties: { next: { ref: "node" } },
+        },
+      },
+      discriminator: "kind",
+      mapping: {
+        list: { properties: { head: { ref: "node", nullable: true } } },
+      },
+    };
+
+    const instances = [
+      { kind: "list", head: null },
+      { kind: "list", head: { value: 1, next: { value: 300, extra: true } } },
+      { kind: "tree" },
+      { kind: 3 },
+      { head: null },
+      [],
+    ];
+
+    const validator = compile(schema);
+    for (const instance of instances) {
+      expect(validator(instance)).toEqual(validate(schema, instance));
+      expect(validator(instance)).toEqual(validate(schema, instance));
+    }
+  });
+
+  it("stops on ref cycles without a max depth", () => {
+    const schema = {
+      definitions: { a: { ref: "b" }, b: { ref: "a" } },
+      ref: "a",
+    };
+
+    expect(() => validate(schema, null)).toThrow(MaxDepthExceededError);
+    expect(() => compile(schema)(null)).toThrow(MaxDepthExceededError);
+  });
+
+  it("supports deeply-nested instances", () => {
+    const schema = {
+      definitions: {
+        nested: {
+          discriminator: "kind",
+          mapping: {
+            list: { properties: { items: { elements: { ref: "nested" } } } },
+            map: { properties: { items: { values: { ref: "nested" } } } },
+          },
+        },
+      },
+      ref: "nested",
+    };
+
+    let instance: unknown = "x";
+    for (let i = 0; i < 50000; i++) {
+      instance =
+        i % 2 === 0
+          ? { kind: "list", items: [instance] }
+          : { kind: "map", items: { a: instance } };
+    }
+
+    const errors = compile(schema)(instance);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].instancePath).toHaveLength(100000);
+    expect(errors).toEqual(validate(schema, instance));
+  });
+});
+
+describe("untrusted input", () => {
+  // These names are either inherited by ordinary objects, or set an object's
+  // prototype when they are assigned to.
+  const names = [
+    "__proto__",
+    "constructor",
+    "toString",
+    "hasOwnProperty",
+    "valueOf",
+  ];
+
+  // bare deep-copies JSON data into objects that have no prototype.
+  function bare(data: unknown): unknown {
+    if (Array.isArray(data)) {
+      return data.map(bare);
+    }
+
+    if (typeof data === "object" && data !== null) {
+      const result = Object.create(null);
+      for (const [name, value] of Object.entries(data)) {
+        result[name] = bare(value);
+      }
+
+      return result;
+    }
+
+    return data;
+  }
+
+  for (const name of names) {
+    // Building the JSON text by hand makes these keys own properties, just
+    // like they would be in data from the network.
+    const key = JSON.stringify(name);
+
+    describe(name, () => {
+      it("rejects refs that are not own definitions", () => {
+        for (const text of [
+          `{ "ref": ${key} }`,
+          `{ "definitions": {}, "ref": ${key} }`,
+          `{ "definitions": { "a": {} }, "ref": ${key} }`,
+        ]) {
+          for (const schema of [JSON.parse(text), bare(JSON.parse(text))]) {
+            expect(isSchema(schema)).toBe(true);
+            expect(isValidSchema(schema)).toBe(false);
+            expect(checkSchema(schema)).toEqual([
+              {
+                path: ["ref"],
+                code: "dangling_ref",
+                message: `ref to undefined definition: ${name}`,
+              },
+            ]);
+          }
+        }
+      });
+
+      it("only reports keywords that are own properties", () => {
+        for (const text of [
+          `{ "properties": { ${key}: {} }, "optionalProperties": {} }`,
+          `{ "optionalProperties": { ${key}: {} }, "properties": {} }`,
+          `{
+            "discriminator": ${key},
+            "mapping": { "a": { "properties": {} } }
+          }`,
+          `{ "definitions": { ${key}: { "ref": ${key} } }, "ref": ${key} }`,
+        ]) {
+          for (const schema of [JSON.parse(text), bare(JSON.parse(text))]) {
+            expect(checkSchema(schema)).toEqual([]);
+          }
+        }
+
+        expect(checkSchema(Object.create({ ref: "a" }))).toEqual([]);
+      });
+
+      // removed is what prune removes from the instance, and serialized is
+      // what serialize outputs for it, or undefined if serialize throws.
+      interface TestCase {
+        schema: string;
+        instance: string;
+        errors: ValidationError[];
+        removed: string[][];
+        serialized: string | undefined;
+      }
+
+      const testCases: TestCase[] = [
+        {
+          schema: `{
+            "definitions": { ${key}: { "type": "string" } },
+            "properties": { ${key}: { "ref": ${key} } }
+          }`,
+          instance: `{ ${key}: "x" }`,
+          errors: [],
+          removed: [],
+          serialized: `{${key}:"x"}`,
+        },
+        {
+          schema: `{
+            "definitions": { ${key}: { "type": "string" } },
+            "properties": { ${key}: { "ref": ${key} } }
+          }`,
+          instance: `{ ${key}: 1 }`,
+          errors: [
+            { instancePath: [name], schemaPath: ["definitions", name, "type"] },
+          ],
+          removed: [],
+          serialized: undefined,
+        },
+        {
+          schema: `{ "properties": { ${key}: {} } }`,
+          instance: "{}",
+          errors: [{ instancePath: [], schemaPath: ["properties", name] }],
+          removed: [],
+          serialized: undefined,
+        },
+        {
+          schema: `{ "optionalProperties": { ${key}: { "type": "string" } } }`,
+          instance: "{}",
+          errors: [],
+          removed: [],
+          serialized: "{}",
+        },
+        {
+          schema: `{ "optionalProperties": { "a": {} } }`,
+          instance: `{ ${key}: 1 }`,
+          errors: [{ instancePath: [name], schemaPath: [] }],
+          removed: [[name]],
+          serialized: "{}",
+        },
+        {
+          schema: `{ "optionalProperties": { "a": {} } }`,
+          instance: `{ ${key}: 1, "a": 1 }`,
+          errors: [{ instancePath: [name], schemaPath: [] }],
+          removed: [[name]],
+          serialized: `{"a":1}`,
+        },
+        {
+          schema: `{
+            "optionalProperties": { "a": {} },
+            "additionalProperties": true
+          }`,
+          instance: `{ ${key}: 1, "a": 1 }`,
+          errors: [],
+          removed: [],
+          serialized: `{"a":1,${key}:1}`,
+        },
+        {
+          schema: `{ "values": { "type": "string" } }`,
+          instance: `{ ${key}: 1 }`,
+          errors: [{ instancePath: [name], schemaPath: ["values", "type"] }],
+          removed: [],
+          serialized: undefined,
+        },
+        {
+          schema: `{
+            "discriminator": "kind",
+            "mapping": { "a": { "properties": {} } }
+          }`,
+          instance: `{ "kind": ${key} }`,
+          errors: [{ instancePath: ["kind"], schemaPath: ["mapping"] }],
+          removed: [],
+          serialized: undefined,
+        },
+        {
+          schema: `{
+            "discriminator": ${key},
+            "mapping": { ${key}: { "properties": { "a": {} } } }
+          }`,
+          instance: `{ ${key}: ${key}, "a": 1 }`,
+          errors: [],
+          removed: [],
+          serialized: `{${key}:${key},"a":1}`,
+        },
+        {
+          schema: `{
+            "discriminator": ${key},
+            "mapping": { ${key}: { "properties": { "a": {} } } }
+          }`,
+          instance: "{}",
+          errors: [{ instancePath: [], schemaPath: ["discriminator"] }],
+          removed: [],
+          serialized: undefined,
+        },
+      ];
+
+      for (const testCase of testCases) {
+        const { schema, instance, errors, removed, serialized } = testCase;
+        const description = schema.replace(/\s+/g, " ");
+        it(`handles ${instance} against ${description}`, () => {
+          for (const wrap of [(data: unknown) => data, bare]) {
+            const s = wrap(JSON.parse(schema));
+            const i = wrap(JSON.parse(instance));
+
+            expect(isSchema(s) && isValidSchema(s)).toBe(true);
+            if (!isSchema(s)) {
+              return;
+            }
+
+            expect(validate(s, i)).toEqual(errors);
+            expect(compile(s)(i)).toEqual(errors);
+
+            const result = parse(s, instance);
+            expect(result.valid ? [] : result.errors).toEqual(errors);
+            if (result.valid) {
+              expect(result.value).toEqual(i);
+            }
+
+            const coerced = coerce(s, i);
+            expect(coerced.errors).toEqual(errors);
+            if (errors.length === 0) {
+              expect(coerced.value).toEqual(i);
+            }
+
+            const pruned = prune(s, i);
+            expect(pruned.removed).toEqual(removed);
+
+            if (serialized === undefined) {
+              expect(() => serialize(s, i)).toThrow(SerializeError);
+            } else {
+              expect(serialize(s, i)).toBe(serialized);
+            }
+          }
+        });
+      }
+    });
+  }
 });
 
 describe("json-typedef-spec", () => {
@@ -37,6 +405,7 @@ describe("json-typedef-spec", () => {
         expect(isSchema(invalidSchema) && isValidSchema(invalidSchema)).toBe(
           false
         );
+        expect(checkSchema(invalidSchema)).not.toHaveLength(0);
       });
     }
   });
@@ -65,6 +434,14 @@ describe("json-typedef-spec", () => {
 
         if (isSchema(schema)) {
           expect(validate(schema, instance)).toEqual(errors);
+          expect(compile(schema)(instance)).toEqual(errors);
+
+          const result = parse(schema, JSON.stringify(instance));
+          expect(result.valid ? [] : result.errors).toEqual(errors);
+
+          if (errors.length === 0) {
+            expect(JSON.parse(serialize(schema, instance))).toEqual(instance);
+          }
         }
       });
     }
@@ -2,7 +2,8 @@
  * Package jtd is an implementation of JSON Typedef.
  *
  * The {@link validate} function is an implementation of JSON Typedef
- * validation. The {@link Schema} interface represents JSON Typedef schemas.
+ * validation, and {@link compile} turns a schema into a reusable validator
+ * function. The {@link Schema} interface represents JSON Typedef schemas.
  *
  * See [the README](https://github.com/jsontypedef/json-typedef-js) for examples
  * and links to guides on how to use this package.
@@ -11,4 +12,22 @@
  */
 
 export * from "./schema";
+export * from "./infer";
 export * from "./validate";
+export * from "./compile";
+export * from "./builder";
+export * from "./format";
+export * from "./pointer";
+export * from "./parse";
+export * from "./serialize";
+export * from "./rfc3339";
+export * from "./coerce";
+export * from "./prune";
+export * from "./generate";
+export * from "./inferschema";
+export * from "./jsonschema";
+export * from "./compatibility";
+export * from "./diff";
+export * from "./registry";
+export * from "./codegen";
+export * from "./http";
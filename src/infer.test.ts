@@ -0,0 +1,123 @@
+import { JTDDataType, isValid } from "./index";
+
+// Equal is true if and only if A and B are the same type. Assigning `true` to a
+// variable of type Equal<A, B> fails to compile unless A and B are identical.
+type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B
+  ? 1
+  : 2
+  ? true
+  : false;
+
+// Assignable is true if and only if values of type A can be assigned to
+// variables of type B. Wrapping A and B in tuples keeps unions from being
+// checked one member at a time.
+type Assignable<A, B> = [A] extends [B] ? true : false;
+
+describe("JTDDataType", () => {
+  it("infers the empty form", () => {
+    const ok: Equal<JTDDataType<{}>, unknown> = true;
+    expect(ok).toBe(true);
+  });
+
+  it("infers the type form", () => {
+    const ok: Equal<JTDDataType<{ type: "uint8" }>, number> = true;
+    const okTimestamp: Equal<
+      JTDDataType<{ type: "timestamp"; nullable: true }>,
+      string | null
+    > = true;
+    expect(ok && okTimestamp).toBe(true);
+  });
+
+  it("infers the enum form", () => {
+    const schema = { enum: ["a", "b"] } as const;
+    const ok: Equal<JTDDataType<typeof schema>, "a" | "b"> = true;
+    expect(ok).toBe(true);
+  });
+
+  it("infers the elements and values forms", () => {
+    const elements = { elements: { type: "boolean" } } as const;
+    const values = { values: { type: "string" } } as const;
+
+    const okElements: Equal<JTDDataType<typeof elements>, boolean[]> = true;
+    const okValues: Equal<
+      JTDDataType<typeof values>["key"],
+      string
+    > = true;
+    expect(okElements && okValues).toBe(true);
+  });
+
+  it("infers the properties form", () => {
+    const schema = {
+      properties: { name: { type: "string" } },
+      optionalProperties: { age: { type: "uint8", nullable: true } },
+    } as const;
+
+    type Data = JTDDataType<typeof schema>;
+    const ok: Data = { name: "a" };
+    const okAge: Data = { name: "a", age: null };
+    const missing: Assignable<{ age: number }, Data> = false;
+
+    // Without additionalProperties, there is no index signature, so object
+    // literals with extra properties are rejected.
+    const closed: Equal<keyof Data, "name" | "age"> = true;
+
+    const open = { ...schema, additionalProperties: true } as const;
+    const okExtra: JTDDataType<typeof open> = { name: "a", extra: true };
+
+    expect([ok, okAge, missing, closed, okExtra]).toHaveLength(5);
+  });
+
+  it("infers the discriminator form", () => {
+    const schema = {
+      discriminator: "kind",
+      mapping: {
+        a: { properties: { x: { type: "string" } } },
+        b: { properties: { y: { type: "int8" } } },
+      },
+    } as const;
+
+    type Data = JTDDataType<typeof schema>;
+    const a: Data = { kind: "a", x: "" };
+    const b: Data = { kind: "b", y: 1 };
+    const mixed: Assignable<{ kind: "a"; y: number }, Data> = false;
+
+    expect([a, b, mixed]).toHaveLength(3);
+  });
+
+  it("infers recursive refs", () => {
+    const schema = {
+      definitions: {
+        node: {
+          properties: { value: { type: "string" } },
+          optionalProperties: { children: { elements: { ref: "node" } } },
+        },
+      },
+      ref: "node",
+    } as const;
+
+    type Node = JTDDataType<typeof schema>;
+    type Child = NonNullable<Node["children"]>[number];
+    const ok: Equal<Child, Node> = true;
+    expect(ok).toBe(true);
+  });
+});
+
+describe("isValid", () => {
+  const schema = {
+    properties: { name: { type: "string" } },
+  } as const;
+
+  it("returns true for valid instances", () => {
+    const instance: unknown = { name: "foo" };
+    expect(isValid(schema, instance)).toBe(true);
+
+    if (isValid(schema, instance)) {
+      const name: string = instance.name;
+      expect(name).toBe("foo");
+    }
+  });
+
+  it("returns false for invalid instances", () => {
+    expect(isValid(schema, { name: 1 })).toBe(false);
+  });
+});
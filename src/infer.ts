@@ -0,0 +1,134 @@
+/**
+ * Module infer provides TypeScript types describing the data a JSON Typedef
+ * schema accepts.
+ *
+ * The most important type in this module is {@link JTDDataType}, which takes
+ * the type of a schema literal and produces the type of the data that schema
+ * accepts.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * JTDDataType is the TypeScript type of the data accepted by a schema of type
+ * `S`.
+ *
+ * JTDDataType is meant to be used with schemas written as literals with an `as
+ * const` assertion, so that TypeScript keeps track of the exact keywords and
+ * values in the schema:
+ *
+ * ```ts
+ * const schema = {
+ *   properties: {
+ *     name: { type: "string" },
+ *     role: { enum: ["admin", "user"] },
+ *   },
+ *   optionalProperties: {
+ *     age: { type: "uint8", nullable: true },
+ *   },
+ * } as const;
+ *
+ * // { name: string; role: "admin" | "user" } & { age?: number | null }
+ * type User = JTDDataType<typeof schema>;
+ * ```
+ *
+ * `ref`s are resolved against the `definitions` of `S`. Timestamps are
+ * represented as strings, because that is what {@link validate} accepts. The
+ * empty form, and any `ref` to a definition that does not exist, become
+ * `unknown`.
+ */
+export type JTDDataType<S> = S extends { definitions: infer D }
+  ? InferSchema<S, D>
+  : InferSchema<S, {}>;
+
+/**
+ * JTDTypeMap maps the values of the "type" keyword to the TypeScript type of
+ * the data they accept.
+ */
+export interface JTDTypeMap {
+  boolean: boolean;
+  float32: number;
+  float64: number;
+  int8: number;
+  uint8: number;
+  int16: number;
+  uint16: number;
+  int32: number;
+  uint32: number;
+  string: string;
+  timestamp: string;
+}
+
+// InferSchema infers the data type of S, where D is the definitions of the root
+// schema.
+type InferSchema<S, D> = S extends { nullable: true }
+  ? InferForm<S, D> | null
+  : InferForm<S, D>;
+
+// InferForm infers the data type of S without regard to nullable. Each form
+// gets its own property, and FormOf picks out the one that applies to S.
+//
+// Writing InferForm as a lookup into an object type, rather than as a chain of
+// conditional types, is what lets it refer back to InferSchema for recursive
+// schemas.
+type InferForm<S, D> = {
+  empty: unknown;
+  ref: S extends { ref: infer R }
+    ? R extends keyof D
+      ? InferSchema<D[R], D>
+      : unknown
+    : never;
+  type: S extends { type: infer T }
+    ? T extends keyof JTDTypeMap
+      ? JTDTypeMap[T]
+      : never
+    : never;
+  enum: S extends { enum: readonly (infer E)[] } ? E : never;
+  elements: S extends { elements: infer E } ? InferElements<E, D> : never;
+  properties: InferProperties<S, D>;
+  values: S extends { values: infer V } ? InferValues<V, D> : never;
+  discriminator: S extends { discriminator: infer K; mapping: infer M }
+    ? InferDiscriminator<K, M, D>
+    : never;
+}[FormOf<S>];
+
+// The order of these checks mirrors the order in which validate checks for
+// each form.
+type FormOf<S> = S extends { ref: any }
+  ? "ref"
+  : S extends { type: any }
+  ? "type"
+  : S extends { enum: any }
+  ? "enum"
+  : S extends { elements: any }
+  ? "elements"
+  : S extends { properties: any } | { optionalProperties: any }
+  ? "properties"
+  : S extends { values: any }
+  ? "values"
+  : S extends { discriminator: any }
+  ? "discriminator"
+  : "empty";
+
+// Elements and values are written as object types, rather than as `T[]` or
+// conditional types, so that TypeScript resolves them lazily. Otherwise,
+// recursive schemas would make the compiler recurse forever.
+interface InferElements<E, D> extends Array<InferSchema<E, D>> {}
+
+interface InferValues<V, D> {
+  [key: string]: InferSchema<V, D>;
+}
+
+type InferProperties<S, D> = (S extends { properties: infer P }
+  ? { -readonly [K in keyof P]: InferSchema<P[K], D> }
+  : {}) &
+  (S extends { optionalProperties: infer P }
+    ? { -readonly [K in keyof P]?: InferSchema<P[K], D> }
+    : {}) &
+  (S extends { additionalProperties: true } ? { [key: string]: unknown } : {});
+
+type InferDiscriminator<K, M, D> = K extends string
+  ? {
+      [T in keyof M]: { [_ in K]: T } & InferProperties<M[T], D>;
+    }[keyof M]
+  : never;
@@ -0,0 +1,114 @@
+import { inferSchema, isValidSchema, validate } from "./index";
+
+describe("inferSchema", () => {
+  it("infers the narrowest schema that accepts every sample", () => {
+    const samples = [
+      { id: 1, score: 0.5, tags: ["a"], at: "2020-01-01T00:00:00Z", ok: true },
+      { id: -3, score: 0.1, tags: [], at: "2021-01-01T00:00:00Z", ok: false },
+      { id: 200, score: 2, at: "2022-01-01T00:00:00Z", ok: null, note: null },
+    ];
+
+    const schema = inferSchema(samples);
+    expect(schema).toEqual({
+      properties: {
+        id: { type: "int16" },
+        score: { type: "float64" },
+        at: { type: "timestamp" },
+        ok: { type: "boolean", nullable: true },
+      },
+      optionalProperties: {
+        tags: { elements: { type: "string" } },
+        note: {},
+      },
+    });
+
+    expect(isValidSchema(schema)).toBe(true);
+    for (const sample of samples) {
+      expect(validate(schema, sample)).toEqual([]);
+    }
+  });
+
+  it("picks the narrowest number type", () => {
+    const cases: [number[], string][] = [
+      [[0, 255], "uint8"],
+      [[-1, 127], "int8"],
+      [[0, 65535], "uint16"],
+      [[-32768, 1], "int16"],
+      [[4294967295], "uint32"],
+      [[-1, 65536], "int32"],
+      [[1.5, -2], "float32"],
+      [[0.1], "float64"],
+      [[4294967296], "float32"],
+    ];
+
+    for (const [samples, type] of cases) {
+      expect(inferSchema(samples)).toEqual({ type });
+    }
+  });
+
+  it("uses the empty form for mixed data", () => {
+    expect(inferSchema([1, "a", null])).toEqual({});
+    expect(inferSchema([null])).toEqual({});
+    expect(inferSchema([])).toEqual({});
+  });
+
+  it("supports large numbers of samples", () => {
+    const objects = [];
+    const elements = [];
+    for (let i = 0; i < 200000; i++) {
+      objects.push({ id: i, tags: ["a"] });
+      elements.push(i);
+    }
+
+    expect(inferSchema(objects)).toEqual({
+      properties: {
+        id: { type: "uint32" },
+        tags: { elements: { type: "string" } },
+      },
+    });
+    expect(inferSchema([elements])).toEqual({
+      elements: { type: "uint32" },
+    });
+  });
+
+  it("uses the values form for objects with many keys", () => {
+    const samples = [{ a: 1, b: 2 }, { c: 3 }];
+
+    expect(inferSchema(samples, { maxProperties: 2 })).toEqual({
+      values: { type: "uint8" },
+    });
+  });
+
+  it("optionally infers enums and discriminators", () => {
+    const samples = [
+      { type: "click", x: 1, button: "left" },
+      { type: "click", x: 2, button: "right" },
+      { type: "click", x: 3, button: "left" },
+      { type: "key", key: "a" },
+    ];
+
+    expect(inferSchema(samples, { enums: true, discriminators: true })).toEqual(
+      {
+        discriminator: "type",
+        mapping: {
+          click: {
+            properties: {
+              x: { type: "uint8" },
+              button: { enum: ["left", "right"] },
+            },
+          },
+          key: { properties: { key: { type: "string" } } },
+        },
+      }
+    );
+
+    expect(inferSchema(samples)).toEqual({
+      properties: { type: { type: "string" } },
+      optionalProperties: {
+        x: { type: "uint8" },
+        button: { type: "string" },
+        key: { type: "string" },
+      },
+    });
+  });
+});
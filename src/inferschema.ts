@@ -0,0 +1,306 @@
+/**
+ * Module inferschema provides a way to write a first draft of a JSON Typedef
+ * schema from examples of the data it should describe.
+ *
+ * The most important function in this module is {@link inferSchema}, which
+ * you can configure with {@link InferHints}.
+ *
+ * @packageDocumentation
+ */
+
+import isRFC3339 from "./rfc3339";
+import { Schema, SchemaFormProperties, Type } from "./schema";
+import { INT_RANGES, INT_TYPES } from "./typecheck";
+import { getOwn, hasOwn, setOwn } from "./objects";
+
+/**
+ * InferHints are the options you can pass to {@link inferSchema}.
+ */
+export interface InferHints {
+  /**
+   * enums is whether to use the enum form for strings that only take on a
+   * few different values. By default, enums is false.
+   */
+  enums?: boolean;
+
+  /**
+   * discriminators is whether to use the discriminator form for objects that
+   * have a property whose value determines what other properties the object
+   * has. By default, discriminators is false.
+   */
+  discriminators?: boolean;
+
+  /**
+   * maxEnumValues is the largest number of different strings a property may
+   * have for it to be considered for {@link enums} or {@link discriminators}.
+   * By default, maxEnumValues is 10.
+   */
+  maxEnumValues?: number;
+
+  /**
+   * maxProperties is the largest number of different keys objects may have
+   * before they are considered to be maps, and so are given a schema of the
+   * values form. By default, maxProperties is 20.
+   */
+  maxProperties?: number;
+}
+
+/**
+ * inferSchema returns a schema that accepts each of the given samples.
+ *
+ * The schema is as narrow as inferSchema can make it:
+ *
+ * * Numbers are given the narrowest `type` that fits all of them, from
+ *   `uint8` through to `float64`.
+ * * Strings are given the `timestamp` type if they are all RFC3339
+ *   timestamps.
+ * * Properties that some objects lack are put in `optionalProperties`.
+ * * Schemas are made `nullable` where null appears.
+ * * Data of more than one kind, such as strings in some samples and numbers in
+ *   others, is given the empty form.
+ *
+ * ```ts
+ * // Returns:
+ * //
+ * // {
+ * //   properties: { id: { type: "uint16" } },
+ * //   optionalProperties: { name: { type: "string", nullable: true } }
+ * // }
+ * inferSchema([{ id: 1, name: "a" }, { id: 300, name: null }, { id: 2 }]);
+ * ```
+ *
+ * The returned schema is always correct according to {@link isValidSchema},
+ * but it is only a guess. You should review it before you rely on it.
+ *
+ * @param samples The data to infer a schema from
+ * @param hints Options for what forms to consider. Optional.
+ */
+export function inferSchema(
+  samples: unknown[],
+  hints: InferHints = {}
+): Schema {
+  return inferWithHints(
+    {
+      enums: hints.enums || false,
+      discriminators: hints.discriminators || false,
+      maxEnumValues:
+        hints.maxEnumValues === undefined ? 10 : hints.maxEnumValues,
+      maxProperties:
+        hints.maxProperties === undefined ? 20 : hints.maxProperties,
+    },
+    samples
+  );
+}
+
+type Hints = Required<InferHints>;
+
+type Kind = "boolean" | "number" | "string" | "array" | "object";
+
+function inferWithHints(hints: Hints, samples: unknown[]): Schema {
+  const values = samples.filter((sample) => sample !== null);
+
+  const kinds = new Set(values.map(kindOf));
+  if (kinds.size !== 1 || kinds.has(undefined)) {
+    // Either there's nothing but null, or there's data of more than one kind,
+    // or there's data that isn't JSON. Only the empty form accepts such data.
+    return {};
+  }
+
+  let schema: Schema;
+  switch (Array.from(kinds)[0]) {
+    case "boolean":
+      schema = { type: "boolean" };
+      break;
+    case "number":
+      schema = { type: numberType(values as number[]) };
+      break;
+    case "string":
+      schema = inferString(hints, values as string[]);
+      break;
+    case "array":
+      schema = {
+        elements: inferWithHints(hints, flatten(values as unknown[][])),
+      };
+      break;
+    default:
+      schema = inferObject(hints, values as { [name: string]: unknown }[]);
+  }
+
+  if (values.length !== samples.length) {
+    schema.nullable = true;
+  }
+
+  return schema;
+}
+
+function kindOf(value: unknown): Kind | undefined {
+  if (Array.isArray(value)) {
+    return "array";
+  }
+
+  switch (typeof value) {
+    case "boolean":
+    case "number":
+    case "string":
+    case "object":
+      return typeof value as Kind;
+    default:
+      // This isn't JSON data, so there's no type that fits it.
+      return undefined;
+  }
+}
+
+function numberType(values: number[]): Type {
+  if (values.every(Number.isInteger)) {
+    const min = values.reduce((a, b) => Math.min(a, b));
+    const max = values.reduce((a, b) => Math.max(a, b));
+
+    for (const type of INT_TYPES) {
+      if (min >= INT_RANGES[type][0] && max <= INT_RANGES[type][1]) {
+        return type;
+      }
+    }
+  }
+
+  return values.every((value) => Math.fround(value) === value)
+    ? "float32"
+    : "float64";
+}
+
+function inferString(hints: Hints, values: string[]): Schema {
+  if (values.every(isRFC3339)) {
+    return { type: "timestamp" };
+  }
+
+  if (hints.enums) {
+    const distinct = distinctValues(values);
+
+    // A string that never repeats is unlikely to be from a fixed set.
+    if (
+      distinct.length <= hints.maxEnumValues &&
+      distinct.length < values.length
+    ) {
+      return { enum: distinct };
+    }
+  }
+
+  return { type: "string" };
+}
+
+function inferObject(
+  hints: Hints,
+  objects: { [name: string]: unknown }[]
+): Schema {
+  const names = distinctValues(
+    flatten(objects.map((object) => Object.keys(object)))
+  );
+
+  if (names.length > hints.maxProperties) {
+    const values = flatten(objects.map(Object.values));
+    return { values: inferWithHints(hints, values) };
+  }
+
+  if (hints.discriminators) {
+    const schema = inferDiscriminator(hints, objects, names);
+    if (schema !== undefined) {
+      return schema;
+    }
+  }
+
+  return inferProperties(hints, objects, names);
+}
+
+// inferProperties returns a schema of the properties form for objects, which
+// have the given property names between them.
+function inferProperties(
+  hints: Hints,
+  objects: { [name: string]: unknown }[],
+  names: string[]
+): SchemaFormProperties {
+  const properties: { [name: string]: Schema } = {};
+  const optionalProperties: { [name: string]: Schema } = {};
+
+  for (const name of names) {
+    const having = objects.filter((object) => hasOwn(object, name));
+    const schema = inferWithHints(
+      hints,
+      having.map((object) => object[name])
+    );
+
+    if (having.length === objects.length) {
+      setOwn(properties, name, schema);
+    } else {
+      setOwn(optionalProperties, name, schema);
+    }
+  }
+
+  if (Object.keys(optionalProperties).length === 0) {
+    return { properties };
+  }
+
+  if (Object.keys(properties).length === 0) {
+    return { optionalProperties };
+  }
+
+  return { properties, optionalProperties };
+}
+
+// inferDiscriminator returns a schema of the discriminator form for objects,
+// if one of their properties looks like a tag. A property looks like a tag if
+// every object has it, it only takes on a few different strings, and objects
+// with different tags have different properties.
+function inferDiscriminator(
+  hints: Hints,
+  objects: { [name: string]: unknown }[],
+  names: string[]
+): Schema | undefined {
+  for (const tagName of names) {
+    const tags = objects.map((object) => getOwn(object, tagName));
+    if (!tags.every((tag) => typeof tag === "string")) {
+      continue;
+    }
+
+    const distinct = distinctValues(tags as string[]);
+    if (distinct.length < 2 || distinct.length > hints.maxEnumValues) {
+      continue;
+    }
+
+    const mapping: { [tag: string]: Schema } = {};
+    const shapes = new Set<string>();
+
+    for (const tag of distinct) {
+      const group = objects.filter((object) => getOwn(object, tagName) === tag);
+      const groupNames = distinctValues(
+        flatten(group.map((object) => Object.keys(object)))
+      ).filter((name) => name !== tagName);
+
+      setOwn(mapping, tag, inferProperties(hints, group, groupNames));
+      shapes.add(JSON.stringify(groupNames.sort()));
+    }
+
+    if (shapes.size > 1) {
+      return { discriminator: tagName, mapping };
+    }
+  }
+
+  return undefined;
+}
+
+// distinctValues returns the different values in an array, in the order they
+// first appear.
+function distinctValues<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
+
+// flatten returns the values of each array, one array after another. Unlike
+// spreading the arrays into concat, this works for any number of arrays.
+function flatten<T>(arrays: T[][]): T[] {
+  const result: T[] = [];
+  for (const array of arrays) {
+    for (const value of array) {
+      result.push(value);
+    }
+  }
+
+  return result;
+}
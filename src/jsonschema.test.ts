@@ -0,0 +1,442 @@
+import {
+  InvalidJSONSchemaError,
+  Schema,
+  fromJSONSchema,
+  toJSONSchema,
+} from "./index";
+
+describe("toJSONSchema", () => {
+  it("converts each form", () => {
+    const cases: [Schema, object][] = [
+      [{}, {}],
+      [{ nullable: true }, {}],
+      [{ ref: "a/b" }, { $ref: "#/$defs/a~1b" }],
+      [
+        { ref: "a b", nullable: true },
+        { anyOf: [{ $ref: "#/$defs/a%20b" }, { type: "null" }] },
+      ],
+      [{ type: "boolean" }, { type: "boolean" }],
+      [{ type: "float32" }, { type: "number" }],
+      [
+        { type: "int16", nullable: true },
+        { type: ["integer", "null"], minimum: -32768, maximum: 32767 },
+      ],
+      [
+        { type: "uint32" },
+        { type: "integer", minimum: 0, maximum: 4294967295 },
+      ],
+      [{ type: "timestamp" }, { type: "string", format: "date-time" }],
+      [{ enum: ["a", "b"], nullable: true }, { enum: ["a", "b", null] }],
+      [
+        { elements: { type: "string" } },
+        { type: "array", items: { type: "string" } },
+      ],
+      [
+        { values: { type: "string" }, nullable: true },
+        { type: ["object", "null"], additionalProperties: { type: "string" } },
+      ],
+      [
+        { properties: { a: {} }, optionalProperties: { b: {} } },
+        {
+          type: "object",
+          properties: { a: {}, b: {} },
+          required: ["a"],
+          additionalProperties: false,
+        },
+      ],
+      [
+        { optionalProperties: { b: {} }, additionalProperties: true },
+        { type: "object", properties: { b: {} } },
+      ],
+      [
+        {
+          discriminator: "type",
+          mapping: {
+            a: { properties: { x: { type: "string" } } },
+            b: { properties: {}, additionalProperties: true },
+          },
+        },
+        {
+          oneOf: [
+            {
+              type: "object",
+              properties: { type: { const: "a" }, x: { type: "string" } },
+              required: ["type", "x"],
+              additionalProperties: false,
+            },
+            {
+              type: "object",
+              properties: { type: { const: "b" } },
+              required: ["type"],
+            },
+          ],
+        },
+      ],
+      [{ discriminator: "type", mapping: {} }, { not: {} }],
+    ];
+
+    for (const [schema, expected] of cases) {
+      const { $schema, ...rest } = toJSONSchema(schema).schema;
+
+      expect($schema).toBe("https://json-schema.org/draft/2020-12/schema");
+      expect(rest).toEqual(expected);
+    }
+  });
+
+  it("converts definitions and descriptions", () => {
+    const schema: Schema = {
+      definitions: {
+        node: {
+          metadata: { description: "A node in a list." },
+          properties: { next: { ref: "node", nullable: true } },
+        },
+      },
+      ref: "node",
+    };
+
+    expect(toJSONSchema(schema)).toEqual({
+      schema: {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        $ref: "#/$defs/node",
+        $defs: {
+          node: {
+            description: "A node in a list.",
+            type: "object",
+            properties: {
+              next: { anyOf: [{ $ref: "#/$defs/node" }, { type: "null" }] },
+            },
+            required: ["next"],
+            additionalProperties: false,
+          },
+        },
+      },
+      warnings: [],
+    });
+  });
+
+  it("supports OpenAPI 3.1", () => {
+    const schema: Schema = {
+      definitions: { pet: { properties: { name: { type: "string" } } } },
+      discriminator: "kind",
+      mapping: { owner: { properties: { pet: { ref: "pet" } } } },
+    };
+
+    expect(toJSONSchema(schema, { dialect: "openapi3.1" })).toEqual({
+      schema: {
+        oneOf: [
+          {
+            type: "object",
+            properties: {
+              kind: { const: "owner" },
+              pet: { $ref: "#/components/schemas/pet" },
+            },
+            required: ["kind", "pet"],
+            additionalProperties: false,
+          },
+        ],
+        discriminator: { propertyName: "kind" },
+      },
+      components: {
+        schemas: {
+          pet: {
+            type: "object",
+            properties: { name: { type: "string" } },
+            required: ["name"],
+            additionalProperties: false,
+          },
+        },
+      },
+      warnings: [],
+    });
+  });
+
+  it("warns about what it cannot convert exactly", () => {
+    const schema: Schema = {
+      definitions: { "a b": {} },
+      elements: { metadata: { description: 1, typescriptType: "Foo" } },
+      metadata: { description: "ok" },
+    };
+
+    const { schema: result, warnings } = toJSONSchema(schema, {
+      dialect: "openapi3.1",
+    });
+
+    expect(result).toEqual({
+      type: "array",
+      items: {},
+      description: "ok",
+    });
+
+    expect(warnings).toEqual([
+      {
+        path: ["definitions", "a b"],
+        code: "invalid_component_name",
+        message: "definition name is not a valid OpenAPI component name: a b",
+      },
+      {
+        path: ["elements", "metadata", "description"],
+        code: "unsupported_metadata",
+        message: "metadata has no JSON Schema equivalent: description",
+      },
+      {
+        path: ["elements", "metadata", "typescriptType"],
+        code: "unsupported_metadata",
+        message: "metadata has no JSON Schema equivalent: typescriptType",
+      },
+    ]);
+  });
+});
+
+describe("fromJSONSchema", () => {
+  it("converts each keyword", () => {
+    const cases: [unknown, Schema][] = [
+      [true, {}],
+      [{}, {}],
+      [{ type: "boolean" }, { type: "boolean" }],
+      [{ type: ["string", "null"] }, { type: "string", nullable: true }],
+      [{ type: "string", format: "date-time" }, { type: "timestamp" }],
+      [{ type: ["integer", "number"] }, { type: "float64" }],
+      [{ type: "integer", minimum: 0, maximum: 255 }, { type: "uint8" }],
+      [
+        { type: "integer", exclusiveMinimum: -32769, exclusiveMaximum: 32768 },
+        { type: "int16" },
+      ],
+      [{ enum: ["a", "b", "a", null] }, { enum: ["a", "b"], nullable: true }],
+      [{ const: "a" }, { enum: ["a"] }],
+      [{ type: "array", items: {} }, { elements: {} }],
+      [{ type: "array" }, { elements: {} }],
+      [{ type: "object" }, { values: {} }],
+      [
+        { type: "object", additionalProperties: { type: "string" } },
+        { values: { type: "string" } },
+      ],
+      [
+        { type: "object", additionalProperties: false },
+        { properties: {} },
+      ],
+      [
+        {
+          type: "object",
+          properties: { a: {}, b: {} },
+          required: ["a", "c"],
+          additionalProperties: true,
+        },
+        {
+          properties: { a: {}, c: {} },
+          optionalProperties: { b: {} },
+          additionalProperties: true,
+        },
+      ],
+      [
+        { anyOf: [{ type: "null" }, { $ref: "#/$defs/a%20b" }] },
+        { ref: "a b", nullable: true },
+      ],
+      [{ allOf: [{ type: "boolean" }] }, { type: "boolean" }],
+      [
+        { type: "boolean", nullable: true, description: "x" },
+        { type: "boolean", nullable: true, metadata: { description: "x" } },
+      ],
+    ];
+
+    for (const [doc, expected] of cases) {
+      const defs = { "a b": {} };
+      const { schema, warnings } = fromJSONSchema(
+        typeof doc === "object" ? { ...doc, $defs: defs } : doc
+      );
+
+      if (typeof doc === "object") {
+        expect(schema).toEqual({ definitions: defs, ...expected });
+      } else {
+        expect(schema).toEqual(expected);
+      }
+
+      expect(warnings).toEqual([]);
+    }
+  });
+
+  it("converts oneOf with const tags into a discriminator", () => {
+    const doc = {
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      definitions: {
+        circle: {
+          type: "object",
+          properties: { kind: { const: "circle" }, r: { type: "number" } },
+          required: ["kind", "r"],
+          additionalProperties: false,
+        },
+      },
+      oneOf: [
+        { $ref: "#/definitions/circle" },
+        {
+          properties: { kind: { enum: ["square"] }, side: { type: "number" } },
+          required: ["kind"],
+        },
+        { type: "null" },
+      ],
+      discriminator: { propertyName: "kind" },
+    };
+
+    expect(fromJSONSchema(doc)).toEqual({
+      schema: {
+        definitions: {
+          circle: {
+            properties: { kind: { enum: ["circle"] }, r: { type: "float64" } },
+          },
+        },
+        discriminator: "kind",
+        mapping: {
+          circle: { properties: { r: { type: "float64" } } },
+          square: {
+            optionalProperties: { side: { type: "float64" } },
+            additionalProperties: true,
+          },
+        },
+        nullable: true,
+      },
+      warnings: [],
+    });
+  });
+
+  it("stops inlining definitions that refer back to themselves", () => {
+    const union = {
+      oneOf: [{ $ref: "#/$defs/node" }, { $ref: "#/$defs/leaf" }],
+    };
+
+    const doc = {
+      $defs: {
+        node: {
+          type: "object",
+          properties: {
+            kind: { const: "node" },
+            children: { type: "array", items: union },
+          },
+          required: ["kind", "children"],
+          additionalProperties: false,
+        },
+        leaf: {
+          type: "object",
+          properties: { kind: { const: "leaf" }, value: { type: "string" } },
+          required: ["kind", "value"],
+          additionalProperties: false,
+        },
+      },
+      ...union,
+    };
+
+    const mapping = {
+      node: { properties: { children: { elements: {} } } },
+      leaf: { properties: { value: { type: "string" } } },
+    };
+
+    expect(fromJSONSchema(doc)).toEqual({
+      schema: {
+        definitions: {
+          node: {
+            properties: {
+              kind: { enum: ["node"] },
+              children: { elements: { discriminator: "kind", mapping } },
+            },
+          },
+          leaf: {
+            properties: {
+              kind: { enum: ["leaf"] },
+              value: { type: "string" },
+            },
+          },
+        },
+        discriminator: "kind",
+        mapping,
+      },
+      warnings: [
+        {
+          path: ["$defs", "node", "properties", "children", "items", "oneOf"],
+          code: "approximated_keyword",
+          message:
+            "schemas refer back to the definition node, so it was converted " +
+            "to the empty form",
+        },
+      ],
+    });
+  });
+
+  it("reports what it drops or approximates", () => {
+    const doc = {
+      title: "User",
+      type: "object",
+      properties: {
+        name: { type: "string", minLength: 1, pattern: "^[a-z]+$" },
+        age: { type: "integer", minimum: 0, maximum: 150 },
+        id: { anyOf: [{ type: "string" }, { type: "integer" }] },
+        tags: { type: "array", items: false, $defs: {} },
+      },
+      additionalProperties: { type: "string" },
+    };
+
+    expect(fromJSONSchema(doc)).toEqual({
+      schema: {
+        optionalProperties: {
+          name: { type: "string" },
+          age: { type: "uint8" },
+          id: {},
+          tags: { elements: {} },
+        },
+        additionalProperties: true,
+      },
+      warnings: [
+        {
+          path: ["properties", "name", "minLength"],
+          code: "dropped_keyword",
+          message: "keyword has no JSON Typedef equivalent: minLength",
+        },
+        {
+          path: ["properties", "name", "pattern"],
+          code: "dropped_keyword",
+          message: "keyword has no JSON Typedef equivalent: pattern",
+        },
+        {
+          path: ["properties", "age"],
+          code: "approximated_keyword",
+          message: "integer bounds were widened to those of uint8",
+        },
+        {
+          path: ["properties", "id", "anyOf"],
+          code: "approximated_keyword",
+          message:
+            "schemas are not a known pattern, so it was converted to the " +
+            "empty form",
+        },
+        {
+          path: ["properties", "tags", "items"],
+          code: "approximated_keyword",
+          message:
+            "schema that accepts nothing was converted to the empty form",
+        },
+        {
+          path: ["properties", "tags", "$defs"],
+          code: "dropped_keyword",
+          message: "keyword has no JSON Typedef equivalent: $defs",
+        },
+        {
+          path: ["additionalProperties"],
+          code: "approximated_keyword",
+          message: "additional properties of any kind were allowed",
+        },
+        {
+          path: ["title"],
+          code: "dropped_keyword",
+          message: "keyword has no JSON Typedef equivalent: title",
+        },
+      ],
+    });
+  });
+
+  it("rejects data that is not a JSON Schema", () => {
+    expect(() =>
+      fromJSONSchema({ type: "object", properties: { "a/b": 1 } })
+    ).toThrow(
+      new InvalidJSONSchemaError(
+        "schema must be an object or a boolean at /properties/a~1b"
+      )
+    );
+  });
+});
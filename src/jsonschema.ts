@@ -0,0 +1,1207 @@
+/**
+ * Module jsonschema provides a way to convert JSON Typedef schemas to and from
+ * [JSON Schema](https://json-schema.org), for use with tools that only
+ * understand JSON Schema or OpenAPI.
+ *
+ * The most important functions in this module are {@link toJSONSchema}, which
+ * returns a {@link JSONSchemaResult}, and {@link fromJSONSchema}, which returns
+ * a {@link FromJSONSchemaResult}.
+ *
+ * @packageDocumentation
+ */
+
+import { encodePointer, decodePointer } from "./pointer";
+import {
+  Schema,
+  SchemaFormProperties,
+  Type,
+  isEmptyForm,
+  isRefForm,
+  isTypeForm,
+  isEnumForm,
+  isElementsForm,
+  isPropertiesForm,
+  isValuesForm,
+  isDiscriminatorForm,
+} from "./schema";
+import { INT_RANGES, INT_TYPES } from "./typecheck";
+import { hasOwn, isObject, setOwn } from "./objects";
+
+/**
+ * JSONSchema is a JSON Schema, represented as a plain object of keywords.
+ */
+export type JSONSchema = { [keyword: string]: unknown };
+
+/**
+ * JSONSchemaDialect represents the kinds of JSON Schema {@link toJSONSchema}
+ * can produce:
+ *
+ * * `draft2020-12`: a standalone [JSON Schema 2020-12][draft] document, with
+ *   definitions in `$defs`
+ * * `openapi3.1`: a schema for use in an [OpenAPI 3.1][openapi] document, with
+ *   definitions in `components/schemas`
+ *
+ * [draft]: https://json-schema.org/draft/2020-12/json-schema-core.html
+ * [openapi]: https://spec.openapis.org/oas/v3.1.0
+ */
+export type JSONSchemaDialect = "draft2020-12" | "openapi3.1";
+
+/**
+ * JSONSchemaOptions are the options you can pass to {@link toJSONSchema}.
+ */
+export interface JSONSchemaOptions {
+  /**
+   * dialect is the kind of JSON Schema to produce. By default, dialect is
+   * `draft2020-12`.
+   */
+  dialect?: JSONSchemaDialect;
+}
+
+/**
+ * JSONSchemaResult is the result of {@link toJSONSchema}.
+ */
+export interface JSONSchemaResult {
+  /**
+   * schema is the converted schema.
+   */
+  schema: JSONSchema;
+
+  /**
+   * components is where the converted definitions are, if the dialect is
+   * `openapi3.1`. It is meant to be merged into the `components` of an
+   * OpenAPI document. For other dialects, components is undefined.
+   */
+  components?: { schemas: { [name: string]: JSONSchema } };
+
+  /**
+   * warnings describes the parts of the schema that could not be converted
+   * exactly, in the order they were found.
+   */
+  warnings: ConversionWarning[];
+}
+
+/**
+ * FromJSONSchemaResult is the result of {@link fromJSONSchema}.
+ */
+export interface FromJSONSchemaResult {
+  /**
+   * schema is the converted schema.
+   */
+  schema: Schema;
+
+  /**
+   * warnings describes every keyword that was dropped or approximated, in the
+   * order they were found.
+   */
+  warnings: ConversionWarning[];
+}
+
+/**
+ * InvalidJSONSchemaError is the error thrown when {@link fromJSONSchema} is
+ * given data that is not a JSON Schema.
+ */
+export class InvalidJSONSchemaError extends Error {}
+
+/**
+ * ConversionWarning describes one part of a schema that could not be converted
+ * exactly.
+ */
+export interface ConversionWarning {
+  /**
+   * path is the path to the part of the schema being converted with the
+   * problem. Like the paths in {@link ValidationError}, its elements are meant
+   * to be used as the path segments of an RFC6901 JSON Pointer.
+   */
+  path: string[];
+
+  /**
+   * code is a machine-readable description of the problem.
+   */
+  code: ConversionWarningCode;
+
+  /**
+   * message is a human-readable description of the problem.
+   */
+  message: string;
+}
+
+/**
+ * ConversionWarningCode represents the kinds of problems that can be reported
+ * when converting schemas.
+ *
+ * The following codes are reported by {@link toJSONSchema}:
+ *
+ * * `unsupported_metadata`: a `metadata` value other than a string
+ *   `description` was left out, because JSON Schema has no equivalent for it
+ * * `invalid_component_name`: a definition's name is not allowed as the name of
+ *   an OpenAPI component, though it was used anyway
+ *
+ * The following codes are reported by {@link fromJSONSchema}:
+ *
+ * * `dropped_keyword`: a keyword was left out, because JSON Typedef has no
+ *   equivalent for it
+ * * `approximated_keyword`: a keyword was converted into something that does
+ *   not accept exactly the same data
+ */
+export type ConversionWarningCode =
+  | "unsupported_metadata"
+  | "invalid_component_name"
+  | "dropped_keyword"
+  | "approximated_keyword";
+
+/**
+ * toJSONSchema converts a JSON Typedef schema into an equivalent JSON Schema.
+ *
+ * Each form is converted like so:
+ *
+ * * The empty form becomes `{}`.
+ * * `ref` becomes `$ref`, pointing into `$defs` or `components/schemas`.
+ * * The integer types become `integer`, with a `minimum` and `maximum`. The
+ *   float types become `number`, and `timestamp` becomes a `string` with a
+ *   `format` of `date-time`.
+ * * `enum` becomes `enum`.
+ * * `elements` becomes an `array` with `items`.
+ * * `properties` and `optionalProperties` become an `object` with
+ *   `properties` and `required`, and `additionalProperties` set to false
+ *   unless the JSON Typedef schema allows additional properties.
+ * * `values` becomes an `object` with `additionalProperties`.
+ * * `discriminator` becomes `oneOf`, with each of the mapping's schemas
+ *   requiring that the tag property have a `const` value. For the
+ *   `openapi3.1` dialect, an OpenAPI `discriminator` object is added too.
+ *
+ * `nullable` schemas also accept `null`, and `metadata.description` becomes
+ * `description`.
+ *
+ * ```ts
+ * // Returns:
+ * //
+ * // {
+ * //   schema: {
+ * //     $schema: "https://json-schema.org/draft/2020-12/schema",
+ * //     type: ["array", "null"],
+ * //     items: { type: "integer", minimum: 0, maximum: 255 },
+ * //   },
+ * //   warnings: [],
+ * // }
+ * toJSONSchema({ elements: { type: "uint8" }, nullable: true });
+ * ```
+ *
+ * Note that JSON Schema does not require validators to check `format`, so a
+ * JSON Schema validator may accept strings that the `timestamp` type rejects.
+ *
+ * @param schema The schema to convert
+ * @param options Conversion options. Optional.
+ */
+export function toJSONSchema(
+  schema: Schema,
+  options: JSONSchemaOptions = {}
+): JSONSchemaResult {
+  const state: ConversionState = {
+    openAPI: options.dialect === "openapi3.1",
+    path: [],
+    warnings: [],
+  };
+
+  const definitions: { [name: string]: JSONSchema } = {};
+  for (const [name, subSchema] of Object.entries(schema.definitions || {})) {
+    if (state.openAPI && !/^[a-zA-Z0-9._-]+$/.test(name)) {
+      warn(
+        state,
+        ["definitions", name],
+        "invalid_component_name",
+        `definition name is not a valid OpenAPI component name: ${name}`
+      );
+    }
+
+    state.path.push("definitions", name);
+    setOwn(definitions, name, convert(state, subSchema));
+    state.path.splice(-2);
+  }
+
+  const root = convert(state, schema);
+
+  if (state.openAPI) {
+    return {
+      schema: root,
+      components: { schemas: definitions },
+      warnings: state.warnings,
+    };
+  }
+
+  const result: JSONSchema = {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    ...root,
+  };
+
+  if (schema.definitions !== undefined) {
+    result.$defs = definitions;
+  }
+
+  return { schema: result, warnings: state.warnings };
+}
+
+interface ConversionState {
+  openAPI: boolean;
+  path: string[];
+  warnings: ConversionWarning[];
+}
+
+function convert(state: ConversionState, schema: Schema): JSONSchema {
+  const result = withNull(convertForm(state, schema), schema.nullable);
+
+  for (const [name, value] of Object.entries(schema.metadata || {})) {
+    if (name === "description" && typeof value === "string") {
+      result.description = value;
+    } else {
+      warn(
+        state,
+        [...state.path, "metadata", name],
+        "unsupported_metadata",
+        `metadata has no JSON Schema equivalent: ${name}`
+      );
+    }
+  }
+
+  return result;
+}
+
+// convertForm converts a schema, ignoring its nullable and metadata keywords.
+function convertForm(state: ConversionState, schema: Schema): JSONSchema {
+  if (isRefForm(schema)) {
+    const prefix = state.openAPI ? "#/components/schemas" : "#/$defs";
+    // The name is escaped for use in a JSON Pointer, and then in a URI.
+    const name = encodeURIComponent(encodePointer([schema.ref]).slice(1));
+    return { $ref: `${prefix}/${name}` };
+  }
+
+  if (isTypeForm(schema)) {
+    switch (schema.type) {
+      case "boolean":
+      case "string":
+        return { type: schema.type };
+      case "timestamp":
+        return { type: "string", format: "date-time" };
+      case "float32":
+      case "float64":
+        return { type: "number" };
+      default: {
+        const [minimum, maximum] = INT_RANGES[schema.type];
+        return { type: "integer", minimum, maximum };
+      }
+    }
+  }
+
+  if (isEnumForm(schema)) {
+    return { enum: [...schema.enum] };
+  }
+
+  if (isElementsForm(schema)) {
+    state.path.push("elements");
+    const items = convert(state, schema.elements);
+    state.path.pop();
+
+    return { type: "array", items };
+  }
+
+  if (isPropertiesForm(schema)) {
+    return convertProperties(state, schema);
+  }
+
+  if (isValuesForm(schema)) {
+    state.path.push("values");
+    const additionalProperties = convert(state, schema.values);
+    state.path.pop();
+
+    return { type: "object", additionalProperties };
+  }
+
+  if (isDiscriminatorForm(schema)) {
+    const oneOf: JSONSchema[] = [];
+
+    for (const [tag, subSchema] of Object.entries(schema.mapping)) {
+      state.path.push("mapping", tag);
+      const branch = convert(state, subSchema);
+      state.path.splice(-2);
+
+      // The mapping's schemas are of the properties form, so the tag can be
+      // added to the JSON Schema they were converted into.
+      const properties = branch.properties as { [name: string]: JSONSchema };
+      const required = (branch.required || []) as string[];
+
+      oneOf.push({
+        ...branch,
+        properties: withOwn(properties, schema.discriminator, { const: tag }),
+        required: [schema.discriminator, ...required],
+      });
+    }
+
+    if (oneOf.length === 0) {
+      // oneOf can't be empty, but a discriminator with no mapping rejects
+      // everything anyway.
+      return { not: {} };
+    }
+
+    if (state.openAPI) {
+      return { oneOf, discriminator: { propertyName: schema.discriminator } };
+    }
+
+    return { oneOf };
+  }
+
+  return {};
+}
+
+function convertProperties(
+  state: ConversionState,
+  schema: SchemaFormProperties
+): JSONSchema {
+  const properties: { [name: string]: JSONSchema } = {};
+  const required: string[] = [];
+
+  for (const [name, subSchema] of Object.entries(schema.properties || {})) {
+    state.path.push("properties", name);
+    setOwn(properties, name, convert(state, subSchema));
+    state.path.splice(-2);
+
+    required.push(name);
+  }
+
+  for (const [name, subSchema] of Object.entries(
+    schema.optionalProperties || {}
+  )) {
+    state.path.push("optionalProperties", name);
+    setOwn(properties, name, convert(state, subSchema));
+    state.path.splice(-2);
+  }
+
+  const result: JSONSchema = { type: "object", properties };
+  if (required.length !== 0) {
+    result.required = required;
+  }
+
+  if (!schema.additionalProperties) {
+    result.additionalProperties = false;
+  }
+
+  return result;
+}
+
+// withNull makes a converted schema also accept null, if nullable is true.
+function withNull(schema: JSONSchema, nullable?: boolean): JSONSchema {
+  if (!nullable || Object.keys(schema).length === 0) {
+    return schema;
+  }
+
+  if (typeof schema.type === "string") {
+    return { ...schema, type: [schema.type, "null"] };
+  }
+
+  if (Array.isArray(schema.enum)) {
+    return { ...schema, enum: [...schema.enum, null] };
+  }
+
+  return { anyOf: [schema, { type: "null" }] };
+}
+
+/**
+ * fromJSONSchema converts a JSON Schema into a JSON Typedef schema.
+ *
+ * These keywords are converted:
+ *
+ * * `type`, along with `format: "date-time"` for strings and `minimum` and
+ *   `maximum` for integers. Integers become the narrowest integer type that
+ *   fits their bounds. A `"null"` type makes the schema `nullable`.
+ * * `properties`, `required`, and `additionalProperties`. Objects with only
+ *   `additionalProperties` become the values form.
+ * * `items`, which becomes `elements`.
+ * * `enum` and `const`, if their values are strings.
+ * * `$ref`, if it points into the root `$defs` or `definitions`, which become
+ *   `definitions`.
+ * * `oneOf` and `anyOf`, if they are a schema and `{ "type": "null" }`, which
+ *   becomes a `nullable` schema, or if every one of their schemas requires the
+ *   same property to have a different `const` string, which becomes the
+ *   discriminator form.
+ * * `nullable`, from OpenAPI 3.0.
+ * * `description`, which becomes `metadata.description`.
+ *
+ * Every other keyword, like `pattern`, `minLength`, or an `anyOf` that is not
+ * one of those patterns, is dropped or approximated, and reported in
+ * {@link FromJSONSchemaResult.warnings} with its path in `doc`.
+ *
+ * ```ts
+ * // Returns:
+ * //
+ * // {
+ * //   schema: { elements: { type: "string" } },
+ * //   warnings: [
+ * //     {
+ * //       path: ["items", "minLength"],
+ * //       code: "dropped_keyword",
+ * //       message: "keyword has no JSON Typedef equivalent: minLength",
+ * //     },
+ * //   ],
+ * // }
+ * fromJSONSchema({ type: "array", items: { type: "string", minLength: 1 } });
+ * ```
+ *
+ * Throws {@link InvalidJSONSchemaError} if `doc`, or any schema within it, is
+ * neither an object nor a boolean.
+ *
+ * @param doc The JSON Schema to convert
+ */
+export function fromJSONSchema(doc: unknown): FromJSONSchemaResult {
+  const state: ImportState = {
+    root: doc,
+    definitions: {},
+    inlining: new Set(),
+    warnings: [],
+  };
+
+  if (isObject(doc)) {
+    for (const keyword of ["definitions", "$defs"]) {
+      const definitions = doc[keyword];
+      if (isObject(definitions)) {
+        for (const name of Object.keys(definitions)) {
+          setOwn(state.definitions, name, [keyword, name]);
+        }
+      }
+    }
+  }
+
+  const definitions: { [name: string]: Schema } = {};
+  for (const [name, path] of Object.entries(state.definitions)) {
+    const subDoc = definition(state, name);
+    setOwn(definitions, name, importSchema(state, subDoc, path));
+  }
+
+  const schema = importSchema(state, doc, [], [
+    "$schema",
+    "$defs",
+    "definitions",
+  ]);
+
+  if (Object.keys(definitions).length === 0) {
+    return { schema, warnings: state.warnings };
+  }
+
+  return { schema: { definitions, ...schema }, warnings: state.warnings };
+}
+
+interface ImportState {
+  root: unknown;
+
+  // The path in the JSON Schema to each definition, by name.
+  definitions: { [name: string]: string[] };
+
+  // The definitions being inlined into a discriminator mapping.
+  inlining: Set<string>;
+  warnings: ConversionWarning[];
+}
+
+type JSONSchemaNode = { [keyword: string]: unknown };
+
+// importSchema converts a JSON Schema, and reports every keyword it has that
+// was not used in the conversion, other than those in ignored. If tag is
+// given, the schema is being converted as part of a discriminator mapping, and
+// is always converted into the properties form, without the tag property.
+function importSchema(
+  state: ImportState,
+  doc: unknown,
+  path: string[],
+  ignored: string[] = [],
+  tag?: string
+): Schema {
+  if (doc === true) {
+    return {};
+  }
+
+  if (doc === false) {
+    warn(
+      state,
+      path,
+      "approximated_keyword",
+      "schema that accepts nothing was converted to the empty form"
+    );
+
+    return {};
+  }
+
+  if (!isObject(doc)) {
+    throw new InvalidJSONSchemaError(
+      `schema must be an object or a boolean at ${
+        path.length === 0 ? "the root" : encodePointer(path)
+      }`
+    );
+  }
+
+  const used = new Set(ignored);
+  const schema =
+    tag === undefined
+      ? importForm(state, doc, path, used)
+      : importObject(state, doc, path, used, tag);
+
+  if (tag === undefined && doc.nullable === true) {
+    used.add("nullable");
+    schema.nullable = true;
+  }
+
+  if (typeof doc.description === "string") {
+    used.add("description");
+    schema.metadata = { description: doc.description };
+  }
+
+  for (const keyword of Object.keys(doc)) {
+    if (!used.has(keyword)) {
+      warn(
+        state,
+        [...path, keyword],
+        "dropped_keyword",
+        `keyword has no JSON Typedef equivalent: ${keyword}`
+      );
+    }
+  }
+
+  return schema;
+}
+
+// importForm converts a JSON Schema, ignoring its nullable and description
+// keywords. It adds each keyword it uses to used.
+function importForm(
+  state: ImportState,
+  doc: JSONSchemaNode,
+  path: string[],
+  used: Set<string>
+): Schema {
+  if (typeof doc.$ref === "string") {
+    used.add("$ref");
+
+    const name = refName(state, doc.$ref);
+    if (name === undefined) {
+      return approximate(
+        state,
+        [...path, "$ref"],
+        "$ref is not to a definition"
+      );
+    }
+
+    return { ref: name };
+  }
+
+  if (Array.isArray(doc.enum)) {
+    used.add("enum");
+    return importEnum(state, doc.enum, [...path, "enum"]);
+  }
+
+  if (hasOwn(doc, "const")) {
+    used.add("const");
+    return importEnum(state, [doc.const], [...path, "const"]);
+  }
+
+  for (const keyword of ["oneOf", "anyOf"]) {
+    const subDocs = doc[keyword];
+    if (Array.isArray(subDocs)) {
+      used.add(keyword);
+      return importUnion(state, doc, subDocs, [...path, keyword], used);
+    }
+  }
+
+  if (Array.isArray(doc.allOf) && doc.allOf.length === 1) {
+    used.add("allOf");
+    return importSchema(state, doc.allOf[0], [...path, "allOf", "0"]);
+  }
+
+  let types: unknown[];
+  if (typeof doc.type === "string") {
+    types = [doc.type];
+  } else if (Array.isArray(doc.type)) {
+    types = doc.type;
+  } else {
+    // Without a type, keywords like properties don't stop other kinds of data
+    // from being accepted. But a schema with them is almost always meant to
+    // only accept that one kind of data.
+    const keyword = ["properties", "required", "additionalProperties", "items"]
+      .filter((keyword) => hasOwn(doc, keyword))
+      .shift();
+
+    if (keyword === undefined) {
+      return {};
+    }
+
+    types = [keyword === "items" ? "array" : "object"];
+    warn(
+      state,
+      [...path, keyword],
+      "approximated_keyword",
+      `schema has no type, so it was assumed to be for ${types[0]}s`
+    );
+  }
+
+  if (doc.type !== undefined) {
+    used.add("type");
+  }
+
+  // Every integer is a number, so "number" alone accepts the same data.
+  if (types.includes("number")) {
+    types = types.filter((type) => type !== "integer");
+  }
+
+  const nonNull = types.filter((type) => type !== "null");
+  if (nonNull.length !== 1) {
+    return approximate(
+      state,
+      [...path, "type"],
+      nonNull.length === 0
+        ? "type only accepts null"
+        : "type accepts more than one kind of data"
+    );
+  }
+
+  let schema: Schema;
+  switch (nonNull[0]) {
+    case "boolean":
+      schema = { type: "boolean" };
+      break;
+    case "string":
+      schema = { type: "string" };
+      if (doc.format === "date-time") {
+        used.add("format");
+        schema.type = "timestamp";
+      }
+      break;
+    case "number":
+      schema = { type: "float64" };
+      break;
+    case "integer":
+      schema = importInteger(state, doc, path, used);
+      break;
+    case "array":
+      schema = importArray(state, doc, path, used);
+      break;
+    case "object":
+      schema = importObject(state, doc, path, used);
+      break;
+    default:
+      return approximate(
+        state,
+        [...path, "type"],
+        `type is not known: ${nonNull[0]}`
+      );
+  }
+
+  if (nonNull.length !== types.length) {
+    schema.nullable = true;
+  }
+
+  return schema;
+}
+
+function importEnum(
+  state: ImportState,
+  values: unknown[],
+  path: string[]
+): Schema {
+  const strings = values.filter((value) => typeof value === "string");
+  const nullable = values.includes(null);
+
+  if (
+    strings.length === 0 ||
+    strings.length + (nullable ? 1 : 0) !== values.length
+  ) {
+    return approximate(state, path, "values are not all strings");
+  }
+
+  // Duplicates aren't allowed in JSON Typedef, and are pointless in JSON
+  // Schema.
+  const schema: Schema = { enum: Array.from(new Set(strings as string[])) };
+  if (nullable) {
+    schema.nullable = true;
+  }
+
+  return schema;
+}
+
+// importUnion converts a oneOf or anyOf, if it is one of the patterns that
+// JSON Typedef has an equivalent for.
+function importUnion(
+  state: ImportState,
+  doc: JSONSchemaNode,
+  subDocs: unknown[],
+  path: string[],
+  used: Set<string>
+): Schema {
+  const branches: [unknown, string[]][] = [];
+  let nulls = 0;
+
+  subDocs.forEach((subDoc, index) => {
+    if (isNullSchema(subDoc)) {
+      nulls++;
+    } else {
+      branches.push([subDoc, [...path, index.toString()]]);
+    }
+  });
+
+  let schema: Schema | undefined;
+  if (branches.length === 1) {
+    schema = importSchema(state, branches[0][0], branches[0][1]);
+  } else {
+    schema = importDiscriminator(state, doc, branches, path, used);
+  }
+
+  if (schema === undefined) {
+    return approximate(state, path, "schemas are not a known pattern");
+  }
+
+  if (nulls !== 0) {
+    // oneOf rejects data that more than one of its schemas accept, so null
+    // may not be accepted after all.
+    if (
+      path[path.length - 1] === "oneOf" &&
+      (nulls > 1 || acceptsNull(state, schema))
+    ) {
+      warn(
+        state,
+        path,
+        "approximated_keyword",
+        "null was accepted, though more than one schema accepts it"
+      );
+    }
+
+    schema.nullable = true;
+  }
+
+  return schema;
+}
+
+// importDiscriminator converts the schemas of a oneOf or anyOf into the
+// discriminator form, if every one of them is an object that requires the
+// same property to have a different constant string.
+function importDiscriminator(
+  state: ImportState,
+  doc: JSONSchemaNode,
+  branches: [unknown, string[]][],
+  unionPath: string[],
+  used: Set<string>
+): Schema | undefined {
+  // Branches may be refs to definitions, but the discriminator form needs the
+  // definitions themselves. name is the definition a branch refers to.
+  const resolved: [JSONSchemaNode, string[], string | undefined][] = [];
+  for (const [subDoc, path] of branches) {
+    if (!isObject(subDoc)) {
+      return undefined;
+    }
+
+    const name =
+      typeof subDoc.$ref === "string"
+        ? refName(state, subDoc.$ref)
+        : undefined;
+
+    if (name === undefined) {
+      resolved.push([subDoc, path, undefined]);
+      continue;
+    }
+
+    const node = definition(state, name);
+    if (!isObject(node)) {
+      return undefined;
+    }
+
+    // A mapping can't be a ref, so a union inside of a definition it refers
+    // to would have to be inlined again, forever.
+    if (state.inlining.has(name)) {
+      return approximate(
+        state,
+        unionPath,
+        `schemas refer back to the definition ${name}`
+      );
+    }
+
+    resolved.push([node, state.definitions[name], name]);
+  }
+
+  if (resolved.length === 0) {
+    return undefined;
+  }
+
+  // OpenAPI's discriminator keyword says which property is the tag. Otherwise,
+  // the tag must be one of the properties of the first schema.
+  const hint = doc.discriminator;
+  const candidates =
+    isObject(hint) && typeof hint.propertyName === "string"
+      ? [hint.propertyName]
+      : Object.keys(propertiesOf(resolved[0][0]));
+
+  for (const tagName of candidates) {
+    const tags = resolved.map(([node]) => tagOf(node, tagName));
+    if (
+      tags.some((tag) => tag === undefined) ||
+      new Set(tags).size !== tags.length
+    ) {
+      continue;
+    }
+
+    if (isObject(hint)) {
+      used.add("discriminator");
+    }
+
+    const mapping: { [tag: string]: Schema } = {};
+    resolved.forEach(([node, path, name], index) => {
+      if (name !== undefined) {
+        state.inlining.add(name);
+      }
+
+      setOwn(
+        mapping,
+        tags[index]!,
+        importSchema(state, node, path, [], tagName)
+      );
+
+      if (name !== undefined) {
+        state.inlining.delete(name);
+      }
+    });
+
+    return { discriminator: tagName, mapping };
+  }
+
+  return undefined;
+}
+
+function importInteger(
+  state: ImportState,
+  doc: JSONSchemaNode,
+  path: string[],
+  used: Set<string>
+): Schema {
+  let min = -Infinity;
+  let max = Infinity;
+
+  if (typeof doc.minimum === "number") {
+    used.add("minimum");
+    min = Math.max(min, Math.ceil(doc.minimum));
+  }
+
+  if (typeof doc.exclusiveMinimum === "number") {
+    used.add("exclusiveMinimum");
+    min = Math.max(min, Math.floor(doc.exclusiveMinimum) + 1);
+  }
+
+  if (typeof doc.maximum === "number") {
+    used.add("maximum");
+    max = Math.min(max, Math.floor(doc.maximum));
+  }
+
+  if (typeof doc.exclusiveMaximum === "number") {
+    used.add("exclusiveMaximum");
+    max = Math.min(max, Math.ceil(doc.exclusiveMaximum) - 1);
+  }
+
+  const type = INT_TYPES.find(
+    (type) => INT_RANGES[type][0] <= min && max <= INT_RANGES[type][1]
+  );
+
+  if (type === undefined) {
+    warn(
+      state,
+      [...path, "type"],
+      "approximated_keyword",
+      "integer does not fit in an integer type, so it was converted to float64"
+    );
+
+    return { type: "float64" };
+  }
+
+  if (INT_RANGES[type][0] !== min || INT_RANGES[type][1] !== max) {
+    warn(
+      state,
+      path,
+      "approximated_keyword",
+      `integer bounds were widened to those of ${type}`
+    );
+  }
+
+  return { type: type as Type };
+}
+
+function importArray(
+  state: ImportState,
+  doc: JSONSchemaNode,
+  path: string[],
+  used: Set<string>
+): Schema {
+  if (hasOwn(doc, "prefixItems") || Array.isArray(doc.items)) {
+    // These are tuples, which JSON Typedef doesn't have.
+    used.add("prefixItems");
+    used.add("items");
+
+    const keyword = hasOwn(doc, "prefixItems") ? "prefixItems" : "items";
+    return {
+      elements: approximate(
+        state,
+        [...path, keyword],
+        "tuples are not supported"
+      ),
+    };
+  }
+
+  if (hasOwn(doc, "items")) {
+    used.add("items");
+    return { elements: importSchema(state, doc.items, [...path, "items"]) };
+  }
+
+  return { elements: {} };
+}
+
+// importObject converts an object schema. If tag is given, the result is
+// always of the properties form, and does not include the tag property.
+function importObject(
+  state: ImportState,
+  doc: JSONSchemaNode,
+  path: string[],
+  used: Set<string>,
+  tag?: string
+): Schema {
+  const properties = propertiesOf(doc);
+  const required = Array.isArray(doc.required) ? doc.required : [];
+  const additional = doc.additionalProperties;
+
+  for (const keyword of ["properties", "required", "additionalProperties"]) {
+    if (hasOwn(doc, keyword)) {
+      used.add(keyword);
+    }
+  }
+
+  if (tag !== undefined && doc.type === "object") {
+    used.add("type");
+  }
+
+  if (
+    tag === undefined &&
+    Object.keys(properties).length === 0 &&
+    required.length === 0 &&
+    additional !== false
+  ) {
+    return {
+      values:
+        additional === undefined
+          ? {}
+          : importSchema(state, additional, [...path, "additionalProperties"]),
+    };
+  }
+
+  const requiredSchemas: { [name: string]: Schema } = {};
+  const optionalSchemas: { [name: string]: Schema } = {};
+
+  for (const [name, subDoc] of Object.entries(properties)) {
+    if (name === tag) {
+      continue;
+    }
+
+    setOwn(
+      required.includes(name) ? requiredSchemas : optionalSchemas,
+      name,
+      importSchema(state, subDoc, [...path, "properties", name])
+    );
+  }
+
+  for (const name of required) {
+    if (typeof name === "string" && name !== tag && !hasOwn(properties, name)) {
+      if (additional === false) {
+        warn(
+          state,
+          [...path, "required"],
+          "approximated_keyword",
+          `required property is not allowed, but was accepted: ${name}`
+        );
+      }
+
+      setOwn(requiredSchemas, name, {});
+    }
+  }
+
+  let schema: SchemaFormProperties;
+  if (Object.keys(optionalSchemas).length === 0) {
+    schema = { properties: requiredSchemas };
+  } else if (Object.keys(requiredSchemas).length === 0) {
+    schema = { optionalProperties: optionalSchemas };
+  } else {
+    schema = {
+      properties: requiredSchemas,
+      optionalProperties: optionalSchemas,
+    };
+  }
+
+  if (additional !== false) {
+    schema.additionalProperties = true;
+
+    if (
+      additional !== undefined &&
+      additional !== true &&
+      !isEmpty(additional)
+    ) {
+      warn(
+        state,
+        [...path, "additionalProperties"],
+        "approximated_keyword",
+        "additional properties of any kind were allowed"
+      );
+    }
+  }
+
+  return schema;
+}
+
+// refName returns the name of the definition a $ref points to, if it points
+// to one.
+function refName(state: ImportState, ref: string): string | undefined {
+  const match = /^#\/(\$defs|definitions)\/([^/]*)$/.exec(ref);
+  if (match === null) {
+    return undefined;
+  }
+
+  let name: string;
+  try {
+    [name] = decodePointer("/" + decodeURIComponent(match[2]));
+  } catch (err) {
+    return undefined;
+  }
+
+  const path = state.definitions[name];
+  if (!hasOwn(state.definitions, name) || path[0] !== match[1]) {
+    return undefined;
+  }
+
+  return name;
+}
+
+// definition returns the JSON Schema of a definition.
+function definition(state: ImportState, name: string): unknown {
+  const [keyword] = state.definitions[name];
+  return ((state.root as JSONSchemaNode)[keyword] as JSONSchemaNode)[name];
+}
+
+// approximate reports that a keyword was approximated with the empty form,
+// and returns the empty form.
+function approximate(
+  state: ImportState,
+  path: string[],
+  reason: string
+): Schema {
+  warn(
+    state,
+    path,
+    "approximated_keyword",
+    `${reason}, so it was converted to the empty form`
+  );
+
+  return {};
+}
+
+// isNullSchema returns whether a schema only accepts null.
+function isNullSchema(doc: unknown): boolean {
+  if (!isObject(doc) || Object.keys(doc).length !== 1) {
+    return false;
+  }
+
+  return (
+    doc.type === "null" ||
+    doc.const === null ||
+    (Array.isArray(doc.enum) && doc.enum.length === 1 && doc.enum[0] === null)
+  );
+}
+
+// acceptsNull returns whether a converted schema accepts null. For refs, it
+// only looks at the JSON Schema of the definition itself.
+function acceptsNull(state: ImportState, schema: Schema): boolean {
+  if (schema.nullable) {
+    return true;
+  }
+
+  if (!isRefForm(schema)) {
+    return isEmptyForm(schema);
+  }
+
+  const doc = definition(state, schema.ref);
+  if (!isObject(doc)) {
+    return doc === true;
+  }
+
+  const { description, ...rest } = doc;
+  return (
+    Object.keys(rest).length === 0 ||
+    doc.nullable === true ||
+    doc.type === "null" ||
+    (Array.isArray(doc.type) && doc.type.includes("null")) ||
+    doc.const === null ||
+    (Array.isArray(doc.enum) && doc.enum.includes(null)) ||
+    [doc.oneOf, doc.anyOf].some(
+      (subDocs) => Array.isArray(subDocs) && subDocs.some(isNullSchema)
+    )
+  );
+}
+
+// tagOf returns the string a schema requires a property to have, if it
+// requires one.
+function tagOf(doc: JSONSchemaNode, name: string): string | undefined {
+  const properties = propertiesOf(doc);
+  if (
+    !Array.isArray(doc.required) ||
+    !doc.required.includes(name) ||
+    !hasOwn(properties, name) ||
+    !isObject(properties[name])
+  ) {
+    return undefined;
+  }
+
+  const { const: value, enum: values } = properties[name] as JSONSchemaNode;
+  if (typeof value === "string") {
+    return value;
+  }
+
+  if (Array.isArray(values) && values.length === 1) {
+    return typeof values[0] === "string" ? values[0] : undefined;
+  }
+
+  return undefined;
+}
+
+function propertiesOf(doc: JSONSchemaNode): JSONSchemaNode {
+  return isObject(doc.properties) ? doc.properties : {};
+}
+
+function isEmpty(doc: unknown): boolean {
+  return isObject(doc) && Object.keys(doc).length === 0;
+}
+
+function warn(
+  state: { warnings: ConversionWarning[] },
+  path: string[],
+  code: ConversionWarningCode,
+  message: string
+) {
+  // A definition used in a discriminator mapping is converted more than once,
+  // but its problems only need to be reported once.
+  const pointer = encodePointer(path);
+  if (
+    !state.warnings.some(
+      (warning) =>
+        warning.code === code && encodePointer(warning.path) === pointer
+    )
+  ) {
+    state.warnings.push({ path, code, message });
+  }
+}
+
+// withOwn returns a copy of an object, with a property added at the start.
+function withOwn(
+  object: { [name: string]: JSONSchema },
+  name: string,
+  value: JSONSchema
+): { [name: string]: JSONSchema } {
+  const result = {};
+  setOwn(result, name, value);
+  for (const [key, subValue] of Object.entries(object)) {
+    setOwn(result, key, subValue);
+  }
+
+  return result;
+}
@@ -0,0 +1,43 @@
+/** @ignore *//** */
+
+// Schemas and instances often come from untrusted sources, so every module
+// looks up and sets properties through these functions, rather than with the
+// `in` operator, the hasOwnProperty method, or plain assignment. Those can see
+// properties inherited from Object.prototype, break on objects that have their
+// own hasOwnProperty, or set an object's prototype when the name is __proto__.
+
+// isObject returns whether data is a JSON object, as opposed to null or an
+// array. JSON has six basic types of data (null, boolean, number, string,
+// array, object), and three of their JS counterparts have a `typeof` of
+// "object".
+export function isObject(data: unknown): data is { [name: string]: unknown } {
+  return typeof data === "object" && data !== null && !Array.isArray(data);
+}
+
+// hasOwn returns whether an object has its own property with the given name,
+// ignoring inherited properties like "constructor" or "toString". Unlike
+// calling hasOwnProperty on the object itself, this works even if the object
+// has a property named hasOwnProperty, or no prototype at all.
+export function hasOwn(object: object, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, name);
+}
+
+// getOwn returns the value of an object's own property, or undefined if the
+// object has no such property.
+export function getOwn(
+  object: { [name: string]: unknown },
+  name: string
+): unknown {
+  return hasOwn(object, name) ? object[name] : undefined;
+}
+
+// setOwn sets a property of an object. Unlike assigning to the property, this
+// creates an ordinary property even if name is __proto__.
+export function setOwn(object: object, name: string, value: unknown) {
+  Object.defineProperty(object, name, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  });
+}
@@ -0,0 +1,252 @@
+import {
+  JSONSyntaxError,
+  MaxDepthExceededError,
+  MaxInstanceDepthExceededError,
+  Schema,
+  parse,
+  validate,
+  validateText,
+} from "./index";
+
+describe("parse", () => {
+  it("returns the parsed value for valid text", () => {
+    const schema = {
+      properties: { name: { type: "string" }, tags: { values: {} } },
+    } as const;
+
+    const result = parse(schema, '{ "tags": { "a": [1, 2.5e1] }, "name": "x" }');
+    expect(result).toEqual({
+      valid: true,
+      value: { tags: { a: [1, 25] }, name: "x" },
+    });
+
+    if (result.valid) {
+      const name: string = result.value.name;
+      expect(name).toBe("x");
+    }
+  });
+
+  it("returns the same errors as validate", () => {
+    const schema: Schema = {
+      definitions: { item: { properties: { id: { type: "uint8" } } } },
+      properties: {
+        a: { elements: { ref: "item" } },
+        b: { values: { type: "boolean" } },
+        c: {
+          discriminator: "kind",
+          mapping: { x: { properties: { n: { type: "string" } } } },
+        },
+      },
+    };
+
+    const text = `{
+      "c": { "n": 1, "extra": true, "kind": "x" },
+      "z": null,
+      "b": { "y": 1, "2": "a", "1": true },
+      "a": [{ "id": 300 }, {}, null],
+      "a": [{ "id": 256 }, { "id": 1, "x": 1 }]
+    }`;
+
+    expect(parse(schema, text)).toEqual({
+      valid: false,
+      errors: validate(schema, JSON.parse(text)),
+    });
+  });
+
+  it("stops once it has found maxErrors errors", () => {
+    const schema: Schema = { elements: { type: "string" } };
+
+    expect(
+      parse(schema, "[1, 2, 3, this is not JSON", { maxDepth: 0, maxErrors: 2 })
+    ).toEqual({
+      valid: false,
+      errors: [
+        { instancePath: ["0"], schemaPath: ["elements", "type"] },
+        { instancePath: ["1"], schemaPath: ["elements", "type"] },
+      ],
+    });
+  });
+
+  it("keeps __proto__ as an ordinary property", () => {
+    const result = parse({ values: {} }, '{ "__proto__": { "a": 1 } }');
+
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(Object.keys(result.value)).toEqual(["__proto__"]);
+      expect(result.value).toEqual(JSON.parse('{ "__proto__": { "a": 1 } }'));
+    }
+  });
+
+  it("optionally rejects duplicate keys", () => {
+    const text = '{ "a": 1, "a": 2 }';
+
+    expect(parse({}, text)).toEqual({ valid: true, value: { a: 2 } });
+    expect(() =>
+      parse({}, text, { maxDepth: 0, maxErrors: 0, rejectDuplicateKeys: true })
+    ).toThrow(new JSONSyntaxError("duplicate key a", 10));
+  });
+
+  it("stops on ref cycles without a max depth", () => {
+    const schema = { definitions: { a: { ref: "a" } }, ref: "a" };
+
+    expect(() => parse(schema, "null")).toThrow(MaxDepthExceededError);
+    expect(() => validateText(schema, "null")).toThrow(MaxDepthExceededError);
+  });
+
+  it("supports deeply-nested text", () => {
+    const schema: Schema = {
+      definitions: { nested: { elements: { ref: "nested" } } },
+      ref: "nested",
+    };
+
+    const text = "[".repeat(50000) + '"x"' + "]".repeat(50000);
+    const errors = validateText(schema, text);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].instancePath).toHaveLength(50000);
+    expect(errors[0].schemaPath).toEqual(["definitions", "nested", "elements"]);
+    expect(errors[0].location).toEqual({
+      offset: 50000,
+      length: 3,
+      line: 1,
+      column: 50001,
+    });
+
+    // toEqual would overflow the stack comparing values this deep.
+    const parsed = parse({}, text);
+    let depth = 0;
+    let value = parsed.valid ? parsed.value : undefined;
+    while (Array.isArray(value) && value.length === 1) {
+      depth++;
+      value = value[0];
+    }
+
+    expect([depth, value]).toEqual([50000, "x"]);
+  });
+
+  it("supports limited instance depth", () => {
+    const config = { maxDepth: 0, maxErrors: 0, maxInstanceDepth: 2 };
+
+    // Unlike with validate, everything in the text counts.
+    expect(parse({ elements: {} }, "[[1], [[]]]", config).valid).toBe(true);
+    for (const text of ["[[[1]]]", '{ "a": [{}, { "b": 1 }] }']) {
+      expect(() => parse({ elements: {} }, text, config)).toThrow(
+        MaxInstanceDepthExceededError
+      );
+      expect(() => validateText({}, text, config)).toThrow(
+        MaxInstanceDepthExceededError
+      );
+    }
+  });
+
+  it("rejects invalid JSON", () => {
+    const invalid = [
+      "",
+      "[1,]",
+      "{a: 1}",
+      '"\\x"',
+      "01",
+      "tru",
+      "[1] [2]",
+      '"\u0001"',
+    ];
+
+    for (const text of invalid) {
+      expect(() => parse({}, text)).toThrow(JSONSyntaxError);
+    }
+  });
+});
+
+describe("validateText", () => {
+  it("gives the line and column of each error", () => {
+    const schema: Schema = {
+      properties: {
+        a: { elements: { type: "string" } },
+        b: {
+          discriminator: "kind",
+          mapping: { x: { properties: { n: { type: "uint8" } } } },
+        },
+        c: { discriminator: "kind", mapping: {} },
+      },
+    };
+
+    const text = [
+      "{\n",
+      '  "a": ["x", 1],\r\n',
+      '  "b": { "n": 300, "kind": "x", "y": [] },\n',
+      '  "c": { "kind": "z" },\n',
+      '  "d": {}\n',
+      "}",
+    ].join("");
+
+    expect(validateText(schema, text)).toEqual([
+      {
+        instancePath: ["a", "1"],
+        schemaPath: ["properties", "a", "elements", "type"],
+        location: { offset: 15, length: 1, line: 2, column: 14 },
+      },
+      {
+        instancePath: ["b", "n"],
+        schemaPath: [
+          ...["properties", "b", "mapping", "x"],
+          ...["properties", "n", "type"],
+        ],
+        location: { offset: 34, length: 3, line: 3, column: 15 },
+      },
+      {
+        instancePath: ["b", "y"],
+        schemaPath: ["properties", "b", "mapping", "x"],
+        location: { offset: 52, length: 3, line: 3, column: 33 },
+      },
+      {
+        instancePath: ["c", "kind"],
+        schemaPath: ["properties", "c", "mapping"],
+        location: { offset: 72, length: 6, line: 4, column: 10 },
+      },
+      {
+        instancePath: ["d"],
+        schemaPath: [],
+        location: { offset: 89, length: 3, line: 5, column: 3 },
+      },
+    ]);
+  });
+
+  it("locates the whole of a value or missing property's object", () => {
+    const schema: Schema = {
+      elements: { properties: { a: { type: "string" } } },
+    };
+
+    expect(validateText(schema, '[{}, { "b": null }, 3]')).toEqual([
+      {
+        instancePath: ["0"],
+        schemaPath: ["elements", "properties", "a"],
+        location: { offset: 1, length: 2, line: 1, column: 2 },
+      },
+      {
+        instancePath: ["1"],
+        schemaPath: ["elements", "properties", "a"],
+        location: { offset: 5, length: 13, line: 1, column: 6 },
+      },
+      {
+        instancePath: ["1", "b"],
+        schemaPath: ["elements"],
+        location: { offset: 7, length: 3, line: 1, column: 8 },
+      },
+      {
+        instancePath: ["2"],
+        schemaPath: ["elements", "properties"],
+        location: { offset: 20, length: 1, line: 1, column: 21 },
+      },
+    ]);
+  });
+
+  it("returns the same errors as parse", () => {
+    const schema: Schema = { values: { enum: ["a"] } };
+    const text = '{ "x": "b", "y": "a", "z": [] }';
+
+    const errors = validateText(schema, text).map(
+      ({ instancePath, schemaPath }) => ({ instancePath, schemaPath })
+    );
+
+    expect(errors).toEqual(validate(schema, JSON.parse(text)));
+  });
+});
@@ -0,0 +1,1117 @@
+/**
+ * Module parse provides a way to parse JSON text and validate it against a
+ * JSON Typedef schema at the same time.
+ *
+ * The most important function in this module is {@link parse}, which returns
+ * a {@link ParseResult}. It gives the same errors as calling `JSON.parse`
+ * followed by {@link validate}, but only reads the text once.
+ *
+ * If you want to know where in the text each error is, use
+ * {@link validateText}.
+ *
+ * @packageDocumentation
+ */
+
+import { JTDDataType } from "./infer";
+import {
+  Schema,
+  isRefForm,
+  isTypeForm,
+  isEnumForm,
+  isElementsForm,
+  isPropertiesForm,
+  isValuesForm,
+  isDiscriminatorForm,
+} from "./schema";
+import { TYPE_CHECKS } from "./typecheck";
+import {
+  ValidationConfig,
+  ValidationError,
+  MaxDepthExceededError,
+  MaxInstanceDepthExceededError,
+} from "./validate";
+import { hasOwn } from "./objects";
+
+/**
+ * ParseConfig represents options you can pass to {@link parse}.
+ */
+export interface ParseConfig extends ValidationConfig {
+  /**
+   * rejectDuplicateKeys is whether to throw {@link JSONSyntaxError} if an
+   * object in the text has the same key more than once.
+   *
+   * By default, rejectDuplicateKeys is false, and the last value for a key is
+   * used, just like with `JSON.parse`.
+   */
+  rejectDuplicateKeys?: boolean;
+}
+
+/**
+ * JSONSyntaxError is the error thrown when {@link parse} is given text that
+ * is not valid JSON.
+ */
+export class JSONSyntaxError extends SyntaxError {
+  /**
+   * @param message A description of the problem
+   * @param offset The offset, in UTF-16 code units, of the problem in the text
+   */
+  constructor(message: string, readonly offset: number) {
+    super(`${message} at offset ${offset}`);
+  }
+}
+
+/**
+ * ParseResult is the result of {@link parse}.
+ *
+ * If the text satisfied the schema, then `valid` is true and `value` is the
+ * parsed text. Otherwise, `valid` is false and `errors` contains the
+ * validation errors.
+ */
+export type ParseResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: ValidationError[] };
+
+/**
+ * parse parses JSON text, validating it against a JSON Typedef schema as it
+ * goes.
+ *
+ * If the text satisfies the schema, parse returns the parsed value, typed as
+ * {@link JTDDataType} of the schema. Otherwise, parse returns the same errors
+ * that {@link validate} would have returned for `JSON.parse(text)`:
+ *
+ * ```ts
+ * const result = parse(schema, text);
+ * if (result.valid) {
+ *   console.log(result.value);
+ * } else {
+ *   console.log(result.errors);
+ * }
+ * ```
+ *
+ * Throws {@link JSONSyntaxError} if the text is not valid JSON. Like
+ * {@link validate}, parse may throw {@link MaxDepthExceededError} and
+ * {@link MaxInstanceDepthExceededError}, and doesn't use recursion to read
+ * arrays and objects. parse has to read every array and object in the text,
+ * so unlike with validate, all of them count towards
+ * {@link ValidationConfig.maxInstanceDepth}, even ones under the empty schema
+ * `{}`.
+ *
+ * If you configure a {@link ValidationConfig.maxErrors}, then parse stops
+ * reading the text once it has found that many errors. Errors are put in the
+ * same order as {@link validate} puts them, so parse can only be sure it has
+ * found the first errors once it has read the whole object those errors are
+ * in. Text after the point where parse stops is not checked for syntax
+ * errors.
+ *
+ * @param schema The schema to validate data against
+ * @param text The JSON text to parse
+ * @param config Parsing and validation options. Optional.
+ */
+export function parse<S extends Schema>(
+  schema: S,
+  text: string,
+  config?: ParseConfig
+): ParseResult<JTDDataType<S>> {
+  const state = newState(schema, text, config);
+  const value = parseRoot(state);
+
+  if (state.errors.length !== 0) {
+    return { valid: false, errors: state.errors };
+  }
+
+  return { valid: true, value: value as JTDDataType<S> };
+}
+
+/**
+ * SourceLocation is a part of some JSON text.
+ *
+ * All offsets and columns are measured in UTF-16 code units, just like
+ * indices into a JavaScript string. Lines are separated by `\n`, `\r\n`, or
+ * `\r`.
+ */
+export interface SourceLocation {
+  /**
+   * offset is the index in the text where the location starts.
+   */
+  offset: number;
+
+  /**
+   * length is the number of code units in the location.
+   */
+  length: number;
+
+  /**
+   * line is the line the location starts on. The first line is line 1.
+   */
+  line: number;
+
+  /**
+   * column is where in its line the location starts. The first column is
+   * column 1.
+   */
+  column: number;
+}
+
+/**
+ * LocatedValidationError is a {@link ValidationError} that also has the
+ * location in the text of the part of the input that caused it.
+ */
+export interface LocatedValidationError extends ValidationError {
+  /**
+   * location is the part of the text the error is about.
+   *
+   * For most errors, this is the whole of the value at
+   * {@link ValidationError.instancePath}. For errors about a property that
+   * isn't allowed, or about a discriminator tag, it is the property's key.
+   */
+  location: SourceLocation;
+}
+
+/**
+ * validateText parses JSON text and returns the errors from validating it
+ * against a JSON Typedef schema, with the location in the text of each error.
+ *
+ * Apart from having a location, the errors are the same, and come in the same
+ * order, as the ones {@link parse} returns. validateText throws the same
+ * errors as parse, too.
+ *
+ * ```ts
+ * for (const { instancePath, location } of validateText(schema, text)) {
+ *   console.log(`${location.line}:${location.column}`, instancePath);
+ * }
+ * ```
+ *
+ * @param schema The schema to validate data against
+ * @param text The JSON text to validate
+ * @param config Parsing and validation options. Optional.
+ */
+export function validateText(
+  schema: Schema,
+  text: string,
+  config?: ParseConfig
+): LocatedValidationError[] {
+  const state = newState(schema, text, config);
+  state.lines = new LineIndex(text);
+  parseRoot(state);
+
+  return state.errors as LocatedValidationError[];
+}
+
+function newState(
+  schema: Schema,
+  text: string,
+  config?: ParseConfig
+): ParseState {
+  return {
+    source: new Lexer(text),
+    errors: [],
+    instanceTokens: [],
+    schemaTokens: [[]],
+    root: schema,
+    config: config || { maxDepth: 0, maxErrors: 0 },
+    definitionCount: Object.keys(schema.definitions || {}).length,
+    instanceDepth: 0,
+  };
+}
+
+// parseRoot parses the whole of the text, returning the parsed value. Once
+// maxErrors is reached, the returned value is meaningless.
+function parseRoot(state: ParseState): unknown {
+  try {
+    const value = parseWithState(state, readStep(state.root, state.errors));
+    expect(state, "eof");
+    return value;
+  } catch (err) {
+    if (!(err instanceof MaxErrorsReachedError)) {
+      throw err;
+    }
+  }
+}
+
+class MaxErrorsReachedError extends Error {}
+
+type TokenKind =
+  | "{"
+  | "}"
+  | "["
+  | "]"
+  | ":"
+  | ","
+  | "string"
+  | "number"
+  | "true"
+  | "false"
+  | "null"
+  | "eof";
+
+// Token is a JSON token. offset and length are the location of the token in
+// the text.
+interface Token {
+  kind: TokenKind;
+  value?: string | number;
+  offset: number;
+  length: number;
+}
+
+// A TokenSource is where parse gets its tokens from. Usually this is a Lexer,
+// but discriminators are validated by replaying the tokens of an object.
+//
+// end is the offset just past the last token returned from next.
+interface TokenSource {
+  readonly end: number;
+  peek(): Token;
+  next(): Token;
+}
+
+// Span is a part of the text, measured in UTF-16 code units.
+interface Span {
+  offset: number;
+  length: number;
+}
+
+// LineIndex converts offsets in a text into line and column numbers.
+class LineIndex {
+  // starts holds the offset of the start of each line, in increasing order.
+  private readonly starts: number[] = [0];
+
+  constructor(text: string) {
+    const newline = /\r\n|\r|\n/g;
+    for (let match = newline.exec(text); match; match = newline.exec(text)) {
+      this.starts.push(match.index + match[0].length);
+    }
+  }
+
+  locate({ offset, length }: Span): SourceLocation {
+    // Binary search for the last line starting at or before offset.
+    let low = 0;
+    let high = this.starts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.starts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return {
+      offset,
+      length,
+      line: low + 1,
+      column: offset - this.starts[low] + 1,
+    };
+  }
+}
+
+interface ParseState {
+  source: TokenSource;
+  lines?: LineIndex;
+  errors: ValidationError[];
+  instanceTokens: string[];
+  schemaTokens: string[][];
+  root: Schema;
+  config: ParseConfig;
+
+  // The number of definitions in root.
+  definitionCount: number;
+
+  // The number of arrays and objects that the value being read is inside of.
+  instanceDepth: number;
+}
+
+// Step is what parseWithState does next: either start reading a value, or
+// hand a value that has been read to whatever is waiting for it.
+type Step = ReadStep | ValueStep;
+
+interface ReadStep {
+  kind: "read";
+
+  // schema is what to validate the value against, or undefined if the value
+  // is only to be parsed.
+  schema: Schema | undefined;
+  errors: ValidationError[];
+  parentTag?: string;
+
+  // The number of refs followed in a row to get to this step, without reading
+  // any tokens in between.
+  refChain: number;
+}
+
+interface ValueStep {
+  kind: "value";
+  value: unknown;
+}
+
+// Entry is something on the stack in parseWithState that is waiting for a
+// value: either an array or object being read, or a function to call with the
+// value once it has been read.
+type Entry = Frame | Continuation;
+
+interface Frame {
+  kind: "frame";
+  closer: "]" | "}";
+
+  // next reads up to the value of the next element or member, and returns the
+  // step that reads the value.
+  next(): Step;
+
+  // add adds the value of the element or member that was just read.
+  add(value: unknown): void;
+
+  // end returns the step to take once the closing token has been read.
+  end(): Step;
+}
+
+interface Continuation {
+  kind: "continuation";
+  then(value: unknown): Step;
+}
+
+// parseWithState reads a value from state.source, and returns it. For the
+// most part, validating works just like validateWithState in the validate
+// module, and it uses a stack rather than recursion for the same reason.
+//
+// Reading an array or object pushes a Frame for it, and each step that has to
+// do something once a value has been read pushes a Continuation. Values are
+// handed to whatever is on the top of the stack, until it is empty.
+function parseWithState(state: ParseState, step: Step): unknown {
+  const stack: Entry[] = [];
+
+  while (true) {
+    if (step.kind === "read") {
+      step = startRead(state, stack, step);
+      continue;
+    }
+
+    const entry = stack.pop();
+    if (entry === undefined) {
+      return step.value;
+    }
+
+    if (entry.kind === "continuation") {
+      step = entry.then(step.value);
+      continue;
+    }
+
+    entry.add(step.value);
+    if (expectOneOf(state, ",", entry.closer).kind === ",") {
+      stack.push(entry);
+      step = entry.next();
+    } else {
+      state.instanceDepth--;
+      step = entry.end();
+    }
+  }
+}
+
+// startRead starts reading the value for step, and returns the step to take
+// next.
+//
+// Properties and values are read in the order they appear in the text, rather
+// than the order validate looks at them. So each object collects errors for
+// each of its properties separately, and adds them to `errors` in the right
+// order once the whole object has been read.
+function startRead(state: ParseState, stack: Entry[], step: ReadStep): Step {
+  const { schema, errors, parentTag } = step;
+  const token = state.source.peek();
+
+  if (schema === undefined) {
+    return readAny(state, stack);
+  }
+
+  if (schema.nullable && token.kind === "null") {
+    state.source.next();
+    return valueStep(null);
+  }
+
+  if (isRefForm(schema)) {
+    if (state.schemaTokens.length === state.config.maxDepth) {
+      throw new MaxDepthExceededError();
+    }
+
+    // A chain of refs longer than the number of definitions has to be going
+    // around a cycle, and would never end.
+    if (step.refChain === state.definitionCount) {
+      throw new MaxDepthExceededError();
+    }
+
+    state.schemaTokens.push(["definitions", schema.ref]);
+    after(stack, (value) => {
+      state.schemaTokens.pop();
+      return valueStep(value);
+    });
+
+    return {
+      kind: "read",
+      schema: state.root.definitions![schema.ref],
+      errors,
+      refChain: step.refChain + 1,
+    };
+  }
+
+  if (isTypeForm(schema)) {
+    after(stack, (value) => {
+      if (!TYPE_CHECKS[schema.type](value)) {
+        pushSchemaToken(state, "type");
+        pushError(state, errors, span(state, token));
+        popSchemaToken(state);
+      }
+
+      return valueStep(value);
+    });
+
+    return readAny(state, stack);
+  }
+
+  if (isEnumForm(schema)) {
+    after(stack, (value) => {
+      if (typeof value !== "string" || !schema.enum.includes(value)) {
+        pushSchemaToken(state, "enum");
+        pushError(state, errors, span(state, token));
+        popSchemaToken(state);
+      }
+
+      return valueStep(value);
+    });
+
+    return readAny(state, stack);
+  }
+
+  if (isElementsForm(schema)) {
+    pushSchemaToken(state, "elements");
+
+    if (token.kind !== "[") {
+      after(stack, (value) => {
+        pushError(state, errors, span(state, token));
+        popSchemaToken(state);
+        return valueStep(value);
+      });
+
+      return readAny(state, stack);
+    }
+
+    // Elements are validated in the same order they're read, so there is no
+    // need to collect their errors separately.
+    return readArray(
+      state,
+      stack,
+      (index) => {
+        pushInstanceToken(state, index.toString());
+        after(stack, (element) => {
+          popInstanceToken(state);
+          return valueStep(element);
+        });
+
+        return readStep(schema.elements, errors);
+      },
+      (array) => {
+        popSchemaToken(state);
+        return valueStep(array);
+      }
+    );
+  }
+
+  if (isPropertiesForm(schema)) {
+    if (token.kind !== "{") {
+      after(stack, (value) => {
+        if (schema.properties !== undefined) {
+          pushSchemaToken(state, "properties");
+        } else {
+          pushSchemaToken(state, "optionalProperties");
+        }
+
+        pushError(state, errors, span(state, token));
+        popSchemaToken(state);
+        return valueStep(value);
+      });
+
+      return readAny(state, stack);
+    }
+
+    const properties = schema.properties || {};
+    const optionalProperties = schema.optionalProperties || {};
+    const propertyErrors = new Map<string, ValidationError[]>();
+    const keys = new Map<string, Token>();
+
+    return readObject(
+      state,
+      stack,
+      (name, key) => {
+        keys.set(name, key);
+
+        let keyword: string;
+        let subSchema: Schema;
+
+        if (hasOwn(properties, name)) {
+          keyword = "properties";
+          subSchema = properties[name];
+        } else if (hasOwn(optionalProperties, name)) {
+          keyword = "optionalProperties";
+          subSchema = optionalProperties[name];
+        } else {
+          return readStep(undefined, errors);
+        }
+
+        const subErrors: ValidationError[] = [];
+        pushSchemaToken(state, keyword);
+        pushSchemaToken(state, name);
+        pushInstanceToken(state, name);
+        after(stack, (subValue) => {
+          popInstanceToken(state);
+          popSchemaToken(state);
+          popSchemaToken(state);
+
+          // If a key appears more than once, only the last value counts.
+          propertyErrors.set(name, subErrors);
+          return valueStep(subValue);
+        });
+
+        return readStep(subSchema, subErrors);
+      },
+      (value) => {
+        if (schema.properties !== undefined) {
+          pushSchemaToken(state, "properties");
+          for (const name of Object.keys(schema.properties)) {
+            if (hasOwn(value, name)) {
+              pushErrors(state, errors, propertyErrors.get(name)!);
+            } else {
+              pushSchemaToken(state, name);
+              pushError(state, errors, span(state, token));
+              popSchemaToken(state);
+            }
+          }
+          popSchemaToken(state);
+        }
+
+        if (schema.optionalProperties !== undefined) {
+          for (const name of Object.keys(schema.optionalProperties)) {
+            if (hasOwn(value, name)) {
+              pushErrors(state, errors, propertyErrors.get(name)!);
+            }
+          }
+        }
+
+        if (schema.additionalProperties !== true) {
+          for (const name of Object.keys(value)) {
+            const inRequired =
+              schema.properties && hasOwn(schema.properties, name);
+            const inOptional =
+              schema.optionalProperties &&
+              hasOwn(schema.optionalProperties, name);
+
+            if (!inRequired && !inOptional && name !== parentTag) {
+              pushInstanceToken(state, name);
+              pushError(state, errors, keys.get(name)!);
+              popInstanceToken(state);
+            }
+          }
+        }
+
+        return valueStep(value);
+      }
+    );
+  }
+
+  if (isValuesForm(schema)) {
+    pushSchemaToken(state, "values");
+
+    if (token.kind !== "{") {
+      after(stack, (value) => {
+        pushError(state, errors, span(state, token));
+        popSchemaToken(state);
+        return valueStep(value);
+      });
+
+      return readAny(state, stack);
+    }
+
+    const valueErrors = new Map<string, ValidationError[]>();
+
+    return readObject(
+      state,
+      stack,
+      (name) => {
+        const subErrors: ValidationError[] = [];
+        pushInstanceToken(state, name);
+        after(stack, (subValue) => {
+          popInstanceToken(state);
+          valueErrors.set(name, subErrors);
+          return valueStep(subValue);
+        });
+
+        return readStep(schema.values, subErrors);
+      },
+      (value) => {
+        // validate looks at values in the order of Object.keys, which is not
+        // always the order they appear in the text.
+        for (const name of Object.keys(value)) {
+          pushErrors(state, errors, valueErrors.get(name)!);
+        }
+
+        popSchemaToken(state);
+        return valueStep(value);
+      }
+    );
+  }
+
+  if (isDiscriminatorForm(schema)) {
+    if (token.kind !== "{") {
+      after(stack, (value) => {
+        pushSchemaToken(state, "discriminator");
+        pushError(state, errors, span(state, token));
+        popSchemaToken(state);
+        return valueStep(value);
+      });
+
+      return readAny(state, stack);
+    }
+
+    // We don't know which schema to use for the object until we've read its
+    // tag, which may come after its other properties. So we record the
+    // object's tokens as we read it, and validate it by replaying them.
+    const source = state.source;
+    const recorder = new Recorder(source);
+    const keys = new Map<string, Token>();
+
+    state.source = recorder;
+    return readObject(
+      state,
+      stack,
+      (name, key) => {
+        keys.set(name, key);
+        return readStep(undefined, errors);
+      },
+      (value) => {
+        state.source = source;
+
+        if (!hasOwn(value, schema.discriminator)) {
+          pushSchemaToken(state, "discriminator");
+          pushError(state, errors, span(state, token));
+          popSchemaToken(state);
+          return valueStep(value);
+        }
+
+        const tag = value[schema.discriminator];
+        const tagKey = keys.get(schema.discriminator)!;
+
+        if (typeof tag !== "string") {
+          pushSchemaToken(state, "discriminator");
+          pushInstanceToken(state, schema.discriminator);
+          pushError(state, errors, tagKey);
+          popInstanceToken(state);
+          popSchemaToken(state);
+          return valueStep(value);
+        }
+
+        if (!hasOwn(schema.mapping, tag)) {
+          pushSchemaToken(state, "mapping");
+          pushInstanceToken(state, schema.discriminator);
+          pushError(state, errors, tagKey);
+          popInstanceToken(state);
+          popSchemaToken(state);
+          return valueStep(value);
+        }
+
+        state.source = new Replay(recorder.tokens);
+        pushSchemaToken(state, "mapping");
+        pushSchemaToken(state, tag);
+        after(stack, () => {
+          popSchemaToken(state);
+          popSchemaToken(state);
+          state.source = source;
+          return valueStep(value);
+        });
+
+        return readStep(schema.mapping[tag], errors, schema.discriminator);
+      }
+    );
+  }
+
+  // The empty form accepts any input.
+  return readAny(state, stack);
+}
+
+// readAny starts reading a value from state.source, without validating it.
+function readAny(state: ParseState, stack: Entry[]): Step {
+  const token = state.source.peek();
+
+  switch (token.kind) {
+    case "{":
+      return readObject(
+        state,
+        stack,
+        () => readStep(undefined, []),
+        (object) => valueStep(object)
+      );
+    case "[":
+      return readArray(
+        state,
+        stack,
+        () => readStep(undefined, []),
+        (array) => valueStep(array)
+      );
+    case "string":
+    case "number":
+      state.source.next();
+      return valueStep(token.value);
+    case "true":
+      state.source.next();
+      return valueStep(true);
+    case "false":
+      state.source.next();
+      return valueStep(false);
+    case "null":
+      state.source.next();
+      return valueStep(null);
+    default:
+      throw unexpected(token);
+  }
+}
+
+// readObject starts reading an object from state.source. member returns the
+// step that reads the value of each key, and end returns the step to take once
+// the whole object has been read.
+function readObject(
+  state: ParseState,
+  stack: Entry[],
+  member: (name: string, key: Token) => Step,
+  end: (object: { [name: string]: unknown }) => Step
+): Step {
+  const object: { [name: string]: unknown } = {};
+  let name = "";
+
+  return open(state, stack, "{", {
+    kind: "frame",
+    closer: "}",
+    next: () => {
+      const key = expect(state, "string");
+      name = key.value as string;
+
+      if (state.config.rejectDuplicateKeys && hasOwn(object, name)) {
+        throw new JSONSyntaxError(`duplicate key ${name}`, key.offset);
+      }
+
+      expect(state, ":");
+      return member(name, key);
+    },
+    add: (value) => {
+      // Assigning to __proto__ would change the prototype of the object,
+      // rather than create a property. JSON.parse always creates a property.
+      Object.defineProperty(object, name, {
+        value,
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    },
+    end: () => end(object),
+  });
+}
+
+// readArray starts reading an array from state.source. element returns the
+// step that reads each element, and end returns the step to take once the
+// whole array has been read.
+function readArray(
+  state: ParseState,
+  stack: Entry[],
+  element: (index: number) => Step,
+  end: (array: unknown[]) => Step
+): Step {
+  const array: unknown[] = [];
+
+  return open(state, stack, "[", {
+    kind: "frame",
+    closer: "]",
+    next: () => element(array.length),
+    add: (value) => {
+      array.push(value);
+    },
+    end: () => end(array),
+  });
+}
+
+// open reads the token that starts an array or object, and returns the step
+// that reads its first element or member. Only arrays and objects that have
+// something inside of them count towards maxInstanceDepth.
+function open(
+  state: ParseState,
+  stack: Entry[],
+  opener: "[" | "{",
+  frame: Frame
+): Step {
+  expect(state, opener);
+
+  if (state.source.peek().kind === frame.closer) {
+    state.source.next();
+    return frame.end();
+  }
+
+  const { maxInstanceDepth } = state.config;
+  if (maxInstanceDepth && state.instanceDepth === maxInstanceDepth) {
+    throw new MaxInstanceDepthExceededError();
+  }
+
+  state.instanceDepth++;
+  stack.push(frame);
+  return frame.next();
+}
+
+// after pushes a function to call with the value being read, once it has been
+// read. The function returns the step to take next.
+function after(stack: Entry[], then: (value: unknown) => Step) {
+  stack.push({ kind: "continuation", then });
+}
+
+function readStep(
+  schema: Schema | undefined,
+  errors: ValidationError[],
+  parentTag?: string
+): ReadStep {
+  return { kind: "read", schema, errors, parentTag, refChain: 0 };
+}
+
+function valueStep(value: unknown): ValueStep {
+  return { kind: "value", value };
+}
+
+function expect(state: ParseState, kind: TokenKind): Token {
+  const token = state.source.next();
+  if (token.kind !== kind) {
+    throw unexpected(token);
+  }
+
+  return token;
+}
+
+function expectOneOf(state: ParseState, a: TokenKind, b: TokenKind): Token {
+  const token = state.source.next();
+  if (token.kind !== a && token.kind !== b) {
+    throw unexpected(token);
+  }
+
+  return token;
+}
+
+function unexpected(token: Token): JSONSyntaxError {
+  if (token.kind === "eof") {
+    return new JSONSyntaxError("unexpected end of input", token.offset);
+  }
+
+  return new JSONSyntaxError(`unexpected token ${token.kind}`, token.offset);
+}
+
+const WHITESPACE = /[ \t\n\r]*/y;
+const NUMBER = /-?(0|[1-9][0-9]*)(\.[0-9]+)?([eE][+-]?[0-9]+)?/y;
+
+// Lexer is a TokenSource that reads JSON text.
+class Lexer implements TokenSource {
+  end = 0;
+  private offset = 0;
+  private peeked: Token | null = null;
+
+  constructor(private readonly text: string) {}
+
+  peek(): Token {
+    if (this.peeked === null) {
+      this.peeked = this.read();
+    }
+
+    return this.peeked;
+  }
+
+  next(): Token {
+    const token = this.peek();
+    this.peeked = null;
+    this.end = token.offset + token.length;
+    return token;
+  }
+
+  private read(): Token {
+    const text = this.text;
+
+    WHITESPACE.lastIndex = this.offset;
+    WHITESPACE.test(text);
+    const offset = WHITESPACE.lastIndex;
+
+    if (offset >= text.length) {
+      this.offset = offset;
+      return { kind: "eof", offset, length: 0 };
+    }
+
+    const c = text[offset];
+    switch (c) {
+      case "{":
+      case "}":
+      case "[":
+      case "]":
+      case ":":
+      case ",":
+        this.offset = offset + 1;
+        return { kind: c, offset, length: 1 };
+      case '"':
+        return this.readString(offset);
+      case "t":
+        return this.readLiteral(offset, "true");
+      case "f":
+        return this.readLiteral(offset, "false");
+      case "n":
+        return this.readLiteral(offset, "null");
+    }
+
+    NUMBER.lastIndex = offset;
+    if (NUMBER.test(text)) {
+      const end = NUMBER.lastIndex;
+      this.offset = end;
+
+      const value = Number(text.slice(offset, end));
+      return { kind: "number", value, offset, length: end - offset };
+    }
+
+    throw new JSONSyntaxError(`unexpected character ${c}`, offset);
+  }
+
+  private readString(offset: number): Token {
+    const text = this.text;
+    let escaped = false;
+
+    for (let i = offset + 1; i < text.length; i++) {
+      const c = text.charCodeAt(i);
+
+      if (c === 0x22 /* " */) {
+        const end = i + 1;
+        this.offset = end;
+
+        let value: string;
+        if (escaped) {
+          // Let JSON.parse take care of the details of escape sequences.
+          try {
+            value = JSON.parse(text.slice(offset, end));
+          } catch (err) {
+            throw new JSONSyntaxError("invalid escape in string", offset);
+          }
+        } else {
+          value = text.slice(offset + 1, i);
+        }
+
+        return { kind: "string", value, offset, length: end - offset };
+      }
+
+      if (c === 0x5c /* \ */) {
+        escaped = true;
+        i++;
+      } else if (c < 0x20) {
+        throw new JSONSyntaxError("control character in string", i);
+      }
+    }
+
+    throw new JSONSyntaxError("unterminated string", offset);
+  }
+
+  private readLiteral(offset: number, literal: "true" | "false" | "null") {
+    if (!this.text.startsWith(literal, offset)) {
+      throw new JSONSyntaxError(`unexpected character ${literal[0]}`, offset);
+    }
+
+    this.offset = offset + literal.length;
+    return { kind: literal, offset, length: literal.length };
+  }
+}
+
+// Recorder is a TokenSource that keeps a copy of every token it reads from
+// another TokenSource.
+class Recorder implements TokenSource {
+  readonly tokens: Token[] = [];
+
+  constructor(private readonly source: TokenSource) {}
+
+  get end(): number {
+    return this.source.end;
+  }
+
+  peek(): Token {
+    return this.source.peek();
+  }
+
+  next(): Token {
+    const token = this.source.next();
+    this.tokens.push(token);
+    return token;
+  }
+}
+
+// Replay is a TokenSource that produces tokens a Recorder has recorded.
+class Replay implements TokenSource {
+  end = 0;
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  peek(): Token {
+    if (this.index === this.tokens.length) {
+      return { kind: "eof", offset: this.end, length: 0 };
+    }
+
+    return this.tokens[this.index];
+  }
+
+  next(): Token {
+    const token = this.peek();
+    this.index++;
+    this.end = token.offset + token.length;
+    return token;
+  }
+}
+
+// span returns the location of a value that started with the token start and
+// that has just been read.
+function span(state: ParseState, start: Token): Span {
+  return { offset: start.offset, length: state.source.end - start.offset };
+}
+
+function pushInstanceToken(state: ParseState, token: string) {
+  state.instanceTokens.push(token);
+}
+
+function popInstanceToken(state: ParseState) {
+  state.instanceTokens.pop();
+}
+
+function pushSchemaToken(state: ParseState, token: string) {
+  state.schemaTokens[state.schemaTokens.length - 1].push(token);
+}
+
+function popSchemaToken(state: ParseState) {
+  state.schemaTokens[state.schemaTokens.length - 1].pop();
+}
+
+// pushError adds an error for the current instance and schema paths. span is
+// the part of the text the error is about, which is only kept if the caller
+// asked for source locations.
+function pushError(state: ParseState, errors: ValidationError[], span: Span) {
+  const error: ValidationError = {
+    instancePath: [...state.instanceTokens],
+    schemaPath: [...state.schemaTokens[state.schemaTokens.length - 1]],
+  };
+
+  if (state.lines) {
+    (error as LocatedValidationError).location = state.lines.locate(span);
+  }
+
+  pushErrors(state, errors, [error]);
+}
+
+// pushErrors adds errors to the end of `errors`. Only state.errors is subject
+// to maxErrors; other arrays are collecting errors for a single property.
+function pushErrors(
+  state: ParseState,
+  errors: ValidationError[],
+  newErrors: ValidationError[]
+) {
+  for (const error of newErrors) {
+    errors.push(error);
+
+    if (errors === state.errors && errors.length === state.config.maxErrors) {
+      throw new MaxErrorsReachedError();
+    }
+  }
+}
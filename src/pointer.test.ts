@@ -0,0 +1,109 @@
+import {
+  InvalidPointerError,
+  Schema,
+  decodePointer,
+  encodePointer,
+  resolvePointer,
+  resolveSchemaPath,
+  toPointer,
+  validate,
+} from "./index";
+
+describe("encodePointer and decodePointer", () => {
+  const testCases: [string[], string][] = [
+    [[], ""],
+    [[""], "/"],
+    [["foo", "0"], "/foo/0"],
+    [["a/b"], "/a~1b"],
+    [["m~n"], "/m~0n"],
+    [["~1"], "/~01"],
+  ];
+
+  for (const [tokens, pointer] of testCases) {
+    it(`round-trips ${JSON.stringify(pointer)}`, () => {
+      expect(encodePointer(tokens)).toEqual(pointer);
+      expect(decodePointer(pointer)).toEqual(tokens);
+    });
+  }
+
+  it("rejects invalid pointers", () => {
+    expect(() => decodePointer("foo")).toThrow(InvalidPointerError);
+    expect(() => decodePointer("/a~2")).toThrow(InvalidPointerError);
+    expect(() => decodePointer("/a~")).toThrow(InvalidPointerError);
+  });
+});
+
+describe("resolvePointer", () => {
+  // From RFC6901, Section 5.
+  const doc = {
+    foo: ["bar", "baz"],
+    "": 0,
+    "a/b": 1,
+    "c%d": 2,
+    "e^f": 3,
+    "g|h": 4,
+    "i\\j": 5,
+    'k"l': 6,
+    " ": 7,
+    "m~n": 8,
+  };
+
+  it("resolves the examples from the RFC", () => {
+    expect(resolvePointer(doc, "")).toBe(doc);
+    expect(resolvePointer(doc, "/foo")).toEqual(["bar", "baz"]);
+    expect(resolvePointer(doc, "/foo/0")).toEqual("bar");
+    expect(resolvePointer(doc, "/")).toEqual(0);
+    expect(resolvePointer(doc, "/a~1b")).toEqual(1);
+    expect(resolvePointer(doc, "/c%d")).toEqual(2);
+    expect(resolvePointer(doc, "/e^f")).toEqual(3);
+    expect(resolvePointer(doc, "/g|h")).toEqual(4);
+    expect(resolvePointer(doc, "/i\\j")).toEqual(5);
+    expect(resolvePointer(doc, '/k"l')).toEqual(6);
+    expect(resolvePointer(doc, "/ ")).toEqual(7);
+    expect(resolvePointer(doc, "/m~0n")).toEqual(8);
+  });
+
+  it("returns undefined for missing parts", () => {
+    expect(resolvePointer(doc, "/bar")).toBeUndefined();
+    expect(resolvePointer(doc, "/foo/2")).toBeUndefined();
+    expect(resolvePointer(doc, "/foo/01")).toBeUndefined();
+    expect(resolvePointer(doc, "/foo/-")).toBeUndefined();
+    expect(resolvePointer(doc, "/toString")).toBeUndefined();
+  });
+});
+
+describe("resolveSchemaPath", () => {
+  const schema: Schema = {
+    definitions: { node: { properties: { value: { type: "string" } } } },
+    elements: { ref: "node" },
+  };
+
+  it("resolves paths in the root schema", () => {
+    expect(resolveSchemaPath(schema, ["elements", "ref"])).toEqual({
+      definition: undefined,
+      pointer: "/elements/ref",
+      value: "node",
+    });
+  });
+
+  it("resolves paths within definitions", () => {
+    const [error] = validate(schema, [{ value: 1 }]);
+
+    expect(resolveSchemaPath(schema, error.schemaPath)).toEqual({
+      definition: "node",
+      pointer: "/definitions/node/properties/value/type",
+      value: "string",
+    });
+  });
+});
+
+describe("toPointer", () => {
+  it("converts error paths to pointers", () => {
+    expect(
+      toPointer({
+        instancePath: ["a/b", "0"],
+        schemaPath: ["values", "elements", "type"],
+      })
+    ).toEqual({ instancePath: "/a~1b/0", schemaPath: "/values/elements/type" });
+  });
+});
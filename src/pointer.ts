@@ -0,0 +1,198 @@
+/**
+ * Module pointer provides an implementation of [RFC6901 JSON
+ * Pointers](https://tools.ietf.org/html/rfc6901).
+ *
+ * The paths in {@link ValidationError} are arrays of JSON Pointer path
+ * segments. This module lets you convert those paths to and from strings with
+ * {@link encodePointer} and {@link decodePointer}, find the data they point to
+ * with {@link resolvePointer}, and find the part of a schema that produced an
+ * error with {@link resolveSchemaPath}.
+ *
+ * @packageDocumentation
+ */
+
+import { Schema } from "./schema";
+import { ValidationError } from "./validate";
+import { hasOwn, isObject } from "./objects";
+
+/**
+ * InvalidPointerError is the error thrown when {@link decodePointer} is given
+ * a string that is not a valid JSON Pointer.
+ */
+export class InvalidPointerError extends Error {}
+
+/**
+ * encodePointer converts an array of path segments into a JSON Pointer,
+ * escaping `~` as `~0` and `/` as `~1`.
+ *
+ * ```ts
+ * // Returns "/a~1b/0"
+ * encodePointer(["a/b", "0"]);
+ * ```
+ *
+ * @param tokens The path segments to encode
+ */
+export function encodePointer(tokens: string[]): string {
+  return tokens
+    .map((token) => "/" + token.replace(/~/g, "~0").replace(/\//g, "~1"))
+    .join("");
+}
+
+/**
+ * decodePointer converts a JSON Pointer into an array of path segments. It is
+ * the inverse of {@link encodePointer}.
+ *
+ * Throws {@link InvalidPointerError} if `pointer` is not empty and does not
+ * start with `/`, or if it contains a `~` that is not followed by `0` or `1`.
+ *
+ * @param pointer The JSON Pointer to decode
+ */
+export function decodePointer(pointer: string): string[] {
+  if (pointer === "") {
+    return [];
+  }
+
+  if (!pointer.startsWith("/")) {
+    throw new InvalidPointerError(`pointer must start with /: ${pointer}`);
+  }
+
+  if (/~[^01]|~$/.test(pointer)) {
+    throw new InvalidPointerError(`invalid escape in pointer: ${pointer}`);
+  }
+
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * resolvePointer returns the part of `value` that `pointer` refers to, or
+ * undefined if there is no such part.
+ *
+ * `value` may be any JSON data, including an instance or a {@link Schema}.
+ * Only own properties of objects are considered, and array indices must be
+ * written without leading zeros, as RFC6901 requires.
+ *
+ * @param value The data to resolve the pointer against
+ * @param pointer Either a JSON Pointer, or an array of path segments
+ */
+export function resolvePointer(
+  value: unknown,
+  pointer: string | string[]
+): unknown {
+  const tokens = typeof pointer === "string" ? decodePointer(pointer) : pointer;
+
+  let current = value;
+  for (const token of tokens) {
+    if (Array.isArray(current)) {
+      if (!/^(0|[1-9][0-9]*)$/.test(token)) {
+        return undefined;
+      }
+
+      current = current[parseInt(token, 10)];
+    } else if (isObject(current) && hasOwn(current, token)) {
+      current = current[token];
+    } else {
+      return undefined;
+    }
+  }
+
+  return current;
+}
+
+/**
+ * SchemaLocation describes where in a root schema a
+ * {@link ValidationError.schemaPath} points.
+ */
+export interface SchemaLocation {
+  /**
+   * definition is the name of the definition the schemaPath is within, or
+   * undefined if the schemaPath is not within a definition.
+   *
+   * Because {@link validate} starts a new schemaPath each time it follows a
+   * `ref`, this is the definition that the error's `ref` pointed to.
+   */
+  definition?: string;
+
+  /**
+   * pointer is the schemaPath as a JSON Pointer, relative to the root schema.
+   */
+  pointer: string;
+
+  /**
+   * value is the part of the root schema at pointer. It is undefined if the
+   * schemaPath does not exist in the root schema.
+   */
+  value: unknown;
+}
+
+/**
+ * resolveSchemaPath finds the part of a root schema that a
+ * {@link ValidationError.schemaPath} refers to.
+ *
+ * A schemaPath is either relative to the root schema, or, if the error was
+ * found after following a `ref`, relative to the root schema's definition for
+ * that `ref`. In the latter case, the schemaPath starts with `definitions` and
+ * the name of the definition.
+ *
+ * @param root The schema passed to validate
+ * @param schemaPath The schemaPath of an error
+ */
+export function resolveSchemaPath(
+  root: Schema,
+  schemaPath: string[]
+): SchemaLocation {
+  const definition =
+    schemaPath[0] === "definitions" && schemaPath.length >= 2
+      ? schemaPath[1]
+      : undefined;
+
+  return {
+    definition,
+    pointer: encodePointer(schemaPath),
+    value: resolvePointer(root, schemaPath),
+  };
+}
+
+/**
+ * PointerValidationError is a {@link ValidationError} whose paths are JSON
+ * Pointers, rather than arrays of path segments.
+ */
+export interface PointerValidationError {
+  /**
+   * instancePath is {@link ValidationError.instancePath} as a JSON Pointer.
+   */
+  instancePath: string;
+
+  /**
+   * schemaPath is {@link ValidationError.schemaPath} as a JSON Pointer.
+   */
+  schemaPath: string;
+}
+
+/**
+ * toPointer converts the paths of a {@link ValidationError} into JSON
+ * Pointers.
+ *
+ * ```ts
+ * // Returns:
+ * //
+ * // {
+ * //   instancePath: "/phones/1",
+ * //   schemaPath: "/properties/phones/elements/type"
+ * // }
+ * toPointer({
+ *   instancePath: ["phones", "1"],
+ *   schemaPath: ["properties", "phones", "elements", "type"],
+ * });
+ * ```
+ *
+ * @param error The error to convert
+ */
+export function toPointer(error: ValidationError): PointerValidationError {
+  return {
+    instancePath: encodePointer(error.instancePath),
+    schemaPath: encodePointer(error.schemaPath),
+  };
+}
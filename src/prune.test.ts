@@ -0,0 +1,79 @@
+import { MaxDepthExceededError, Schema, prune, validate } from "./index";
+
+describe("prune", () => {
+  it("removes undeclared properties at every level", () => {
+    const schema: Schema = {
+      definitions: {
+        user: {
+          properties: { id: { type: "string" } },
+          optionalProperties: { friends: { elements: { ref: "user" } } },
+        },
+      },
+      values: {
+        discriminator: "kind",
+        mapping: {
+          user: { properties: { user: { ref: "user" } } },
+          raw: { properties: {}, additionalProperties: true },
+        },
+      },
+    };
+
+    const instance = {
+      a: {
+        kind: "user",
+        token: "secret",
+        user: { id: "1", admin: true, friends: [{ id: "2", password: "x" }] },
+      },
+      b: { kind: "raw", anything: { goes: true } },
+    };
+
+    const result = prune(schema, instance);
+
+    expect(result).toEqual({
+      value: {
+        a: { kind: "user", user: { id: "1", friends: [{ id: "2" }] } },
+        b: { kind: "raw", anything: { goes: true } },
+      },
+      removed: [
+        ["a", "token"],
+        ["a", "user", "admin"],
+        ["a", "user", "friends", "0", "password"],
+      ],
+    });
+
+    expect(validate(schema, result.value)).toEqual([]);
+    expect(instance.a.token).toEqual("secret");
+  });
+
+  it("returns a deep copy", () => {
+    const instance = { a: [{ b: 1 }], c: null };
+    const result = prune({ properties: { a: {}, c: {} } }, instance);
+
+    expect(result.value).toEqual(instance);
+    expect(result.value).not.toBe(instance);
+    expect((result.value as typeof instance).a).not.toBe(instance.a);
+  });
+
+  it("copies data that doesn't have the expected shape", () => {
+    const schema: Schema = {
+      discriminator: "kind",
+      mapping: { a: { properties: {} } },
+    };
+
+    expect(prune(schema, { kind: "b", x: 1 })).toEqual({
+      value: { kind: "b", x: 1 },
+      removed: [],
+    });
+  });
+
+  it("supports maxDepth", () => {
+    const schema: Schema = {
+      definitions: { loop: { ref: "loop" } },
+      ref: "loop",
+    };
+
+    expect(() => prune(schema, null, { maxDepth: 32 })).toThrow(
+      MaxDepthExceededError
+    );
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Module prune provides a way to remove the properties a JSON Typedef schema
+ * does not declare from an instance.
+ *
+ * The most important function in this module is {@link prune}, which returns
+ * a {@link PruneResult}.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  Schema,
+  isRefForm,
+  isElementsForm,
+  isPropertiesForm,
+  isValuesForm,
+  isDiscriminatorForm,
+} from "./schema";
+import { MaxDepthExceededError } from "./validate";
+import { getOwn, hasOwn, isObject, setOwn } from "./objects";
+
+/**
+ * PruneOptions are the options you can pass to {@link prune}.
+ */
+export interface PruneOptions {
+  /**
+   * maxDepth is the maximum number of `ref`s to recursively follow before
+   * {@link prune} throws {@link MaxDepthExceededError}. It works just like
+   * {@link ValidationConfig.maxDepth}.
+   *
+   * By default, maxDepth is zero, and no maximum depth is enforced.
+   */
+  maxDepth?: number;
+}
+
+/**
+ * PruneResult is the result of {@link prune}.
+ */
+export interface PruneResult {
+  /**
+   * value is a copy of the instance, without any undeclared properties.
+   */
+  value: unknown;
+
+  /**
+   * removed contains the path to each property that was removed, in the
+   * order they were found. The paths are in the same format as
+   * {@link ValidationError.instancePath}.
+   */
+  removed: string[][];
+}
+
+/**
+ * prune returns a deep copy of an instance (or "input"), without the
+ * properties that a JSON Typedef schema does not declare.
+ *
+ * A property is removed if it is in an object that the schema says is of the
+ * properties form, it is not in `properties` or `optionalProperties`, it is
+ * not the tag of a discriminator, and the schema does not have
+ * `additionalProperties` set to true. In other words, prune removes exactly
+ * the properties that {@link validate} would have rejected as additional
+ * properties.
+ *
+ * ```ts
+ * const schema = {
+ *   elements: { properties: { id: { type: "string" } } },
+ * } as Schema;
+ *
+ * // Returns:
+ * //
+ * // {
+ * //   value: [{ id: "a" }, { id: "b" }],
+ * //   removed: [["1", "admin"]]
+ * // }
+ * prune(schema, [{ id: "a" }, { id: "b", admin: true }]);
+ * ```
+ *
+ * prune does not otherwise check the instance against the schema. Parts of
+ * the instance that don't have the shape the schema expects are copied as
+ * they are. prune never modifies `instance`.
+ *
+ * Like {@link validate}, prune may throw {@link MaxDepthExceededError} if you
+ * configure a maxDepth.
+ *
+ * @param schema The schema to prune the instance according to
+ * @param instance The "input" to prune
+ * @param options Pruning options. Optional.
+ */
+export function prune(
+  schema: Schema,
+  instance: unknown,
+  options: PruneOptions = {}
+): PruneResult {
+  const state: PruneState = {
+    removed: [],
+    instanceTokens: [],
+    depth: 1,
+    root: schema,
+    maxDepth: options.maxDepth || 0,
+  };
+
+  const value = pruneWithState(state, schema, instance);
+  return { value, removed: state.removed };
+}
+
+interface PruneState {
+  removed: string[][];
+  instanceTokens: string[];
+  depth: number;
+  root: Schema;
+  maxDepth: number;
+}
+
+function pruneWithState(
+  state: PruneState,
+  schema: Schema,
+  instance: unknown,
+  parentTag?: string
+): unknown {
+  if (isRefForm(schema)) {
+    if (schema.nullable && instance === null) {
+      return null;
+    }
+
+    if (state.depth === state.maxDepth) {
+      throw new MaxDepthExceededError();
+    }
+
+    state.depth++;
+    const value = pruneWithState(
+      state,
+      state.root.definitions![schema.ref],
+      instance
+    );
+    state.depth--;
+
+    return value;
+  }
+
+  if (isElementsForm(schema) && Array.isArray(instance)) {
+    return instance.map((subInstance, index) => {
+      state.instanceTokens.push(index.toString());
+      const value = pruneWithState(state, schema.elements, subInstance);
+      state.instanceTokens.pop();
+
+      return value;
+    });
+  }
+
+  if (isPropertiesForm(schema) && isObject(instance)) {
+    const properties = schema.properties || {};
+    const optionalProperties = schema.optionalProperties || {};
+    const value = {};
+
+    for (const [name, subInstance] of Object.entries(instance)) {
+      let subSchema: Schema;
+      if (hasOwn(properties, name)) {
+        subSchema = properties[name];
+      } else if (hasOwn(optionalProperties, name)) {
+        subSchema = optionalProperties[name];
+      } else if (schema.additionalProperties || name === parentTag) {
+        subSchema = {};
+      } else {
+        state.removed.push([...state.instanceTokens, name]);
+        continue;
+      }
+
+      state.instanceTokens.push(name);
+      setOwn(value, name, pruneWithState(state, subSchema, subInstance));
+      state.instanceTokens.pop();
+    }
+
+    return value;
+  }
+
+  if (isValuesForm(schema) && isObject(instance)) {
+    const value = {};
+    for (const [name, subInstance] of Object.entries(instance)) {
+      state.instanceTokens.push(name);
+      setOwn(value, name, pruneWithState(state, schema.values, subInstance));
+      state.instanceTokens.pop();
+    }
+
+    return value;
+  }
+
+  if (isDiscriminatorForm(schema) && isObject(instance)) {
+    const tag = getOwn(instance, schema.discriminator);
+
+    if (typeof tag === "string" && hasOwn(schema.mapping, tag)) {
+      return pruneWithState(
+        state,
+        schema.mapping[tag],
+        instance,
+        schema.discriminator
+      );
+    }
+  }
+
+  // Whatever is left either has no properties to remove, or doesn't have the
+  // shape the schema expects.
+  return copy(instance);
+}
+
+// copy returns a deep copy of the arrays and plain objects in a value. Other
+// objects, like Dates, are not copied.
+function copy(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(copy);
+  }
+
+  if (isObject(value) && isPlain(value)) {
+    const result = {};
+    for (const [name, subValue] of Object.entries(value)) {
+      setOwn(result, name, copy(subValue));
+    }
+
+    return result;
+  }
+
+  return value;
+}
+
+function isPlain(object: object): boolean {
+  const prototype = Object.getPrototypeOf(object);
+  return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,240 @@
+import {
+  SchemaRegistry,
+  SchemaRegistryError,
+  isValidSchema,
+  locateSchemaPath,
+  validate,
+} from "./index";
+
+describe("SchemaRegistry", () => {
+  function registry(): SchemaRegistry {
+    const registry = new SchemaRegistry();
+    registry.register("common", {
+      definitions: {
+        address: {
+          properties: {
+            city: { type: "string" },
+            country: { ref: "country" },
+          },
+        },
+        country: { enum: ["FR", "US"] },
+        unused: { type: "string" },
+      },
+    });
+
+    registry.register("user", {
+      definitions: {
+        name: { type: "string" },
+      },
+      properties: {
+        name: { ref: "name" },
+        home: { ref: "common#address" },
+        work: { ref: "common#address", nullable: true },
+      },
+    });
+
+    return registry;
+  }
+
+  it("bundles documents into one schema", () => {
+    const bundle = registry().bundle("user");
+
+    expect(bundle.schema).toEqual({
+      definitions: {
+        name: { type: "string" },
+        "common.address": {
+          properties: {
+            city: { type: "string" },
+            country: { ref: "common.country" },
+          },
+        },
+        "common.country": { enum: ["FR", "US"] },
+      },
+      properties: {
+        name: { ref: "name" },
+        home: { ref: "common.address" },
+        work: { ref: "common.address", nullable: true },
+      },
+    });
+
+    expect(isValidSchema(bundle.schema)).toBe(true);
+    expect(bundle.origins).toEqual({
+      name: { document: "user", definition: "name" },
+      "common.address": { document: "common", definition: "address" },
+      "common.country": { document: "common", definition: "country" },
+    });
+  });
+
+  it("bundles with a custom separator", () => {
+    const bundle = registry().bundle("user", { separator: "__" });
+    expect(Object.keys(bundle.schema.definitions!)).toEqual([
+      "name",
+      "common__address",
+      "common__country",
+    ]);
+  });
+
+  it("bundles documents without cross-document refs", () => {
+    expect(registry().bundle("common").schema).toEqual({
+      definitions: {
+        address: {
+          properties: {
+            city: { type: "string" },
+            country: { ref: "country" },
+          },
+        },
+        country: { enum: ["FR", "US"] },
+        unused: { type: "string" },
+      },
+    });
+  });
+
+  it("maps errors back to their documents", () => {
+    const bundle = registry().bundle("user");
+    const errors = validate(bundle.schema, {
+      name: "Alice",
+      home: { city: "Paris", country: "DE" },
+      work: null,
+      age: 30,
+    });
+
+    expect(
+      errors.map((error) => locateSchemaPath(bundle, error.schemaPath))
+    ).toEqual([
+      {
+        document: "common",
+        definition: "country",
+        schemaPath: ["definitions", "country", "enum"],
+      },
+      { document: "user", schemaPath: [] },
+    ]);
+
+    expect(locateSchemaPath(bundle, ["definitions", "name", "type"])).toEqual({
+      document: "user",
+      definition: "name",
+      schemaPath: ["definitions", "name", "type"],
+    });
+  });
+
+  it("handles cycles between documents", () => {
+    const registry = new SchemaRegistry();
+    registry.register("a", {
+      definitions: { node: { elements: { ref: "b#node" } } },
+    });
+
+    registry.register("b", {
+      definitions: { node: { values: { ref: "a#node" } } },
+    });
+
+    registry.register("root", { ref: "a#node" });
+
+    const bundle = registry.bundle("root");
+    expect(bundle.schema).toEqual({
+      definitions: {
+        "a.node": { elements: { ref: "b.node" } },
+        "b.node": { values: { ref: "a.node" } },
+      },
+      ref: "a.node",
+    });
+
+    expect(validate(bundle.schema, [{ x: [] }])).toEqual([]);
+  });
+
+  it("rewrites refs in every form", () => {
+    const registry = new SchemaRegistry();
+    registry.register("common", {
+      definitions: { id: { type: "uint32" } },
+    });
+
+    registry.register("event", {
+      discriminator: "type",
+      mapping: {
+        click: {
+          properties: { ids: { elements: { ref: "common#id" } } },
+          optionalProperties: { tags: { values: { ref: "common#id" } } },
+        },
+      },
+    });
+
+    expect(registry.bundle("event").schema).toEqual({
+      definitions: { "common.id": { type: "uint32" } },
+      discriminator: "type",
+      mapping: {
+        click: {
+          properties: { ids: { elements: { ref: "common.id" } } },
+          optionalProperties: { tags: { values: { ref: "common.id" } } },
+        },
+      },
+    });
+  });
+
+  it("prefers local definitions whose names contain #", () => {
+    const registry = new SchemaRegistry();
+    registry.register("doc", {
+      definitions: { "a#b": { type: "string" } },
+      ref: "a#b",
+    });
+
+    expect(registry.bundle("doc").schema).toEqual({
+      definitions: { "a#b": { type: "string" } },
+      ref: "a#b",
+    });
+  });
+
+  it("rejects invalid registrations", () => {
+    const registry = new SchemaRegistry();
+    registry.register("a", {});
+
+    expect(() => registry.register("a", {})).toThrow(
+      new SchemaRegistryError("document already registered: a")
+    );
+
+    expect(() => registry.register("a#b", {})).toThrow(
+      new SchemaRegistryError("document name contains #: a#b")
+    );
+
+    expect(() => registry.register("b", { ref: "missing" })).toThrow(
+      new SchemaRegistryError(
+        "invalid schema in document b at /ref: " +
+          "ref to undefined definition: missing"
+      )
+    );
+
+    expect(registry.has("a")).toBe(true);
+    expect(registry.has("b")).toBe(false);
+  });
+
+  it("rejects dangling cross-document refs when bundling", () => {
+    const registry = new SchemaRegistry();
+    registry.register("a", { definitions: { x: {} } });
+    registry.register("b", { ref: "z#x" });
+    registry.register("c", { ref: "a#y" });
+
+    expect(() => registry.bundle("b")).toThrow(
+      new SchemaRegistryError("ref to unregistered document in b: z#x")
+    );
+
+    expect(() => registry.bundle("c")).toThrow(
+      new SchemaRegistryError("ref to undefined definition in c: a#y")
+    );
+
+    expect(() => registry.bundle("d")).toThrow(
+      new SchemaRegistryError("no such document: d")
+    );
+  });
+
+  it("rejects definition name collisions", () => {
+    const registry = new SchemaRegistry();
+    registry.register("a", { definitions: { x: {} } });
+    registry.register("b", {
+      definitions: { "a.x": {} },
+      ref: "a#x",
+    });
+
+    expect(() => registry.bundle("b")).toThrow(
+      new SchemaRegistryError(
+        "definition name collision: a.x is both a.x from b and x from a"
+      )
+    );
+  });
+});
@@ -0,0 +1,422 @@
+/**
+ * Module registry provides a way to split JSON Typedef schemas across many
+ * documents, and to combine them back into one schema.
+ *
+ * JSON Typedef only lets a `ref` refer to the `definitions` of its own root
+ * schema. A {@link SchemaRegistry} lets refs refer to the definitions of other
+ * documents too, and {@link SchemaRegistry.bundle} turns a document and all
+ * the definitions it uses into a single root schema that you can pass to
+ * {@link validate}. To find out which document a {@link ValidationError} came
+ * from, use {@link locateSchemaPath}.
+ *
+ * @packageDocumentation
+ */
+
+import { encodePointer, resolvePointer } from "./pointer";
+import {
+  Schema,
+  checkSchema,
+  isRefForm,
+  isElementsForm,
+  isPropertiesForm,
+  isValuesForm,
+  isDiscriminatorForm,
+} from "./schema";
+import { hasOwn, setOwn } from "./objects";
+
+/**
+ * SchemaRegistryError is the error thrown when a {@link SchemaRegistry} is
+ * given a document it can't register, or asked to bundle a document that
+ * refers to something that doesn't exist.
+ */
+export class SchemaRegistryError extends Error {}
+
+/**
+ * BundleOptions are the options you can pass to {@link SchemaRegistry.bundle}.
+ */
+export interface BundleOptions {
+  /**
+   * separator is put between the name of a document and the name of one of
+   * its definitions to make the name of that definition in the bundle. By
+   * default, separator is `.`.
+   */
+  separator?: string;
+}
+
+/**
+ * SchemaBundle is the result of {@link SchemaRegistry.bundle}.
+ */
+export interface SchemaBundle {
+  /**
+   * schema is a root schema that is correct according to
+   * {@link isValidSchema}, and contains every definition the bundled document
+   * uses.
+   */
+  schema: Schema;
+
+  /**
+   * document is the name of the document that was bundled.
+   */
+  document: string;
+
+  /**
+   * origins is where each of the definitions in {@link schema} came from, by
+   * their name in the bundle.
+   */
+  origins: { [name: string]: DefinitionOrigin };
+}
+
+/**
+ * DefinitionOrigin describes where a definition in a {@link SchemaBundle}
+ * came from.
+ */
+export interface DefinitionOrigin {
+  /**
+   * document is the name of the document the definition is from.
+   */
+  document: string;
+
+  /**
+   * definition is the name of the definition in that document.
+   */
+  definition: string;
+}
+
+/**
+ * DocumentLocation describes where in a registered document a
+ * {@link ValidationError.schemaPath} from a {@link SchemaBundle} points.
+ */
+export interface DocumentLocation {
+  /**
+   * document is the name of the document the schemaPath is within.
+   */
+  document: string;
+
+  /**
+   * definition is the name, within that document, of the definition the
+   * schemaPath is within. It is undefined if the schemaPath is not within a
+   * definition.
+   */
+  definition?: string;
+
+  /**
+   * schemaPath is the schemaPath, relative to that document.
+   */
+  schemaPath: string[];
+}
+
+/**
+ * SchemaRegistry is a collection of named schema documents, whose refs may
+ * refer to each other's definitions.
+ *
+ * A `ref` in a registered document may either be the name of one of that
+ * document's own definitions, as usual, or be of the form
+ * `document#definition` to refer to a definition of another document.
+ *
+ * ```ts
+ * const registry = new SchemaRegistry();
+ * registry.register("common", {
+ *   definitions: { address: { properties: { city: { type: "string" } } } },
+ * });
+ *
+ * registry.register("user", {
+ *   properties: { home: { ref: "common#address" } },
+ * });
+ *
+ * // Returns:
+ * //
+ * // {
+ * //   definitions: {
+ * //     "common.address": { properties: { city: { type: "string" } } },
+ * //   },
+ * //   properties: { home: { ref: "common.address" } },
+ * // }
+ * registry.bundle("user").schema;
+ * ```
+ */
+export class SchemaRegistry {
+  private readonly documents: { [name: string]: Schema } = {};
+
+  /**
+   * register adds a document to the registry.
+   *
+   * Throws {@link SchemaRegistryError} if there's already a document with the
+   * same name, if the name contains `#`, or if the document is not a correct
+   * schema according to {@link checkSchema}. The only exception to the latter
+   * is that refs to other documents' definitions are allowed, even if those
+   * documents haven't been registered yet.
+   *
+   * @param name The name of the document
+   * @param schema The document itself
+   */
+  register(name: string, schema: Schema) {
+    if (name.includes("#")) {
+      throw new SchemaRegistryError(`document name contains #: ${name}`);
+    }
+
+    if (hasOwn(this.documents, name)) {
+      throw new SchemaRegistryError(`document already registered: ${name}`);
+    }
+
+    for (const diagnostic of checkSchema(schema)) {
+      const isCrossDocumentRef =
+        diagnostic.code === "dangling_ref" &&
+        String(resolvePointer(schema, diagnostic.path)).includes("#");
+
+      if (!isCrossDocumentRef) {
+        throw new SchemaRegistryError(
+          `invalid schema in document ${name} at ${
+            diagnostic.path.length === 0
+              ? "the root"
+              : encodePointer(diagnostic.path)
+          }: ${diagnostic.message}`
+        );
+      }
+    }
+
+    setOwn(this.documents, name, schema);
+  }
+
+  /**
+   * has returns whether a document with the given name has been registered.
+   *
+   * @param name The name of the document
+   */
+  has(name: string): boolean {
+    return hasOwn(this.documents, name);
+  }
+
+  /**
+   * bundle returns a single root schema for a registered document, which
+   * contains all the definitions the document uses, directly or indirectly.
+   *
+   * The document's own definitions keep their names. Definitions from other
+   * documents are named after the document and the definition, joined by
+   * {@link BundleOptions.separator}, and only the ones that are used are
+   * included. The refs in the bundle are changed to match.
+   *
+   * Throws {@link SchemaRegistryError} if the document, or a document or
+   * definition it refers to, does not exist, or if two definitions would have
+   * the same name in the bundle.
+   *
+   * @param name The name of the document to bundle
+   * @param options Bundling options. Optional.
+   */
+  bundle(name: string, options: BundleOptions = {}): SchemaBundle {
+    if (!hasOwn(this.documents, name)) {
+      throw new SchemaRegistryError(`no such document: ${name}`);
+    }
+
+    const state: BundleState = {
+      documents: this.documents,
+      root: name,
+      separator: options.separator === undefined ? "." : options.separator,
+      definitions: {},
+      origins: {},
+      pending: [],
+    };
+
+    const document = this.documents[name];
+    for (const definition of Object.keys(document.definitions || {})) {
+      bundledName(state, name, definition);
+    }
+
+    const { definitions, ...rest } = document;
+    const schema = rewrite(state, name, rest);
+
+    // Rewriting a definition may find more definitions that need to be
+    // included.
+    while (state.pending.length !== 0) {
+      const [bundled, origin] = state.pending.shift()!;
+      const definition = state.documents[origin.document].definitions![
+        origin.definition
+      ];
+
+      setOwn(
+        state.definitions,
+        bundled,
+        rewrite(state, origin.document, definition)
+      );
+    }
+
+    if (Object.keys(state.definitions).length === 0) {
+      return { schema, document: name, origins: state.origins };
+    }
+
+    return {
+      schema: { definitions: state.definitions, ...schema },
+      document: name,
+      origins: state.origins,
+    };
+  }
+}
+
+/**
+ * locateSchemaPath finds where a {@link ValidationError.schemaPath} from
+ * validating against a {@link SchemaBundle} points in the original documents.
+ *
+ * ```ts
+ * const bundle = registry.bundle("user");
+ *
+ * // Returns:
+ * //
+ * // {
+ * //   document: "common",
+ * //   definition: "address",
+ * //   schemaPath: ["definitions", "address", "properties", "city"],
+ * // }
+ * locateSchemaPath(bundle, [
+ *   "definitions",
+ *   "common.address",
+ *   "properties",
+ *   "city",
+ * ]);
+ * ```
+ *
+ * @param bundle The bundle whose schema was passed to validate
+ * @param schemaPath The schemaPath of an error
+ */
+export function locateSchemaPath(
+  bundle: SchemaBundle,
+  schemaPath: string[]
+): DocumentLocation {
+  if (
+    schemaPath[0] === "definitions" &&
+    schemaPath.length >= 2 &&
+    hasOwn(bundle.origins, schemaPath[1])
+  ) {
+    const { document, definition } = bundle.origins[schemaPath[1]];
+    return {
+      document,
+      definition,
+      schemaPath: ["definitions", definition, ...schemaPath.slice(2)],
+    };
+  }
+
+  return { document: bundle.document, schemaPath };
+}
+
+interface BundleState {
+  documents: { [name: string]: Schema };
+  root: string;
+  separator: string;
+  definitions: { [name: string]: Schema };
+  origins: { [name: string]: DefinitionOrigin };
+
+  // The definitions that have been given a name in the bundle, but haven't
+  // been added to it yet.
+  pending: [string, DefinitionOrigin][];
+}
+
+// bundledName returns the name in the bundle of a document's definition,
+// scheduling the definition to be added to the bundle if it hasn't been
+// already.
+function bundledName(
+  state: BundleState,
+  document: string,
+  definition: string
+): string {
+  const name =
+    document === state.root
+      ? definition
+      : `${document}${state.separator}${definition}`;
+
+  if (hasOwn(state.origins, name)) {
+    const origin = state.origins[name];
+    if (origin.document !== document || origin.definition !== definition) {
+      throw new SchemaRegistryError(
+        `definition name collision: ${name} is both ${origin.definition} ` +
+          `from ${origin.document} and ${definition} from ${document}`
+      );
+    }
+
+    return name;
+  }
+
+  setOwn(state.origins, name, { document, definition });
+  state.pending.push([name, { document, definition }]);
+  return name;
+}
+
+// rewrite returns a copy of a schema from a document, with its refs changed to
+// the names of the definitions they refer to in the bundle.
+function rewrite(
+  state: BundleState,
+  document: string,
+  schema: Schema
+): Schema {
+  if (isRefForm(schema)) {
+    let target = document;
+    let definition = schema.ref;
+
+    // A ref containing # may still be the name of one of the document's own
+    // definitions, in which case it keeps its usual meaning.
+    const index = schema.ref.indexOf("#");
+    const local = state.documents[document].definitions || {};
+    if (index !== -1 && !hasOwn(local, schema.ref)) {
+      target = schema.ref.slice(0, index);
+      definition = schema.ref.slice(index + 1);
+
+      if (!hasOwn(state.documents, target)) {
+        throw new SchemaRegistryError(
+          `ref to unregistered document in ${document}: ${schema.ref}`
+        );
+      }
+
+      if (!hasOwn(state.documents[target].definitions || {}, definition)) {
+        throw new SchemaRegistryError(
+          `ref to undefined definition in ${document}: ${schema.ref}`
+        );
+      }
+    }
+
+    return { ...schema, ref: bundledName(state, target, definition) };
+  }
+
+  if (isElementsForm(schema)) {
+    return { ...schema, elements: rewrite(state, document, schema.elements) };
+  }
+
+  if (isPropertiesForm(schema)) {
+    const result = { ...schema };
+    if (schema.properties !== undefined) {
+      result.properties = rewriteAll(state, document, schema.properties);
+    }
+
+    if (schema.optionalProperties !== undefined) {
+      result.optionalProperties = rewriteAll(
+        state,
+        document,
+        schema.optionalProperties
+      );
+    }
+
+    return result;
+  }
+
+  if (isValuesForm(schema)) {
+    return { ...schema, values: rewrite(state, document, schema.values) };
+  }
+
+  if (isDiscriminatorForm(schema)) {
+    return {
+      ...schema,
+      mapping: rewriteAll(state, document, schema.mapping),
+    };
+  }
+
+  return schema;
+}
+
+function rewriteAll<T extends Schema>(
+  state: BundleState,
+  document: string,
+  schemas: { [name: string]: T }
+): { [name: string]: T } {
+  const result = {};
+  for (const [name, schema] of Object.entries(schemas)) {
+    setOwn(result, name, rewrite(state, document, schema));
+  }
+
+  return result;
+}
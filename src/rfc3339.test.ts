@@ -1,5 +1,14 @@
 
-import isRFC3339 from "./rfc3339"
+import isRFC3339, {
+  InvalidTimestampError,
+  formatRFC3339,
+  fromDate,
+  fromEpochNanoseconds,
+  parseRFC3339,
+  toDate,
+  toEpochNanoseconds,
+  toUTC,
+} from "./rfc3339"
 
 describe("isRFC3339", () => {
   const testCases = {
@@ -40,3 +49,114 @@ describe("isRFC3339", () => {
     })
   }
 })
+
+describe("parseRFC3339", () => {
+  it("keeps every part of the timestamp", () => {
+    expect(parseRFC3339("1990-12-31t15:59:60.000000000452-08:30")).toEqual({
+      year: 1990,
+      month: 12,
+      day: 31,
+      hour: 15,
+      minute: 59,
+      second: 60,
+      fraction: "000000000452",
+      offset: -510,
+      leapSecond: true,
+    })
+  })
+
+  it("rejects invalid timestamps", () => {
+    expect(() => parseRFC3339("2015-02-30T17:35:20Z")).toThrow(
+      new InvalidTimestampError("invalid RFC3339 timestamp: 2015-02-30T17:35:20Z")
+    )
+  })
+})
+
+describe("formatRFC3339", () => {
+  it("round-trips timestamps", () => {
+    for (const s of [
+      "1985-04-12T23:20:50.52Z",
+      "1990-12-31T15:59:60-08:00",
+      "0001-01-01T00:00:00.000000000001+14:00",
+    ]) {
+      expect(formatRFC3339(parseRFC3339(s))).toEqual(s)
+    }
+  })
+
+  it("converts to the given offset and precision", () => {
+    const timestamp = parseRFC3339("1990-12-31T23:59:60.123456Z")
+
+    expect(formatRFC3339(timestamp, { offset: 90, precision: 9 })).toEqual(
+      "1991-01-01T01:29:60.123456000+01:30"
+    )
+    expect(formatRFC3339(timestamp, { offset: -1, precision: 0 })).toEqual(
+      "1990-12-31T23:58:60-00:01"
+    )
+  })
+
+  it("rejects timestamps it cannot write", () => {
+    const timestamp = parseRFC3339("0000-01-01T00:00:00Z")
+
+    expect(() => formatRFC3339(timestamp, { offset: -60 })).toThrow(
+      InvalidTimestampError
+    )
+    expect(() => formatRFC3339(timestamp, { offset: 1440 })).toThrow(
+      InvalidTimestampError
+    )
+    expect(() => formatRFC3339(timestamp, { precision: -1 })).toThrow(
+      InvalidTimestampError
+    )
+  })
+})
+
+describe("toUTC", () => {
+  it("normalizes the offset to zero", () => {
+    const timestamp = toUTC(parseRFC3339("2000-03-01T00:30:00.5+01:00"))
+    expect(formatRFC3339(timestamp)).toEqual("2000-02-29T23:30:00.5Z")
+  })
+})
+
+describe("Date conversion", () => {
+  it("converts to and from Dates", () => {
+    const timestamp = parseRFC3339("0050-06-15T12:00:00.123999+02:00")
+    const date = toDate(timestamp)
+
+    expect(date.toISOString()).toEqual("0050-06-15T10:00:00.123Z")
+    expect(formatRFC3339(fromDate(date, 120))).toEqual(
+      "0050-06-15T12:00:00.123+02:00"
+    )
+  })
+
+  it("converts leap seconds into the following minute", () => {
+    const date = toDate(parseRFC3339("1990-12-31T23:59:60.5Z"))
+    expect(date.toISOString()).toEqual("1991-01-01T00:00:00.500Z")
+  })
+
+  it("rejects invalid Dates", () => {
+    expect(() => fromDate(new Date(NaN))).toThrow(InvalidTimestampError)
+  })
+})
+
+describe("epoch nanosecond conversion", () => {
+  it("converts to and from epoch nanoseconds", () => {
+    const cases: [string, string, string][] = [
+      ["1970-01-01T00:00:00Z", "0", "1970-01-01T00:00:00.000000000Z"],
+      [
+        "1969-12-31T23:59:59.999999999999Z",
+        "-1",
+        "1969-12-31T23:59:59.999999999Z",
+      ],
+      [
+        "2262-04-11T23:47:16.854775807Z",
+        "9223372036854775807",
+        "2262-04-11T23:47:16.854775807Z",
+      ],
+    ]
+
+    for (const [s, nanos, roundTripped] of cases) {
+      const n = toEpochNanoseconds(parseRFC3339(s))
+      expect(n.toString()).toEqual(nanos)
+      expect(formatRFC3339(fromEpochNanoseconds(n))).toEqual(roundTripped)
+    }
+  })
+})
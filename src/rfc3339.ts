@@ -1,11 +1,273 @@
-/** @ignore *//** */
+/**
+ * Module rfc3339 provides a way to work with [RFC3339
+ * timestamps](https://tools.ietf.org/html/rfc3339), which is the format JSON
+ * Typedef uses for the `timestamp` type.
+ *
+ * {@link parseRFC3339} converts a timestamp into a {@link Timestamp}, which
+ * keeps every part of the timestamp, including its offset, fractional seconds
+ * more precise than a `Date` can hold, and leap seconds. {@link formatRFC3339}
+ * converts a Timestamp back into a string.
+ *
+ * @packageDocumentation
+ */
 
 const pattern = /^(\d{4})-(\d{2})-(\d{2})[tT](\d{2}):(\d{2}):(\d{2})(\.\d+)?([zZ]|((\+|-)(\d{2}):(\d{2})))$/
 
-export default function isRFC3339(s: string): boolean {
+/**
+ * InvalidTimestampError is the error thrown when a string is not an RFC3339
+ * timestamp, or when a {@link Timestamp} cannot be formatted.
+ */
+export class InvalidTimestampError extends Error {}
+
+/**
+ * Timestamp is a parsed RFC3339 timestamp.
+ *
+ * The date and time fields are in the timestamp's own offset, not in UTC. Use
+ * {@link toUTC} to get the same instant with an offset of zero.
+ */
+export interface Timestamp {
+  year: number;
+
+  /**
+   * month is the month of the year, from 1 to 12.
+   */
+  month: number;
+
+  /**
+   * day is the day of the month, starting from 1.
+   */
+  day: number;
+
+  hour: number;
+  minute: number;
+
+  /**
+   * second is the second of the minute, from 0 to 60. 60 is only used for
+   * leap seconds.
+   */
+  second: number;
+
+  /**
+   * fraction is the digits of the fractional part of the second, exactly as
+   * they were written. It is empty if there was no fractional part.
+   *
+   * For example, the fraction of `1985-04-12T23:20:50.520Z` is `"520"`.
+   */
+  fraction: string;
+
+  /**
+   * offset is the offset of the timestamp from UTC, in minutes. It is negative
+   * for timestamps west of UTC. For example, the offset of `-08:00` is -480.
+   */
+  offset: number;
+
+  /**
+   * leapSecond is whether the timestamp is a leap second, that is, whether
+   * second is 60.
+   */
+  leapSecond: boolean;
+}
+
+/**
+ * RFC3339FormatOptions are the options you can pass to {@link formatRFC3339}.
+ */
+export interface RFC3339FormatOptions {
+  /**
+   * offset is the offset from UTC, in minutes, to write the timestamp in. By
+   * default, the timestamp's own offset is used.
+   */
+  offset?: number;
+
+  /**
+   * precision is the number of digits to write after the decimal point of the
+   * seconds. Extra digits are truncated, and missing ones are filled in with
+   * zeros. By default, all the digits of the timestamp's fraction are written.
+   */
+  precision?: number;
+}
+
+/**
+ * isRFC3339 returns whether a string is an RFC3339 timestamp.
+ *
+ * @param s The string to check
+ */
+export function isRFC3339(s: string): boolean {
+  return matchTimestamp(s) !== null;
+}
+
+export default isRFC3339;
+
+/**
+ * parseRFC3339 parses an RFC3339 timestamp.
+ *
+ * ```ts
+ * // Returns:
+ * //
+ * // {
+ * //   year: 1990, month: 12, day: 31, hour: 15, minute: 59, second: 60,
+ * //   fraction: "123456789", offset: -480, leapSecond: true
+ * // }
+ * parseRFC3339("1990-12-31T15:59:60.123456789-08:00");
+ * ```
+ *
+ * Throws {@link InvalidTimestampError} if `s` is not an RFC3339 timestamp.
+ *
+ * @param s The timestamp to parse
+ */
+export function parseRFC3339(s: string): Timestamp {
+  const timestamp = matchTimestamp(s);
+  if (timestamp === null) {
+    throw new InvalidTimestampError(`invalid RFC3339 timestamp: ${s}`);
+  }
+
+  return timestamp;
+}
+
+/**
+ * formatRFC3339 converts a {@link Timestamp} into an RFC3339 string.
+ *
+ * ```ts
+ * const timestamp = parseRFC3339("1985-04-12T23:20:50.52Z");
+ *
+ * // Returns "1985-04-12T15:20:50.520000-08:00"
+ * formatRFC3339(timestamp, { offset: -480, precision: 6 });
+ * ```
+ *
+ * Throws {@link InvalidTimestampError} if the offset is not a whole number of
+ * minutes less than a day, if the precision is not a non-negative integer, or
+ * if the year, once the timestamp is converted to the offset, is not between
+ * 0 and 9999.
+ *
+ * @param timestamp The timestamp to format
+ * @param options Offset and precision options. Optional.
+ */
+export function formatRFC3339(
+  timestamp: Timestamp,
+  options: RFC3339FormatOptions = {}
+): string {
+  const offset =
+    options.offset === undefined ? timestamp.offset : options.offset;
+  const precision =
+    options.precision === undefined
+      ? timestamp.fraction.length
+      : options.precision;
+
+  if (!Number.isInteger(offset) || Math.abs(offset) >= 24 * 60) {
+    throw new InvalidTimestampError(`invalid offset: ${offset}`);
+  }
+
+  if (!Number.isInteger(precision) || precision < 0) {
+    throw new InvalidTimestampError(`invalid precision: ${precision}`);
+  }
+
+  const t = withOffset(timestamp, offset);
+  if (t.year < 0 || t.year > 9999) {
+    throw new InvalidTimestampError(`year out of range: ${t.year}`);
+  }
+
+  const date = `${pad(t.year, 4)}-${pad(t.month, 2)}-${pad(t.day, 2)}`;
+  const time = `${pad(t.hour, 2)}:${pad(t.minute, 2)}:${pad(t.second, 2)}`;
+  const digits = t.fraction.padEnd(precision, "0").slice(0, precision);
+  const fraction = precision === 0 ? "" : `.${digits}`;
+
+  return `${date}T${time}${fraction}${formatOffset(offset)}`;
+}
+
+/**
+ * toUTC returns the same instant as a {@link Timestamp}, but with an offset
+ * of zero.
+ *
+ * The seconds, fraction, and leap second of the timestamp are unchanged.
+ *
+ * @param timestamp The timestamp to convert
+ */
+export function toUTC(timestamp: Timestamp): Timestamp {
+  return withOffset(timestamp, 0);
+}
+
+/**
+ * toDate converts a {@link Timestamp} into a `Date`.
+ *
+ * Dates are only precise to the millisecond, so any further digits of the
+ * fraction are truncated. Dates also cannot represent leap seconds, so a leap
+ * second is converted into the first moment of the following minute.
+ *
+ * @param timestamp The timestamp to convert
+ */
+export function toDate(timestamp: Timestamp): Date {
+  const millis = parseInt(timestamp.fraction.padEnd(3, "0").slice(0, 3), 10);
+  return new Date(epochSeconds(timestamp) * 1000 + millis);
+}
+
+/**
+ * fromDate converts a `Date` into a {@link Timestamp}, with a three-digit
+ * fraction.
+ *
+ * Throws {@link InvalidTimestampError} if the date is invalid.
+ *
+ * @param date The date to convert
+ * @param offset The offset from UTC, in minutes, to give the timestamp.
+ * Defaults to zero.
+ */
+export function fromDate(date: Date, offset = 0): Timestamp {
+  const millis = date.getTime();
+  if (isNaN(millis)) {
+    throw new InvalidTimestampError("invalid date");
+  }
+
+  const seconds = Math.floor(millis / 1000);
+  return fromEpochSeconds(seconds, pad(millis - seconds * 1000, 3), offset);
+}
+
+/**
+ * toEpochNanoseconds converts a {@link Timestamp} into the number of
+ * nanoseconds since 1970-01-01T00:00:00Z.
+ *
+ * Any digits of the fraction beyond nanoseconds are truncated. As in POSIX
+ * time, leap seconds are not counted, so a leap second is converted into the
+ * first moment of the following minute.
+ *
+ * @param timestamp The timestamp to convert
+ */
+export function toEpochNanoseconds(timestamp: Timestamp): bigint {
+  const nanos = timestamp.fraction.padEnd(9, "0").slice(0, 9);
+  return BigInt(epochSeconds(timestamp)) * BILLION + BigInt(nanos);
+}
+
+/**
+ * fromEpochNanoseconds converts a number of nanoseconds since
+ * 1970-01-01T00:00:00Z into a {@link Timestamp}, with a nine-digit fraction.
+ *
+ * It is the inverse of {@link toEpochNanoseconds}.
+ *
+ * @param nanoseconds The number of nanoseconds since the epoch
+ * @param offset The offset from UTC, in minutes, to give the timestamp.
+ * Defaults to zero.
+ */
+export function fromEpochNanoseconds(
+  nanoseconds: bigint,
+  offset = 0
+): Timestamp {
+  // Division of bigints rounds towards zero, but we need the whole number of
+  // seconds at or before the instant.
+  let seconds = nanoseconds / BILLION;
+  let nanos = nanoseconds % BILLION;
+  if (nanos < BigInt(0)) {
+    seconds -= BigInt(1);
+    nanos += BILLION;
+  }
+
+  return fromEpochSeconds(Number(seconds), pad(Number(nanos), 9), offset);
+}
+
+const BILLION = BigInt(1000000000);
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+function matchTimestamp(s: string): Timestamp | null {
   const matches = s.match(pattern);
   if (matches === null) {
-    return false;
+    return null;
   }
 
   const year = parseInt(matches[1], 10);
@@ -16,27 +278,151 @@ export default function isRFC3339(s: string): boolean {
   const second = parseInt(matches[6], 10);
 
   if (month > 12) {
-    return false;
+    return null;
   }
 
   if (day > maxDay(year, month)) {
-    return false;
+    return null;
   }
 
   if (hour > 23) {
-    return false;
+    return null;
   }
 
   if (minute > 59) {
-    return false;
+    return null;
   }
 
   // A value of 60 is permissible as a leap second.
   if (second > 60) {
-    return false;
+    return null;
+  }
+
+  let offset = 0;
+  if (matches[9] !== undefined) {
+    const sign = matches[10] === "-" ? -1 : 1;
+    offset =
+      sign * (parseInt(matches[11], 10) * 60 + parseInt(matches[12], 10));
   }
 
-  return true;
+  return {
+    year,
+    month,
+    day,
+    hour,
+    minute,
+    second,
+    fraction: matches[7] === undefined ? "" : matches[7].slice(1),
+    offset,
+    leapSecond: second === 60,
+  };
+}
+
+// epochSeconds returns the number of seconds between 1970-01-01T00:00:00Z and
+// the whole second of a timestamp.
+function epochSeconds(t: Timestamp): number {
+  const days = daysFromCivil(t.year, t.month, t.day);
+  return (
+    days * SECONDS_PER_DAY +
+    t.hour * 3600 +
+    t.minute * 60 +
+    t.second -
+    t.offset * 60
+  );
+}
+
+// fromEpochSeconds is the inverse of epochSeconds. It never returns a leap
+// second.
+function fromEpochSeconds(
+  seconds: number,
+  fraction: string,
+  offset: number
+): Timestamp {
+  const local = seconds + offset * 60;
+  const days = Math.floor(local / SECONDS_PER_DAY);
+  const rest = local - days * SECONDS_PER_DAY;
+  const [year, month, day] = civilFromDays(days);
+
+  return {
+    year,
+    month,
+    day,
+    hour: Math.floor(rest / 3600),
+    minute: Math.floor((rest % 3600) / 60),
+    second: rest % 60,
+    fraction,
+    offset,
+    leapSecond: false,
+  };
+}
+
+// withOffset returns the same instant as a timestamp, but in a different
+// offset. Offsets are a whole number of minutes, so only the minute and
+// larger fields of the timestamp can change. That lets us keep leap seconds.
+function withOffset(t: Timestamp, offset: number): Timestamp {
+  return {
+    ...fromEpochSeconds(epochSeconds({ ...t, second: 0 }), t.fraction, offset),
+    second: t.second,
+    leapSecond: t.leapSecond,
+  };
+}
+
+// daysFromCivil returns the number of days between 1970-01-01 and a date in
+// the proleptic Gregorian calendar. Unlike Date.UTC, it treats years before
+// 100 literally.
+//
+// See: http://howardhinnant.github.io/date_algorithms.html#days_from_civil
+function daysFromCivil(year: number, month: number, day: number): number {
+  const y = month <= 2 ? year - 1 : year;
+  const era = Math.floor(y / 400);
+  const yearOfEra = y - era * 400;
+  const dayOfYear =
+    Math.floor((153 * (month > 2 ? month - 3 : month + 9) + 2) / 5) + day - 1;
+  const dayOfEra =
+    yearOfEra * 365 +
+    Math.floor(yearOfEra / 4) -
+    Math.floor(yearOfEra / 100) +
+    dayOfYear;
+
+  return era * 146097 + dayOfEra - 719468;
+}
+
+// civilFromDays is the inverse of daysFromCivil.
+//
+// See: http://howardhinnant.github.io/date_algorithms.html#civil_from_days
+function civilFromDays(days: number): [number, number, number] {
+  const z = days + 719468;
+  const era = Math.floor(z / 146097);
+  const dayOfEra = z - era * 146097;
+  const yearOfEra = Math.floor(
+    (dayOfEra -
+      Math.floor(dayOfEra / 1460) +
+      Math.floor(dayOfEra / 36524) -
+      Math.floor(dayOfEra / 146096)) /
+      365
+  );
+  const dayOfYear =
+    dayOfEra -
+    (365 * yearOfEra + Math.floor(yearOfEra / 4) - Math.floor(yearOfEra / 100));
+  const mp = Math.floor((5 * dayOfYear + 2) / 153);
+  const day = dayOfYear - Math.floor((153 * mp + 2) / 5) + 1;
+  const month = mp < 10 ? mp + 3 : mp - 9;
+
+  return [yearOfEra + era * 400 + (month <= 2 ? 1 : 0), month, day];
+}
+
+function formatOffset(offset: number): string {
+  if (offset === 0) {
+    return "Z";
+  }
+
+  const sign = offset < 0 ? "-" : "+";
+  const minutes = Math.abs(offset);
+  return `${sign}${pad(Math.floor(minutes / 60), 2)}:${pad(minutes % 60, 2)}`;
+}
+
+function pad(n: number, width: number): string {
+  return n.toString().padStart(width, "0");
 }
 
 function maxDay(year: number, month: number) {
@@ -0,0 +1,138 @@
+import { checkSchema, findRefCycles, isValidSchema } from "./index";
+
+describe("checkSchema", () => {
+  it("returns no diagnostics for correct schemas", () => {
+    expect(
+      checkSchema({
+        definitions: { a: { type: "string" } },
+        properties: { a: { ref: "a" } },
+        optionalProperties: { b: { enum: ["x", "y"] } },
+      })
+    ).toEqual([]);
+  });
+
+  it("reports problems with the shape of schemas", () => {
+    expect(
+      checkSchema({
+        type: "nonsense",
+        elements: {},
+        properties: { a: null },
+        nullable: "yes",
+        foo: 1,
+      })
+    ).toEqual([
+      {
+        path: [],
+        code: "invalid_form",
+        message: "keywords do not match any form: type, elements, properties",
+      },
+      {
+        path: ["nullable"],
+        code: "invalid_keyword",
+        message: "nullable must be a boolean",
+      },
+      {
+        path: ["type"],
+        code: "unknown_type",
+        message: "unknown type: nonsense",
+      },
+      {
+        path: ["properties", "a"],
+        code: "not_object",
+        message: "schema must be an object",
+      },
+      {
+        path: ["foo"],
+        code: "unknown_keyword",
+        message: "unknown keyword: foo",
+      },
+    ]);
+  });
+
+  it("reports problems with the validity of schemas", () => {
+    expect(
+      checkSchema({
+        definitions: {
+          a: { definitions: {}, enum: ["x", "y", "x"] },
+          b: { properties: { x: {} }, optionalProperties: { x: {} } },
+        },
+        discriminator: "kind",
+        mapping: {
+          c: { ref: "missing" },
+          d: { properties: { kind: {} }, nullable: true },
+        },
+      }).map(({ path, code }) => ({ path, code }))
+    ).toEqual([
+      {
+        path: ["definitions", "a", "definitions"],
+        code: "nested_definitions",
+      },
+      {
+        path: ["definitions", "a", "enum", "2"],
+        code: "duplicate_enum_value",
+      },
+      {
+        path: ["definitions", "b", "optionalProperties", "x"],
+        code: "overlapping_property",
+      },
+      { path: ["mapping", "c", "ref"], code: "dangling_ref" },
+      { path: ["mapping", "c"], code: "mapping_not_properties" },
+      { path: ["mapping", "d", "nullable"], code: "nullable_mapping" },
+      {
+        path: ["mapping", "d", "properties", "kind"],
+        code: "discriminator_in_mapping",
+      },
+    ]);
+  });
+
+  it("only checks validity of schemas with a correct shape", () => {
+    expect(checkSchema({ ref: "missing", foo: 1 })).toHaveLength(1);
+  });
+});
+
+describe("findRefCycles", () => {
+  it("finds cycles of refs", () => {
+    expect(
+      findRefCycles({
+        definitions: {
+          start: { ref: "a" },
+          a: { ref: "b" },
+          b: { ref: "c" },
+          c: { ref: "a", nullable: true },
+          self: { ref: "self" },
+        },
+        ref: "start",
+      })
+    ).toEqual([["a", "b", "c"], ["self"]]);
+  });
+
+  it("ignores recursion that consumes input", () => {
+    expect(
+      findRefCycles({
+        definitions: {
+          list: { elements: { ref: "list" } },
+          node: { optionalProperties: { next: { ref: "node" } } },
+          alias: { ref: "list" },
+        },
+      })
+    ).toEqual([]);
+  });
+
+  it("is only rejected when asked to", () => {
+    const schema = { ref: "loop", definitions: { loop: { ref: "loop" } } };
+
+    expect(isValidSchema(schema)).toBe(true);
+    expect(isValidSchema(schema, undefined, { rejectRefCycles: true })).toBe(
+      false
+    );
+
+    expect(checkSchema(schema)).toEqual([]);
+    expect(checkSchema(schema, { rejectRefCycles: true })).toEqual([
+      {
+        path: ["definitions", "loop"],
+        code: "ref_cycle",
+        message: "definitions form a cycle of refs: loop -> loop",
+      },
+    ]);
+  });
+});
@@ -3,11 +3,14 @@
  *
  * JSON Typedef schemas are represented in this module with {@link Schema}, and
  * you can check if a JSON object is a correct schema by using {@link isSchema}
- * and {@link isValidSchema}.
+ * and {@link isValidSchema}. To find out why a JSON object is not a correct
+ * schema, use {@link checkSchema}.
  *
  * @packageDocumentation
  */
 
+import { hasOwn, isObject } from "./objects";
+
 /**
  * Schema is a TypeScript representation of a correct JSON Typedef schema.
  *
@@ -64,7 +67,7 @@ export type Type =
  * SchemaFormEnum represents schemas of the enum form.
  */
 export type SchemaFormEnum = SharedFormProperties & {
-  enum: string[];
+  enum: readonly string[];
 };
 
 /**
@@ -131,7 +134,7 @@ export function isEmptyForm(schema: Schema): schema is SchemaFormEmpty {
  * @param schema The schema to validate
  */
 export function isRefForm(schema: Schema): schema is SchemaFormRef {
-  return "ref" in schema;
+  return hasOwn(schema, "ref");
 }
 
 /**
@@ -140,7 +143,7 @@ export function isRefForm(schema: Schema): schema is SchemaFormRef {
  * @param schema The schema to validate
  */
 export function isTypeForm(schema: Schema): schema is SchemaFormType {
-  return "type" in schema;
+  return hasOwn(schema, "type");
 }
 
 /**
@@ -149,7 +152,7 @@ export function isTypeForm(schema: Schema): schema is SchemaFormType {
  * @param schema The schema to validate
  */
 export function isEnumForm(schema: Schema): schema is SchemaFormEnum {
-  return "enum" in schema;
+  return hasOwn(schema, "enum");
 }
 
 /**
@@ -158,7 +161,7 @@ export function isEnumForm(schema: Schema): schema is SchemaFormEnum {
  * @param schema The schema to validate
  */
 export function isElementsForm(schema: Schema): schema is SchemaFormElements {
-  return "elements" in schema;
+  return hasOwn(schema, "elements");
 }
 
 /**
@@ -169,7 +172,7 @@ export function isElementsForm(schema: Schema): schema is SchemaFormElements {
 export function isPropertiesForm(
   schema: Schema
 ): schema is SchemaFormProperties {
-  return "properties" in schema || "optionalProperties" in schema;
+  return hasOwn(schema, "properties") || hasOwn(schema, "optionalProperties");
 }
 
 /**
@@ -178,7 +181,7 @@ export function isPropertiesForm(
  * @param schema The schema to validate
  */
 export function isValuesForm(schema: Schema): schema is SchemaFormValues {
-  return "values" in schema;
+  return hasOwn(schema, "values");
 }
 
 /**
@@ -189,7 +192,149 @@ export function isValuesForm(schema: Schema): schema is SchemaFormValues {
 export function isDiscriminatorForm(
   schema: Schema
 ): schema is SchemaFormDiscriminator {
-  return "discriminator" in schema;
+  return hasOwn(schema, "discriminator");
+}
+
+/**
+ * formOf returns the name of the form some Schema is of. It is one of "empty",
+ * "ref", "type", "enum", "elements", "properties", "values", or
+ * "discriminator".
+ *
+ * @param schema The schema to check
+ */
+export function formOf(schema: Schema): string {
+  for (const keyword of [
+    "ref",
+    "type",
+    "enum",
+    "elements",
+    "values",
+    "discriminator",
+  ]) {
+    if (hasOwn(schema, keyword)) {
+      return keyword;
+    }
+  }
+
+  return isPropertiesForm(schema) ? "properties" : "empty";
+}
+
+/**
+ * SchemaDiagnostic describes one reason why some data is not a correct JSON
+ * Typedef schema.
+ */
+export interface SchemaDiagnostic {
+  /**
+   * path is the path to the part of the schema with the problem. Like the
+   * paths in {@link ValidationError}, its elements are meant to be used as the
+   * path segments of an RFC6901 JSON Pointer.
+   */
+  path: string[];
+
+  /**
+   * code is a machine-readable description of the problem.
+   */
+  code: SchemaDiagnosticCode;
+
+  /**
+   * message is a human-readable description of the problem.
+   */
+  message: string;
+}
+
+/**
+ * SchemaDiagnosticCode represents the kinds of problems {@link checkSchema}
+ * can report.
+ *
+ * The following codes correspond to {@link isSchema} returning false:
+ *
+ * * `not_object`: a schema is not a JSON object
+ * * `invalid_form`: a schema's keywords do not match any of the eight forms
+ * * `unknown_keyword`: a schema has a keyword JSON Typedef does not define
+ * * `invalid_keyword`: a keyword's value has the wrong JSON type
+ * * `unknown_type`: the `type` keyword is not one of the values of {@link Type}
+ *
+ * The following codes correspond to {@link isValidSchema} returning false:
+ *
+ * * `nested_definitions`: `definitions` appears outside the root schema
+ * * `dangling_ref`: a `ref` does not have a corresponding definition
+ * * `empty_enum`: an `enum` has no values
+ * * `duplicate_enum_value`: an `enum` has the same value more than once
+ * * `overlapping_property`: a property is in both `properties` and
+ *   `optionalProperties`
+ * * `mapping_not_properties`: a schema in `mapping` is not of the properties
+ *   form
+ * * `nullable_mapping`: a schema in `mapping` is nullable
+ * * `discriminator_in_mapping`: a schema in `mapping` re-specifies the
+ *   `discriminator` property
+ *
+ * The following code is only reported if you enable
+ * {@link SchemaCheckOptions.rejectRefCycles}:
+ *
+ * * `ref_cycle`: definitions refer to each other in a cycle that can never
+ *   consume any input (see {@link findRefCycles})
+ */
+export type SchemaDiagnosticCode =
+  | "not_object"
+  | "invalid_form"
+  | "unknown_keyword"
+  | "invalid_keyword"
+  | "unknown_type"
+  | "nested_definitions"
+  | "dangling_ref"
+  | "empty_enum"
+  | "duplicate_enum_value"
+  | "overlapping_property"
+  | "mapping_not_properties"
+  | "nullable_mapping"
+  | "discriminator_in_mapping"
+  | "ref_cycle";
+
+/**
+ * SchemaCheckOptions represents options you can pass to {@link checkSchema}
+ * and {@link isValidSchema}.
+ */
+export interface SchemaCheckOptions {
+  /**
+   * rejectRefCycles is whether to treat cycles of refs that can never consume
+   * any input, as found by {@link findRefCycles}, as errors.
+   *
+   * Such schemas are correct according to the JSON Typedef specification, but
+   * validating any input against them will recurse forever. If you reject
+   * them, you can safely use {@link validate} without a
+   * {@link ValidationConfig.maxDepth}.
+   *
+   * By default, rejectRefCycles is false.
+   */
+  rejectRefCycles?: boolean;
+}
+
+/**
+ * checkSchema checks whether some piece of JSON data is a correct JSON Typedef
+ * schema, returning every problem it finds.
+ *
+ * checkSchema first checks for everything {@link isSchema} checks for. If
+ * there are no such problems, it then checks for everything
+ * {@link isValidSchema} checks for. If checkSchema returns an empty array,
+ * then `data` is a correct JSON Typedef schema.
+ *
+ * @param data The data to check
+ * @param options Checking options. Optional.
+ */
+export function checkSchema(
+  data: unknown,
+  options?: SchemaCheckOptions
+): SchemaDiagnostic[] {
+  const diagnostics: SchemaDiagnostic[] = [];
+  checkShape(diagnostics, data, []);
+
+  if (diagnostics.length === 0) {
+    const schema = data as Schema;
+    checkValidity(diagnostics, schema, schema, []);
+    checkRefCycles(diagnostics, schema, options);
+  }
+
+  return diagnostics;
 }
 
 /**
@@ -207,94 +352,255 @@ export function isDiscriminatorForm(
  * 6. Schemas in `mapping` never re-specify the `discriminator` property
  *
  * If an object returned from `JSON.parse` passes both {@link isSchema} and
- * {@link isValidSchema}, then it is a correct JSON Typedef schema.
+ * {@link isValidSchema}, then it is a correct JSON Typedef schema. Use
+ * {@link checkSchema} to find out why a schema is not correct.
  *
  * @param schema The schema to validate
  * @param root The schema to consider as the "root" schema. If undefined,
  * `schema` will be used as the root. This is usually what you want to do.
+ * @param options Checking options. Optional.
  */
-export function isValidSchema(schema: Schema, root?: Schema): boolean {
+export function isValidSchema(
+  schema: Schema,
+  root?: Schema,
+  options?: SchemaCheckOptions
+): boolean {
   if (root === undefined) {
     root = schema;
   }
 
+  const diagnostics: SchemaDiagnostic[] = [];
+  checkValidity(diagnostics, schema, root, []);
+  checkRefCycles(diagnostics, root, options);
+  return diagnostics.length === 0;
+}
+
+/**
+ * findRefCycles finds the cycles of refs in a schema that can never consume
+ * any input.
+ *
+ * For example, in this schema, "a" and "b" form a cycle:
+ *
+ * ```json
+ * {
+ *   "definitions": {
+ *     "a": { "ref": "b" },
+ *     "b": { "ref": "a" }
+ *   }
+ * }
+ * ```
+ *
+ * Validating any non-null input against "a" or "b" would follow refs forever,
+ * without ever looking inside the input. Other recursive schemas, such as a
+ * definition whose elements refer back to itself, are fine: each time they
+ * recurse, they move one level deeper into the input.
+ *
+ * Each cycle is returned as a list of definition names, in the order in which
+ * they refer to each other. If there are no such cycles, findRefCycles
+ * returns an empty array.
+ *
+ * @param schema The root schema to check. It must pass {@link isSchema}.
+ */
+export function findRefCycles(schema: Schema): string[][] {
+  const definitions = schema.definitions || {};
+  const cycles: string[][] = [];
+  const done = new Set<string>();
+
+  // Each definition refers directly to at most one other definition, so we
+  // can find every cycle by following the chain of refs from each definition,
+  // stopping when we get to a chain we have already followed.
+  for (const start of Object.keys(definitions)) {
+    const chain: string[] = [];
+    let name = start;
+
+    while (!done.has(name) && hasOwn(definitions, name)) {
+      const index = chain.indexOf(name);
+      if (index !== -1) {
+        cycles.push(chain.slice(index));
+        break;
+      }
+
+      chain.push(name);
+
+      const definition = definitions[name];
+      if (!isRefForm(definition)) {
+        break;
+      }
+
+      name = definition.ref;
+    }
+
+    for (const name of chain) {
+      done.add(name);
+    }
+  }
+
+  return cycles;
+}
+
+function checkRefCycles(
+  diagnostics: SchemaDiagnostic[],
+  root: Schema,
+  options?: SchemaCheckOptions
+) {
+  if (options === undefined || !options.rejectRefCycles) {
+    return;
+  }
+
+  for (const cycle of findRefCycles(root)) {
+    pushDiagnostic(
+      diagnostics,
+      ["definitions", cycle[0]],
+      "ref_cycle",
+      `definitions form a cycle of refs: ${[...cycle, cycle[0]].join(" -> ")}`
+    );
+  }
+}
+
+function checkValidity(
+  diagnostics: SchemaDiagnostic[],
+  schema: Schema,
+  root: Schema,
+  path: string[]
+) {
   if (schema.definitions !== undefined) {
     if (root !== schema) {
-      return false;
+      pushDiagnostic(
+        diagnostics,
+        [...path, "definitions"],
+        "nested_definitions",
+        "definitions are only allowed in the root schema"
+      );
     }
 
-    for (const subSchema of Object.values(schema.definitions)) {
-      if (!isValidSchema(subSchema, root)) {
-        return false;
-      }
+    for (const [name, subSchema] of Object.entries(schema.definitions)) {
+      checkValidity(diagnostics, subSchema, root, [
+        ...path,
+        "definitions",
+        name,
+      ]);
     }
   }
 
   if (isRefForm(schema)) {
-    if (!(schema.ref in (root.definitions || {}))) {
-      return false;
+    if (!hasOwn(root.definitions || {}, schema.ref)) {
+      pushDiagnostic(
+        diagnostics,
+        [...path, "ref"],
+        "dangling_ref",
+        `ref to undefined definition: ${schema.ref}`
+      );
     }
   }
 
   if (isEnumForm(schema)) {
     if (schema.enum.length === 0) {
-      return false;
+      pushDiagnostic(
+        diagnostics,
+        [...path, "enum"],
+        "empty_enum",
+        "enum must not be empty"
+      );
     }
 
-    if (schema.enum.length !== new Set(schema.enum).size) {
-      return false;
+    const seen = new Set<string>();
+    for (const [index, value] of schema.enum.entries()) {
+      if (seen.has(value)) {
+        pushDiagnostic(
+          diagnostics,
+          [...path, "enum", index.toString()],
+          "duplicate_enum_value",
+          `duplicate enum value: ${value}`
+        );
+      }
+
+      seen.add(value);
     }
   }
 
   if (isElementsForm(schema)) {
-    return isValidSchema(schema.elements, root);
+    checkValidity(diagnostics, schema.elements, root, [...path, "elements"]);
   }
 
   if (isPropertiesForm(schema)) {
-    for (const subSchema of Object.values(schema.properties || {})) {
-      if (!isValidSchema(subSchema, root)) {
-        return false;
-      }
+    for (const [name, subSchema] of Object.entries(schema.properties || {})) {
+      checkValidity(diagnostics, subSchema, root, [
+        ...path,
+        "properties",
+        name,
+      ]);
     }
 
-    for (const subSchema of Object.values(schema.optionalProperties || {})) {
-      if (!isValidSchema(subSchema, root)) {
-        return false;
-      }
+    for (const [name, subSchema] of Object.entries(
+      schema.optionalProperties || {}
+    )) {
+      checkValidity(diagnostics, subSchema, root, [
+        ...path,
+        "optionalProperties",
+        name,
+      ]);
     }
 
     for (const key of Object.keys(schema.properties || {})) {
-      if (key in (schema.optionalProperties || {})) {
-        return false;
+      if (hasOwn(schema.optionalProperties || {}, key)) {
+        pushDiagnostic(
+          diagnostics,
+          [...path, "optionalProperties", key],
+          "overlapping_property",
+          `property is both required and optional: ${key}`
+        );
       }
     }
   }
 
   if (isValuesForm(schema)) {
-    return isValidSchema(schema.values, root);
+    checkValidity(diagnostics, schema.values, root, [...path, "values"]);
   }
 
   if (isDiscriminatorForm(schema)) {
-    for (const subSchema of Object.values(schema.mapping)) {
-      if (!isValidSchema(subSchema, root) || !isPropertiesForm(subSchema)) {
-        return false;
+    for (const [tag, subSchema] of Object.entries(schema.mapping)) {
+      const subPath = [...path, "mapping", tag];
+      checkValidity(diagnostics, subSchema, root, subPath);
+
+      if (!isPropertiesForm(subSchema)) {
+        pushDiagnostic(
+          diagnostics,
+          subPath,
+          "mapping_not_properties",
+          `mapping for ${tag} must be of the properties form`
+        );
+
+        continue;
       }
 
       if (subSchema.nullable) {
-        return false;
+        pushDiagnostic(
+          diagnostics,
+          [...subPath, "nullable"],
+          "nullable_mapping",
+          `mapping for ${tag} must not be nullable`
+        );
       }
 
-      if (schema.discriminator in (subSchema.properties || {})) {
-        return false;
+      if (hasOwn(subSchema.properties || {}, schema.discriminator)) {
+        pushDiagnostic(
+          diagnostics,
+          [...subPath, "properties", schema.discriminator],
+          "discriminator_in_mapping",
+          `mapping for ${tag} must not re-specify discriminator: ${schema.discriminator}`
+        );
       }
 
-      if (schema.discriminator in (subSchema.optionalProperties || {})) {
-        return false;
+      if (hasOwn(subSchema.optionalProperties || {}, schema.discriminator)) {
+        pushDiagnostic(
+          diagnostics,
+          [...subPath, "optionalProperties", schema.discriminator],
+          "discriminator_in_mapping",
+          `mapping for ${tag} must not re-specify discriminator: ${schema.discriminator}`
+        );
       }
     }
   }
-
-  return true;
 }
 
 // Index of valid form "signatures" -- i.e., combinations of the presence of the
@@ -330,6 +636,21 @@ const VALID_FORMS = [
   [false, false, false, false, false, false, false, false, true, true],
 ];
 
+// The keywords whose presence makes up a form signature, in the same order as
+// in VALID_FORMS.
+const FORM_KEYWORDS = [
+  "ref",
+  "type",
+  "enum",
+  "elements",
+  "properties",
+  "optionalProperties",
+  "additionalProperties",
+  "values",
+  "discriminator",
+  "mapping",
+];
+
 // List of valid values that the "type" keyboard may take on.
 const VALID_TYPES = [
   "boolean",
@@ -354,21 +675,26 @@ const VALID_TYPES = [
  * eight JSON Typedef forms.
  *
  * If an object returned from `JSON.parse` passes both {@link isSchema} and
- * {@link isValidSchema}, then it is a correct JSON Typedef schema.
+ * {@link isValidSchema}, then it is a correct JSON Typedef schema. Use
+ * {@link checkSchema} to find out why data is not a correct schema.
  *
  * @param data The data to check
  */
 export function isSchema(data: unknown): data is Schema {
-  if (typeof data !== "object" || Array.isArray(data) || data === null) {
-    return false;
-  }
+  const diagnostics: SchemaDiagnostic[] = [];
+  checkShape(diagnostics, data, []);
+  return diagnostics.length === 0;
+}
 
-  // TypeScript does not let us coerce `{}` into `{ [index: string]: unknown }`.
-  // At the time of writing, it's unclear why this is the case, nor under what
-  // circumstances such an coercion would be wrong.
-  //
-  // So we work around the compiler here.
-  const obj: { [index: string]: unknown } = data as any;
+function checkShape(
+  diagnostics: SchemaDiagnostic[],
+  data: unknown,
+  path: string[]
+) {
+  if (!isObject(data)) {
+    pushDiagnostic(diagnostics, path, "not_object", "schema must be an object");
+    return;
+  }
 
   const {
     definitions = undefined,
@@ -385,7 +711,7 @@ export function isSchema(data: unknown): data is Schema {
     discriminator = undefined,
     mapping = undefined,
     ...rest
-  } = obj;
+  } = ownProperties(data);
 
   const formSignature = [
     ref !== undefined,
@@ -408,138 +734,168 @@ export function isSchema(data: unknown): data is Schema {
   }
 
   if (!formOk) {
-    return false;
+    const keywords = FORM_KEYWORDS.filter((_, index) => formSignature[index]);
+    pushDiagnostic(
+      diagnostics,
+      path,
+      "invalid_form",
+      `keywords do not match any form: ${keywords.join(", ")}`
+    );
   }
 
   if (definitions !== undefined) {
-    if (
-      typeof definitions !== "object" ||
-      Array.isArray(definitions) ||
-      definitions === null
-    ) {
-      return false;
-    }
-
-    for (const value of Object.values(definitions)) {
-      if (!isSchema(value)) {
-        return false;
-      }
-    }
+    checkSchemas(diagnostics, definitions, [...path, "definitions"]);
   }
 
   if (nullable !== undefined) {
     if (typeof nullable !== "boolean") {
-      return false;
+      pushInvalidKeyword(diagnostics, path, "nullable", "a boolean");
     }
   }
 
   if (metadata !== undefined) {
-    if (
-      typeof metadata !== "object" ||
-      Array.isArray(metadata) ||
-      metadata === null
-    ) {
-      return false;
+    if (!isObject(metadata)) {
+      pushInvalidKeyword(diagnostics, path, "metadata", "an object");
     }
   }
 
   if (ref !== undefined) {
     if (typeof ref !== "string") {
-      return false;
+      pushInvalidKeyword(diagnostics, path, "ref", "a string");
     }
   }
 
   if (type !== undefined) {
-    if (typeof type !== "string" || !VALID_TYPES.includes(type)) {
-      return false;
+    if (typeof type !== "string") {
+      pushInvalidKeyword(diagnostics, path, "type", "a string");
+    } else if (!VALID_TYPES.includes(type)) {
+      pushDiagnostic(
+        diagnostics,
+        [...path, "type"],
+        "unknown_type",
+        `unknown type: ${type}`
+      );
     }
   }
 
   if (enum_ !== undefined) {
     if (!Array.isArray(enum_)) {
-      return false;
-    }
-
-    if (!enum_.every((elem) => typeof elem === "string")) {
-      return false;
+      pushInvalidKeyword(diagnostics, path, "enum", "an array");
+    } else {
+      for (const [index, elem] of enum_.entries()) {
+        if (typeof elem !== "string") {
+          pushDiagnostic(
+            diagnostics,
+            [...path, "enum", index.toString()],
+            "invalid_keyword",
+            "enum values must be strings"
+          );
+        }
+      }
     }
   }
 
   if (elements !== undefined) {
-    if (!isSchema(elements)) {
-      return false;
-    }
+    checkShape(diagnostics, elements, [...path, "elements"]);
   }
 
   if (properties !== undefined) {
-    if (
-      typeof properties !== "object" ||
-      Array.isArray(properties) ||
-      properties === null
-    ) {
-      return false;
-    }
-
-    for (const value of Object.values(properties)) {
-      if (!isSchema(value)) {
-        return false;
-      }
-    }
+    checkSchemas(diagnostics, properties, [...path, "properties"]);
   }
 
   if (optionalProperties !== undefined) {
-    if (
-      typeof optionalProperties !== "object" ||
-      Array.isArray(optionalProperties) ||
-      optionalProperties === null
-    ) {
-      return false;
-    }
-
-    for (const value of Object.values(optionalProperties)) {
-      if (!isSchema(value)) {
-        return false;
-      }
-    }
+    checkSchemas(diagnostics, optionalProperties, [
+      ...path,
+      "optionalProperties",
+    ]);
   }
 
   if (additionalProperties !== undefined) {
     if (typeof additionalProperties !== "boolean") {
-      return false;
+      pushInvalidKeyword(
+        diagnostics,
+        path,
+        "additionalProperties",
+        "a boolean"
+      );
     }
   }
 
   if (values !== undefined) {
-    if (!isSchema(values)) {
-      return false;
-    }
+    checkShape(diagnostics, values, [...path, "values"]);
   }
 
   if (discriminator !== undefined) {
     if (typeof discriminator !== "string") {
-      return false;
+      pushInvalidKeyword(diagnostics, path, "discriminator", "a string");
     }
   }
 
   if (mapping !== undefined) {
-    if (
-      typeof mapping !== "object" ||
-      Array.isArray(mapping) ||
-      mapping === null
-    ) {
-      return false;
-    }
+    checkSchemas(diagnostics, mapping, [...path, "mapping"]);
+  }
 
-    for (const value of Object.values(mapping)) {
-      if (!isSchema(value)) {
-        return false;
-      }
-    }
+  for (const keyword of Object.keys(rest)) {
+    pushDiagnostic(
+      diagnostics,
+      [...path, keyword],
+      "unknown_keyword",
+      `unknown keyword: ${keyword}`
+    );
   }
+}
 
-  if (Object.keys(rest).length !== 0) {
-    return false;
+// checkSchemas checks the shape of keywords whose value is an object of
+// schemas, such as "definitions" or "properties".
+function checkSchemas(
+  diagnostics: SchemaDiagnostic[],
+  data: unknown,
+  path: string[]
+) {
+  if (!isObject(data)) {
+    const keyword = path[path.length - 1];
+    pushInvalidKeyword(diagnostics, path.slice(0, -1), keyword, "an object");
+    return;
   }
 
-  return true;
+  for (const [name, value] of Object.entries(data)) {
+    checkShape(diagnostics, value, [...path, name]);
+  }
+}
+
+// ownProperties copies the own properties of an object onto an object without
+// a prototype. Destructuring the copy never picks up inherited properties, such
+// as a "ref" on the prototype of an object that isn't from JSON.parse.
+function ownProperties(data: {
+  [index: string]: unknown;
+}): { [index: string]: unknown } {
+  const result = Object.create(null);
+  for (const [name, value] of Object.entries(data)) {
+    result[name] = value;
+  }
+
+  return result;
+}
+
+function pushInvalidKeyword(
+  diagnostics: SchemaDiagnostic[],
+  path: string[],
+  keyword: string,
+  expected: string
+) {
+  pushDiagnostic(
+    diagnostics,
+    [...path, keyword],
+    "invalid_keyword",
+    `${keyword} must be ${expected}`
+  );
+}
+
+function pushDiagnostic(
+  diagnostics: SchemaDiagnostic[],
+  path: string[],
+  code: SchemaDiagnosticCode,
+  message: string
+) {
+  diagnostics.push({ path, code, message });
 }
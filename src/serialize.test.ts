@@ -0,0 +1,171 @@
+import { Schema, SerializeError, serialize, validate } from "./index";
+
+describe("serialize", () => {
+  it("only outputs declared properties, in schema order", () => {
+    const schema: Schema = {
+      properties: { b: { type: "string" }, a: { elements: { type: "uint8" } } },
+      optionalProperties: { c: { type: "boolean" }, d: {} },
+    };
+
+    const value = { secret: "x", a: [1, 2], d: undefined, b: "y", c: false };
+    expect(serialize(schema, value)).toBe('{"b":"y","a":[1,2],"c":false}');
+  });
+
+  it("outputs additional properties when they are allowed", () => {
+    const schema: Schema = {
+      properties: { a: { type: "string" } },
+      additionalProperties: true,
+    };
+
+    expect(serialize(schema, { z: { y: [null] }, a: "x", u: undefined })).toBe(
+      '{"a":"x","z":{"y":[null]}}'
+    );
+  });
+
+  it("outputs the discriminator tag first", () => {
+    const schema: Schema = {
+      discriminator: "type",
+      mapping: {
+        a: { properties: { x: { type: "float64" } } },
+        b: { properties: {} },
+      },
+    };
+
+    expect(serialize(schema, { x: 1.5, type: "a" })).toBe(
+      '{"type":"a","x":1.5}'
+    );
+    expect(serialize(schema, { type: "b", x: 1.5 })).toBe('{"type":"b"}');
+  });
+
+  it("outputs dates as timestamps", () => {
+    const schema: Schema = { values: { type: "timestamp" } };
+    const value = {
+      a: new Date(Date.UTC(2020, 0, 2, 3, 4, 5)),
+      b: "1985-04-12T23:20:50.52Z",
+    };
+
+    expect(serialize(schema, value)).toBe(
+      '{"a":"2020-01-02T03:04:05.000Z","b":"1985-04-12T23:20:50.52Z"}'
+    );
+  });
+
+  it("only outputs dates that are RFC3339 timestamps", () => {
+    const schema: Schema = { type: "timestamp" };
+    const first = new Date(Date.UTC(2000, 0, 1));
+    first.setUTCFullYear(0);
+    const last = new Date(Date.UTC(9999, 11, 31, 23, 59, 59, 999));
+
+    for (const date of [first, last]) {
+      const json = serialize(schema, date);
+      expect(validate(schema, JSON.parse(json))).toEqual([]);
+    }
+
+    for (const date of [
+      new Date(first.getTime() - 1),
+      new Date(last.getTime() + 1),
+    ]) {
+      expect(() => serialize(schema, date)).toThrow(
+        new SerializeError("date out of range", [])
+      );
+    }
+  });
+
+  it("outputs data that satisfies its schema", () => {
+    const schema: Schema = {
+      definitions: {
+        node: {
+          properties: { value: { enum: ["a", "b"] } },
+          optionalProperties: { next: { ref: "node", nullable: true } },
+        },
+      },
+      ref: "node",
+    };
+
+    const json = serialize(schema, {
+      value: "a",
+      next: { value: "b", next: null, extra: 1 },
+    });
+
+    expect(json).toBe('{"value":"a","next":{"value":"b","next":null}}');
+    expect(validate(schema, JSON.parse(json))).toEqual([]);
+  });
+
+  it("rejects data that does not satisfy its schema", () => {
+    const cases: [Schema, unknown, string, string[]][] = [
+      [{ type: "uint8" }, 256, "expected uint8 at the root", []],
+      [{ type: "float32" }, NaN, "expected float32 at the root", []],
+      [{ type: "timestamp" }, new Date(NaN), "invalid date at the root", []],
+      [
+        { elements: { enum: ["a"] } },
+        ["a", "b"],
+        'expected one of "a" at /1',
+        ["1"],
+      ],
+      [{ properties: { a: {} } }, {}, "missing property a at the root", []],
+      [{ values: { type: "string" } }, [], "expected object at the root", []],
+      [
+        { discriminator: "t", mapping: { x: { properties: {} } } },
+        { t: "y" },
+        'expected one of "x" at /t',
+        ["t"],
+      ],
+      [
+        { values: {} },
+        { "a/b": () => {} },
+        "expected JSON data at /a~1b",
+        ["a/b"],
+      ],
+    ];
+
+    for (const [schema, value, message, instancePath] of cases) {
+      let error: unknown;
+      try {
+        serialize(schema, value);
+      } catch (err) {
+        error = err;
+      }
+
+      expect(error).toBeInstanceOf(SerializeError);
+      expect((error as SerializeError).message).toBe(message);
+      expect((error as SerializeError).instancePath).toEqual(instancePath);
+    }
+  });
+
+  it("ignores inherited properties", () => {
+    // Schemas and values from JSON.parse have own properties with these names.
+    const schema = JSON.parse(`{
+      "properties": { "toString": { "type": "string" } },
+      "optionalProperties": {
+        "__proto__": { "type": "string" },
+        "constructor": { "type": "string" }
+      }
+    }`);
+
+    expect(serialize(schema, { toString: "a" })).toBe('{"toString":"a"}');
+    expect(
+      serialize(schema, JSON.parse('{ "__proto__": "b", "toString": "a" }'))
+    ).toBe('{"toString":"a","__proto__":"b"}');
+    expect(() => serialize(schema, {})).toThrow(
+      new SerializeError("missing property toString", [])
+    );
+
+    expect(() =>
+      serialize(
+        JSON.parse(`{
+          "discriminator": "constructor",
+          "mapping": { "x": { "properties": {} } }
+        }`),
+        {}
+      )
+    ).toThrow(new SerializeError('expected one of "x"', ["constructor"]));
+  });
+
+  it("rejects data that contains itself", () => {
+    const value: { [name: string]: unknown } = {};
+    value.self = [value];
+
+    expect(() =>
+      serialize({ values: { elements: { values: {} } } }, value)
+    ).toThrow(new SerializeError("value contains itself", ["self", "0"]));
+  });
+});
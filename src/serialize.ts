@@ -0,0 +1,311 @@
+/**
+ * Module serialize provides a way to convert data into JSON text, guided by a
+ * JSON Typedef schema.
+ *
+ * The most important function in this module is {@link serialize}. Unlike
+ * `JSON.stringify`, it only outputs the parts of a value that its schema
+ * declares, and it checks that the value actually satisfies the schema.
+ *
+ * @packageDocumentation
+ */
+
+import { encodePointer } from "./pointer";
+import {
+  Schema,
+  isRefForm,
+  isTypeForm,
+  isEnumForm,
+  isElementsForm,
+  isPropertiesForm,
+  isValuesForm,
+  isDiscriminatorForm,
+} from "./schema";
+import { TYPE_CHECKS } from "./typecheck";
+import { getOwn, hasOwn, isObject } from "./objects";
+
+/**
+ * SerializeError is the error thrown when {@link serialize} is given a value
+ * that does not satisfy its schema.
+ */
+export class SerializeError extends Error {
+  /**
+   * @param message A description of the problem
+   * @param instancePath The path to the part of the value with the problem
+   */
+  constructor(message: string, readonly instancePath: string[]) {
+    super(
+      `${message} at ${
+        instancePath.length === 0 ? "the root" : encodePointer(instancePath)
+      }`
+    );
+  }
+}
+
+/**
+ * serialize converts a value into JSON text, according to a JSON Typedef
+ * schema.
+ *
+ * serialize differs from `JSON.stringify` in a few ways:
+ *
+ * * Properties that `schema` does not declare are left out, unless the schema
+ *   has `additionalProperties` set to true. This means internal fields of an
+ *   object will not leak into its serialized form.
+ * * Properties are output in the order the schema declares them, and the tag
+ *   of a discriminator is always output first.
+ * * Where the schema has `type` set to `timestamp`, the value may be a `Date`,
+ *   which is output as an RFC3339 timestamp. RFC3339 only has the years 0 to
+ *   9999, so dates outside of those are rejected.
+ *
+ * Like `JSON.stringify`, serialize treats a property whose value is undefined
+ * as if it were not there.
+ *
+ * ```ts
+ * const schema = { properties: { at: { type: "timestamp" } } } as Schema;
+ *
+ * // Returns '{"at":"2020-01-01T00:00:00.000Z"}'
+ * serialize(schema, { at: new Date(Date.UTC(2020, 0, 1)), secret: "x" });
+ * ```
+ *
+ * Throws {@link SerializeError} if the value does not satisfy the schema, or
+ * if the value contains itself.
+ *
+ * serialize assumes that `schema` is a correct schema. If you are handling
+ * untrusted schemas, check them with {@link isSchema} and
+ * {@link isValidSchema} first.
+ *
+ * @param schema The schema to serialize the value according to
+ * @param value The value to serialize
+ */
+export function serialize(schema: Schema, value: unknown): string {
+  const state: SerializeState = {
+    root: schema,
+    instanceTokens: [],
+    ancestors: new Set(),
+  };
+
+  return serializeWithState(state, schema, value);
+}
+
+interface SerializeState {
+  root: Schema;
+  instanceTokens: string[];
+
+  // ancestors holds the objects and arrays currently being serialized, so we
+  // can detect values that contain themselves.
+  ancestors: Set<unknown>;
+}
+
+function serializeWithState(
+  state: SerializeState,
+  schema: Schema,
+  value: unknown,
+  parentTag?: string
+): string {
+  if (schema.nullable && value === null) {
+    return "null";
+  }
+
+  if (isRefForm(schema)) {
+    const definition = state.root.definitions![schema.ref];
+    return serializeWithState(state, definition, value);
+  }
+
+  if (isTypeForm(schema)) {
+    if (schema.type === "timestamp" && value instanceof Date) {
+      if (isNaN(value.getTime())) {
+        throw errorAt(state, "invalid date");
+      }
+
+      // Outside of these years, toISOString writes a sign and six digits for
+      // the year, which RFC3339 does not allow.
+      const year = value.getUTCFullYear();
+      if (year < 0 || year > 9999) {
+        throw errorAt(state, "date out of range");
+      }
+
+      return JSON.stringify(value.toISOString());
+    }
+
+    // JSON has no way to represent NaN or infinite numbers.
+    if (!TYPE_CHECKS[schema.type](value) || !isJSONNumber(value)) {
+      throw errorAt(state, `expected ${schema.type}`);
+    }
+
+    return JSON.stringify(value);
+  }
+
+  if (isEnumForm(schema)) {
+    if (typeof value !== "string" || !schema.enum.includes(value)) {
+      throw errorAt(state, `expected one of ${listOf(schema.enum)}`);
+    }
+
+    return JSON.stringify(value);
+  }
+
+  if (isElementsForm(schema)) {
+    if (!Array.isArray(value)) {
+      throw errorAt(state, "expected array");
+    }
+
+    return withAncestor(state, value, () => {
+      const elements = value.map((element, index) => {
+        state.instanceTokens.push(index.toString());
+        const json = serializeWithState(state, schema.elements, element);
+        state.instanceTokens.pop();
+        return json;
+      });
+
+      return `[${elements.join(",")}]`;
+    });
+  }
+
+  if (isPropertiesForm(schema)) {
+    if (!isObject(value)) {
+      throw errorAt(state, "expected object");
+    }
+
+    return withAncestor(state, value, () => {
+      const members: string[] = [];
+      const properties = schema.properties || {};
+      const optionalProperties = schema.optionalProperties || {};
+
+      for (const [name, subSchema] of Object.entries(properties)) {
+        const subValue = getOwn(value, name);
+        if (subValue === undefined) {
+          throw errorAt(state, `missing property ${name}`);
+        }
+
+        members.push(serializeMember(state, subSchema, name, subValue));
+      }
+
+      for (const [name, subSchema] of Object.entries(optionalProperties)) {
+        const subValue = getOwn(value, name);
+        if (subValue !== undefined) {
+          members.push(serializeMember(state, subSchema, name, subValue));
+        }
+      }
+
+      if (schema.additionalProperties) {
+        for (const name of Object.keys(value)) {
+          if (
+            !hasOwn(properties, name) &&
+            !hasOwn(optionalProperties, name) &&
+            name !== parentTag &&
+            value[name] !== undefined
+          ) {
+            members.push(serializeMember(state, {}, name, value[name]));
+          }
+        }
+      }
+
+      return `{${members.join(",")}}`;
+    });
+  }
+
+  if (isValuesForm(schema)) {
+    if (!isObject(value)) {
+      throw errorAt(state, "expected object");
+    }
+
+    return withAncestor(state, value, () => {
+      const members: string[] = [];
+      for (const [name, subValue] of Object.entries(value)) {
+        if (subValue !== undefined) {
+          members.push(serializeMember(state, schema.values, name, subValue));
+        }
+      }
+
+      return `{${members.join(",")}}`;
+    });
+  }
+
+  if (isDiscriminatorForm(schema)) {
+    if (!isObject(value)) {
+      throw errorAt(state, "expected object");
+    }
+
+    const tag = getOwn(value, schema.discriminator);
+    if (typeof tag !== "string" || !hasOwn(schema.mapping, tag)) {
+      throw new SerializeError(
+        `expected one of ${listOf(Object.keys(schema.mapping))}`,
+        [...state.instanceTokens, schema.discriminator]
+      );
+    }
+
+    // The mapping is of the properties form, so it serializes to an object.
+    // The tag goes before all of that object's members.
+    const json = serializeWithState(
+      state,
+      schema.mapping[tag],
+      value,
+      schema.discriminator
+    );
+
+    const member = `${JSON.stringify(schema.discriminator)}:${JSON.stringify(
+      tag
+    )}`;
+
+    return json === "{}" ? `{${member}}` : `{${member},${json.slice(1)}`;
+  }
+
+  // The empty form accepts any data, so long as it can be represented as JSON.
+  let json: string | undefined;
+  try {
+    json = JSON.stringify(value);
+  } catch (err) {
+    // JSON.stringify throws a TypeError for circular values and BigInts.
+    throw errorAt(state, err.message);
+  }
+
+  if (json === undefined) {
+    throw errorAt(state, "expected JSON data");
+  }
+
+  return json;
+}
+
+// serializeMember returns a member of an object, with its value serialized
+// according to `schema`.
+function serializeMember(
+  state: SerializeState,
+  schema: Schema,
+  name: string,
+  value: unknown
+): string {
+  state.instanceTokens.push(name);
+  const json = serializeWithState(state, schema, value);
+  state.instanceTokens.pop();
+
+  return `${JSON.stringify(name)}:${json}`;
+}
+
+// withAncestor serializes the contents of `value` with f, rejecting values
+// that contain themselves.
+function withAncestor(
+  state: SerializeState,
+  value: unknown,
+  f: () => string
+): string {
+  if (state.ancestors.has(value)) {
+    throw errorAt(state, "value contains itself");
+  }
+
+  state.ancestors.add(value);
+  const json = f();
+  state.ancestors.delete(value);
+
+  return json;
+}
+
+// errorAt returns a SerializeError for the current instance path.
+function errorAt(state: SerializeState, message: string): SerializeError {
+  return new SerializeError(message, [...state.instanceTokens]);
+}
+
+function listOf(values: readonly string[]): string {
+  return values.map((value) => JSON.stringify(value)).join(", ");
+}
+
+function isJSONNumber(value: unknown): boolean {
+  return typeof value !== "number" || isFinite(value);
+}
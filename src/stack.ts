@@ -0,0 +1,37 @@
+/** @ignore *//** */
+
+// validate and compile use a stack of tasks, rather than recursion, so that
+// deeply-nested instances can't overflow the call stack. These are the parts
+// of that approach they have in common.
+
+// Path is a path of tokens, stored as a linked list from its last token back
+// to its first. Paths that share a prefix share the storage for it, so every
+// task on the stack can cheaply have its own path.
+export type Path = { parent: Path; token: string } | undefined;
+
+// append returns a path with tokens added to the end of it.
+export function append(path: Path, ...tokens: string[]): Path {
+  for (const token of tokens) {
+    path = { parent: path, token };
+  }
+
+  return path;
+}
+
+// toArray returns the tokens of a path, from first to last.
+export function toArray(path: Path): string[] {
+  const tokens = [];
+  for (let p = path; p !== undefined; p = p.parent) {
+    tokens.push(p.token);
+  }
+
+  return tokens.reverse();
+}
+
+// pushReversed pushes tasks onto the stack so that they are popped in the
+// order they are given.
+export function pushReversed<T>(stack: T[], tasks: T[]) {
+  for (let i = tasks.length - 1; i >= 0; i--) {
+    stack.push(tasks[i]);
+  }
+}
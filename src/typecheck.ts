@@ -0,0 +1,48 @@
+/** @ignore *//** */
+
+import isRFC3339 from "./rfc3339";
+import { Type } from "./schema";
+
+// The smallest and largest values of each of the integer types.
+export const INT_RANGES: { [type: string]: [number, number] } = {
+  int8: [-128, 127],
+  uint8: [0, 255],
+  int16: [-32768, 32767],
+  uint16: [0, 65535],
+  int32: [-2147483648, 2147483647],
+  uint32: [0, 4294967295],
+};
+
+// The integer types, from narrowest to widest.
+export const INT_TYPES: Type[] = [
+  "uint8",
+  "int8",
+  "uint16",
+  "int16",
+  "uint32",
+  "int32",
+];
+
+function isInt([min, max]: [number, number]) {
+  return (instance: unknown) =>
+    typeof instance === "number" &&
+    Number.isInteger(instance) &&
+    instance >= min &&
+    instance <= max;
+}
+
+// Functions that check whether an instance is acceptable for each of the
+// values of the "type" keyword.
+export const TYPE_CHECKS: { [type: string]: (instance: unknown) => boolean } = {
+  boolean: (instance) => typeof instance === "boolean",
+  float32: (instance) => typeof instance === "number",
+  float64: (instance) => typeof instance === "number",
+  int8: isInt(INT_RANGES.int8),
+  uint8: isInt(INT_RANGES.uint8),
+  int16: isInt(INT_RANGES.int16),
+  uint16: isInt(INT_RANGES.uint16),
+  int32: isInt(INT_RANGES.int32),
+  uint32: isInt(INT_RANGES.uint32),
+  string: (instance) => typeof instance === "string",
+  timestamp: (instance) => typeof instance === "string" && isRFC3339(instance),
+};
@@ -8,7 +8,7 @@
  * @packageDocumentation
  */
 
-import isRFC3339 from "./rfc3339";
+import { JTDDataType } from "./infer";
 import {
   Schema,
   isRefForm,
@@ -19,6 +19,9 @@ import {
   isValuesForm,
   isDiscriminatorForm,
 } from "./schema";
+import { TYPE_CHECKS } from "./typecheck";
+import { hasOwn } from "./objects";
+import { Path, append, pushReversed, toArray } from "./stack";
 
 /**
  * ValidationConfig represents options you can pass to {@link validate}.
@@ -47,6 +50,25 @@ export interface ValidationConfig {
    * By default, maxErrors is zero.
    */
   maxErrors: number;
+
+  /**
+   * maxInstanceDepth is the maximum number of arrays and objects that a part
+   * of the instance may be nested inside of, before {@link validate} throws
+   * {@link MaxInstanceDepthExceededError}.
+   *
+   * validate does not use recursion to look inside of arrays and objects, so
+   * deeply-nested instances can't make it overflow the stack. But code that
+   * goes on to use such an instance usually does recurse, and maxInstanceDepth
+   * lets you reject such instances up front. Only the parts of the instance
+   * that validate looks inside of count, so anything under a property with the
+   * empty schema `{}` is never counted.
+   *
+   * If maxInstanceDepth is zero, then no maximum instance depth will be
+   * enforced.
+   *
+   * By default, maxInstanceDepth is zero.
+   */
+  maxInstanceDepth?: number;
 }
 
 /**
@@ -55,6 +77,13 @@ export interface ValidationConfig {
  */
 export class MaxDepthExceededError extends Error {}
 
+/**
+ * MaxInstanceDepthExceededError is the error returned if
+ * {@link ValidationConfig.maxInstanceDepth} is exceeded during
+ * {@link validate}.
+ */
+export class MaxInstanceDepthExceededError extends Error {}
+
 class MaxErrorsReachedError extends Error {}
 
 /**
@@ -65,8 +94,8 @@ class MaxErrorsReachedError extends Error {}
  * subclass of Error. It is just a plain old TypeScript interface.
  *
  * Both elements of ValidationError are meant to be used as the path segments of
- * an [RFC6901 JSON Pointer](https://tools.ietf.org/html/rfc6901). This package
- * does not provide an implementation of JSON Pointers for you, and you may
+ * an [RFC6901 JSON Pointer](https://tools.ietf.org/html/rfc6901). You can use
+ * {@link toPointer} to convert them into JSON Pointer strings, or you may
  * choose to not use JSON Pointers at all.
  */
 export interface ValidationError {
@@ -87,9 +116,9 @@ export interface ValidationError {
  * a JSON Typedef schema, returning a standardized set of errors.
  *
  * This function may throw {@link MaxDepthExceededError} if you have configured
- * a {@link ValidationConfig.maxDepth}. If you do not configure such a maxDepth,
- * then this function may cause a stack overflow. That's because of
- * circularly-defined schemas like this one:
+ * a {@link ValidationConfig.maxDepth}. Even if you do not configure such a
+ * maxDepth, this function throws MaxDepthExceededError on circularly-defined
+ * schemas like this one, because validating against them would never finish:
  *
  * ```json
  * {
@@ -100,8 +129,11 @@ export interface ValidationError {
  * }
  * ```
  *
- * If your schema is not circularly defined like this, then there is no risk for
- * validate to overflow the stack.
+ * You can check for such schemas ahead of time with {@link findRefCycles}.
+ *
+ * validate never overflows the stack, no matter how deeply the instance is
+ * nested. It may throw {@link MaxInstanceDepthExceededError} if you have
+ * configured a {@link ValidationConfig.maxInstanceDepth}.
  *
  * If you are only interested in a certain number of error messages, consider
  * using {@link ValidationConfig.maxErrors} to get better performance. For
@@ -119,9 +151,8 @@ export function validate(
 ): ValidationError[] {
   const state = {
     errors: [],
-    instanceTokens: [],
-    schemaTokens: [[]],
     root: schema,
+    definitionCount: Object.keys(schema.definitions || {}).length,
     config: config || { maxDepth: 0, maxErrors: 0 },
   };
 
@@ -140,106 +171,173 @@ export function validate(
   return state.errors;
 }
 
+/**
+ * isValid checks whether an instance (or "input") satisfies a JSON Typedef
+ * schema.
+ *
+ * isValid is a type guard. If `schema` was written as a literal with an `as
+ * const` assertion, then when isValid returns true, `instance` is narrowed to
+ * {@link JTDDataType} of the schema:
+ *
+ * ```ts
+ * const schema = { elements: { type: "string" } } as const;
+ *
+ * if (isValid(schema, data)) {
+ *   // data is of type string[] here
+ * }
+ * ```
+ *
+ * isValid is equivalent to checking whether {@link validate} returns no
+ * errors. Only one error is ever looked for, so `config.maxErrors` is ignored.
+ * Like {@link validate}, isValid may throw {@link MaxDepthExceededError} and
+ * {@link MaxInstanceDepthExceededError}.
+ *
+ * @param schema The schema to validate data against
+ * @param instance The "input" to validate
+ * @param config Validation options. Optional.
+ */
+export function isValid<S extends Schema>(
+  schema: S,
+  instance: unknown,
+  config?: ValidationConfig
+): instance is JTDDataType<S> {
+  return (
+    validate(schema, instance, { maxDepth: 0, ...config, maxErrors: 1 })
+      .length === 0
+  );
+}
+
 interface ValidationState {
   errors: ValidationError[];
-  instanceTokens: string[];
-  schemaTokens: string[][];
   root: Schema;
   config: ValidationConfig;
+
+  // The number of definitions in root.
+  definitionCount: number;
+}
+
+// Task is a unit of work on the stack in validateWithState. Validating a part
+// of the instance pushes tasks for the parts inside of it, as well as tasks
+// for errors that have to come after the errors for those parts.
+type Task = ValidateTask | ErrorTask;
+
+interface ValidateTask {
+  kind: "validate";
+  schema: Schema;
+  instance: unknown;
+  parentTag?: string;
+  instancePath: Path;
+  schemaPath: Path;
+
+  // The number of tokens in instancePath.
+  instanceDepth: number;
+
+  // The number of refs followed to get to this task, plus one.
+  depth: number;
+
+  // The number of refs followed in a row to get to this task, without looking
+  // inside of the instance or at a mapping in between.
+  refChain: number;
 }
 
+interface ErrorTask {
+  kind: "error";
+  instancePath: Path;
+  schemaPath: Path;
+}
+
+// validateWithState uses a stack of tasks, rather than recursion, so that
+// deeply-nested instances can't overflow the call stack. Tasks are pushed in
+// reverse, so they're popped in the order recursion would have visited them,
+// and errors come out in the same order.
 function validateWithState(
   state: ValidationState,
   schema: Schema,
-  instance: unknown,
-  parentTag?: string
+  instance: unknown
+) {
+  const stack: Task[] = [
+    {
+      kind: "validate",
+      schema,
+      instance,
+      instancePath: undefined,
+      schemaPath: undefined,
+      instanceDepth: 0,
+      depth: 1,
+      refChain: 0,
+    },
+  ];
+
+  while (stack.length !== 0) {
+    const task = stack.pop()!;
+    if (task.kind === "error") {
+      pushError(state, task.instancePath, task.schemaPath);
+      continue;
+    }
+
+    const { maxInstanceDepth } = state.config;
+    if (maxInstanceDepth && task.instanceDepth > maxInstanceDepth) {
+      throw new MaxInstanceDepthExceededError();
+    }
+
+    validateTask(state, stack, task);
+  }
+}
+
+function validateTask(
+  state: ValidationState,
+  stack: Task[],
+  task: ValidateTask
 ) {
+  const { schema, instance, instancePath, schemaPath } = task;
+
   if (schema.nullable && instance === null) {
     return;
   }
 
   if (isRefForm(schema)) {
-    if (state.schemaTokens.length === state.config.maxDepth) {
+    if (task.depth === state.config.maxDepth) {
       throw new MaxDepthExceededError();
     }
 
-    // The ref form is the only case where we push a new array onto
-    // schemaTokens; we maintain a separate stack for each reference.
-    state.schemaTokens.push(["definitions", schema.ref]);
-    validateWithState(state, state.root.definitions![schema.ref], instance);
-    state.schemaTokens.pop();
-  } else if (isTypeForm(schema)) {
-    pushSchemaToken(state, "type");
-
-    switch (schema.type) {
-      case "boolean":
-        if (typeof instance !== "boolean") {
-          pushError(state);
-        }
-        break;
-      case "float32":
-      case "float64":
-        if (typeof instance !== "number") {
-          pushError(state);
-        }
-        break;
-      case "int8":
-        validateInt(state, instance, -128, 127);
-        break;
-      case "uint8":
-        validateInt(state, instance, 0, 255);
-        break;
-      case "int16":
-        validateInt(state, instance, -32768, 32767);
-        break;
-      case "uint16":
-        validateInt(state, instance, 0, 65535);
-        break;
-      case "int32":
-        validateInt(state, instance, -2147483648, 2147483647);
-        break;
-      case "uint32":
-        validateInt(state, instance, 0, 4294967295);
-        break;
-      case "string":
-        if (typeof instance !== "string") {
-          pushError(state);
-        }
-        break;
-      case "timestamp":
-        if (typeof instance !== "string") {
-          pushError(state);
-        } else {
-          if (!isRFC3339(instance)) {
-            pushError(state);
-          }
-        }
-        break;
+    // A chain of refs longer than the number of definitions has to be going
+    // around a cycle, and would never end. Recursion would overflow the stack
+    // here, but we'd loop forever instead.
+    if (task.refChain === state.definitionCount) {
+      throw new MaxDepthExceededError();
     }
 
-    popSchemaToken(state);
+    // The ref form is the only case where the schema path starts over; each
+    // reference has a path of its own.
+    stack.push({
+      ...task,
+      schema: state.root.definitions![schema.ref],
+      parentTag: undefined,
+      schemaPath: append(undefined, "definitions", schema.ref),
+      depth: task.depth + 1,
+      refChain: task.refChain + 1,
+    });
+  } else if (isTypeForm(schema)) {
+    if (!TYPE_CHECKS[schema.type](instance)) {
+      pushError(state, instancePath, append(schemaPath, "type"));
+    }
   } else if (isEnumForm(schema)) {
-    pushSchemaToken(state, "enum");
-
     if (typeof instance !== "string" || !schema.enum.includes(instance)) {
-      pushError(state);
+      pushError(state, instancePath, append(schemaPath, "enum"));
     }
-
-    popSchemaToken(state);
   } else if (isElementsForm(schema)) {
-    pushSchemaToken(state, "elements");
+    const elementsPath = append(schemaPath, "elements");
 
     if (Array.isArray(instance)) {
-      for (const [index, subInstance] of instance.entries()) {
-        pushInstanceToken(state, index.toString());
-        validateWithState(state, schema.elements, subInstance);
-        popInstanceToken(state);
+      for (let index = instance.length - 1; index >= 0; index--) {
+        const token = index.toString();
+        stack.push(
+          inside(task, schema.elements, instance[index], token, elementsPath)
+        );
       }
     } else {
-      pushError(state);
+      pushError(state, instancePath, elementsPath);
     }
-
-    popSchemaToken(state);
   } else if (isPropertiesForm(schema)) {
     // JSON has six basic types of data (null, boolean, number, string,
     // array, object). Of their standard JS countparts, three have a
@@ -251,63 +349,65 @@ function validateWithState(
       instance !== null &&
       !Array.isArray(instance)
     ) {
+      const tasks: Task[] = [];
+
       if (schema.properties !== undefined) {
-        pushSchemaToken(state, "properties");
         for (const [name, subSchema] of Object.entries(schema.properties)) {
-          pushSchemaToken(state, name);
-          if (instance.hasOwnProperty(name)) {
-            pushInstanceToken(state, name);
-            validateWithState(state, subSchema, (instance as any)[name]);
-            popInstanceToken(state);
+          const subPath = append(schemaPath, "properties", name);
+          if (hasOwn(instance, name)) {
+            tasks.push(
+              inside(task, subSchema, (instance as any)[name], name, subPath)
+            );
           } else {
-            pushError(state);
+            tasks.push({ kind: "error", instancePath, schemaPath: subPath });
           }
-          popSchemaToken(state);
         }
-        popSchemaToken(state);
       }
 
       if (schema.optionalProperties !== undefined) {
-        pushSchemaToken(state, "optionalProperties");
         for (const [name, subSchema] of Object.entries(
           schema.optionalProperties
         )) {
-          pushSchemaToken(state, name);
-          if (instance.hasOwnProperty(name)) {
-            pushInstanceToken(state, name);
-            validateWithState(state, subSchema, (instance as any)[name]);
-            popInstanceToken(state);
+          if (hasOwn(instance, name)) {
+            const subPath = append(schemaPath, "optionalProperties", name);
+            tasks.push(
+              inside(task, subSchema, (instance as any)[name], name, subPath)
+            );
           }
-          popSchemaToken(state);
         }
-        popSchemaToken(state);
       }
 
       if (schema.additionalProperties !== true) {
         for (const name of Object.keys(instance)) {
-          const inRequired = schema.properties && name in schema.properties;
+          const inRequired =
+            schema.properties && hasOwn(schema.properties, name);
           const inOptional =
-            schema.optionalProperties && name in schema.optionalProperties;
-
-          if (!inRequired && !inOptional && name !== parentTag) {
-            pushInstanceToken(state, name);
-            pushError(state);
-            popInstanceToken(state);
+            schema.optionalProperties &&
+            hasOwn(schema.optionalProperties, name);
+
+          if (!inRequired && !inOptional && name !== task.parentTag) {
+            tasks.push({
+              kind: "error",
+              instancePath: append(instancePath, name),
+              schemaPath,
+            });
           }
         }
       }
-    } else {
-      if (schema.properties !== undefined) {
-        pushSchemaToken(state, "properties");
-      } else {
-        pushSchemaToken(state, "optionalProperties");
-      }
 
-      pushError(state);
-      popSchemaToken(state);
+      pushReversed(stack, tasks);
+    } else {
+      pushError(
+        state,
+        instancePath,
+        append(
+          schemaPath,
+          schema.properties !== undefined ? "properties" : "optionalProperties"
+        )
+      );
     }
   } else if (isValuesForm(schema)) {
-    pushSchemaToken(state, "values");
+    const valuesPath = append(schemaPath, "values");
 
     // See comment in properties form on why this is the test we use for
     // checking for objects.
@@ -316,17 +416,18 @@ function validateWithState(
       instance !== null &&
       !Array.isArray(instance)
     ) {
-      for (const [name, subInstance] of Object.entries(instance)) {
-        pushInstanceToken(state, name);
-        validateWithState(state, schema.values, subInstance);
-        popInstanceToken(state);
-      }
+      pushReversed(
+        stack,
+        Object.entries(instance).map(([name, subInstance]) =>
+          inside(task, schema.values, subInstance, name, valuesPath)
+        )
+      );
     } else {
-      pushError(state);
+      pushError(state, instancePath, valuesPath);
     }
-
-    popSchemaToken(state);
   } else if (isDiscriminatorForm(schema)) {
+    const discriminatorPath = append(schemaPath, "discriminator");
+
     // See comment in properties form on why this is the test we use for
     // checking for objects.
     if (
@@ -334,84 +435,63 @@ function validateWithState(
       instance !== null &&
       !Array.isArray(instance)
     ) {
-      if (instance.hasOwnProperty(schema.discriminator)) {
+      if (hasOwn(instance, schema.discriminator)) {
         const tag = (instance as any)[schema.discriminator];
+        const tagPath = append(instancePath, schema.discriminator);
 
         if (typeof tag === "string") {
-          if (tag in schema.mapping) {
-            pushSchemaToken(state, "mapping");
-            pushSchemaToken(state, tag);
-            validateWithState(
-              state,
-              schema.mapping[tag],
-              instance,
-              schema.discriminator
-            );
-            popSchemaToken(state);
-            popSchemaToken(state);
+          if (hasOwn(schema.mapping, tag)) {
+            stack.push({
+              ...task,
+              schema: schema.mapping[tag],
+              parentTag: schema.discriminator,
+              schemaPath: append(schemaPath, "mapping", tag),
+              refChain: 0,
+            });
           } else {
-            pushSchemaToken(state, "mapping");
-            pushInstanceToken(state, schema.discriminator);
-            pushError(state);
-            popInstanceToken(state);
-            popSchemaToken(state);
+            pushError(state, tagPath, append(schemaPath, "mapping"));
           }
         } else {
-          pushSchemaToken(state, "discriminator");
-          pushInstanceToken(state, schema.discriminator);
-          pushError(state);
-          popInstanceToken(state);
-          popSchemaToken(state);
+          pushError(state, tagPath, discriminatorPath);
         }
       } else {
-        pushSchemaToken(state, "discriminator");
-        pushError(state);
-        popSchemaToken(state);
+        pushError(state, instancePath, discriminatorPath);
       }
     } else {
-      pushSchemaToken(state, "discriminator");
-      pushError(state);
-      popSchemaToken(state);
+      pushError(state, instancePath, discriminatorPath);
     }
   }
 }
 
-function validateInt(
-  state: ValidationState,
+// inside returns a task for validating a part of the instance that is inside
+// of the instance of another task.
+function inside(
+  task: ValidateTask,
+  schema: Schema,
   instance: unknown,
-  min: number,
-  max: number
-) {
-  if (
-    typeof instance !== "number" ||
-    !Number.isInteger(instance) ||
-    instance < min ||
-    instance > max
-  ) {
-    pushError(state);
-  }
-}
-
-function pushInstanceToken(state: ValidationState, token: string) {
-  state.instanceTokens.push(token);
-}
-
-function popInstanceToken(state: ValidationState) {
-  state.instanceTokens.pop();
-}
-
-function pushSchemaToken(state: ValidationState, token: string) {
-  state.schemaTokens[state.schemaTokens.length - 1].push(token);
-}
-
-function popSchemaToken(state: ValidationState) {
-  state.schemaTokens[state.schemaTokens.length - 1].pop();
+  token: string,
+  schemaPath: Path
+): ValidateTask {
+  return {
+    kind: "validate",
+    schema,
+    instance,
+    instancePath: append(task.instancePath, token),
+    schemaPath,
+    instanceDepth: task.instanceDepth + 1,
+    depth: task.depth,
+    refChain: 0,
+  };
 }
 
-function pushError(state: ValidationState) {
+function pushError(
+  state: ValidationState,
+  instancePath: Path,
+  schemaPath: Path
+) {
   state.errors.push({
-    instancePath: [...state.instanceTokens],
-    schemaPath: [...state.schemaTokens[state.schemaTokens.length - 1]],
+    instancePath: toArray(instancePath),
+    schemaPath: toArray(schemaPath),
   });
 
   if (state.errors.length === state.config.maxErrors) {